@@ -5,7 +5,7 @@
 
 
 import React, { useState, useCallback, useRef, useEffect, useMemo, useContext } from 'react';
-import { saveState, loadState, nukeDatabase, clearState } from './services/persistence';
+import { saveState, loadState, nukeDatabase, getStorageEstimate, STORAGE_WARNING_RATIO, deleteProject, duplicateProject, renameProject, createProjectId, getActiveProjectId, setActiveProjectId, DEFAULT_PROJECT_NAME, LEGACY_PROJECT_ID } from './services/persistence';
 import { AppContext } from './context/AppContext';
 import { Header } from './components/Header';
 import { Spinner } from './components/Spinner';
@@ -15,19 +15,45 @@ import { AdjustmentPanel } from './components/AdjustmentPanel';
 import TypographicPanel from './components/TypographicPanel';
 import { VectorArtPanel } from './components/VectorArtPanel';
 import { FluxPanel } from './components/FluxPanel';
-import { InpaintPanel } from './components/InpaintPanel';
+import { InpaintPanel, RegionMode } from './components/InpaintPanel';
 // Fix: Add missing import for VideoPanel component.
 import { VideoPanel } from './components/VideoPanel';
 import { StyleExtractorPanel } from './components/StyleExtractorPanel';
 import { CompareSlider } from './components/CompareSlider';
 import { ZoomPanViewer } from './components/ZoomPanViewer';
 // Fix: Add DownloadIcon to imports to resolve 'Cannot find name' error.
-import { UndoIcon, RedoIcon, CompareIcon, XIcon, MagicWandIcon, PaletteIcon, SunIcon, EraserIcon, TypeIcon, VectorIcon, BoltIcon, DownloadIcon, UploadIcon, StyleExtractorIcon } from './components/icons';
+import { UndoIcon, RedoIcon, CompareIcon, XIcon, CropIcon, MagicWandIcon, PaletteIcon, SunIcon, EraserIcon, TypeIcon, VectorIcon, BoltIcon, DownloadIcon, UploadIcon, StyleExtractorIcon, ExpandIcon, UpscaleIcon, ReferenceIcon, FilmIcon, ScissorsIcon, LayersIcon, InfoIcon } from './components/icons';
 import { SystemConfigWidget } from './components/SystemConfigWidget';
+import { JobTray } from './components/JobTray';
+import { HistoryPanel } from './components/HistoryPanel';
+import { RecipeDrawer } from './components/RecipeDrawer';
+import { ProjectBrowser } from './components/ProjectBrowser';
+import { StorageManager } from './components/StorageManager';
+import { CropPanel } from './components/CropPanel';
+import { ExpandPanel } from './components/ExpandPanel';
+import { UpscalePanel } from './components/UpscalePanel';
+import { ReferencePanel, ReferenceSlot } from './components/ReferencePanel';
+import { ProVideoPanel } from './components/ProVideoPanel';
+import { TimelinePanel } from './components/TimelinePanel';
+import { CropCanvas } from './components/CropCanvas';
+import { MaskCanvas } from './components/MaskCanvas';
 import { CameraCaptureModal } from './components/CameraCaptureModal';
 import { ImageUploadPlaceholder } from './components/ImageUploadPlaceholder';
 import { StartScreen } from './components/StartScreen';
 import * as geminiService from './services/geminiService';
+import { getDefaultProviderId, ProviderId, ReferenceImage, VideoResolution } from './services/imageProvider';
+import { GenerationError, QuotaError, FileAccessError, SafetyBlockError, CancelledError, NetworkError, ServiceUnavailableError, EngineAccessError } from './services/errors';
+import { HistoryTree, HistoryNode, Recipe, createEmptyTree, isEmptyTree, addNode, selectNode, getNode, getCurrentNode, getRootOf, getUndoTarget, getRedoTarget, toggleStar, pruneTree } from './utils/historyTree';
+import { CropTransform, createCropTransform, applyCropTransform } from './utils/imageTransform';
+import { ExpandSpec, prepareOutpaint, buildOutpaintInstruction } from './utils/outpaint';
+import { UpscaleSpec, upscaleLocal, upscaleTiled } from './utils/upscale';
+import { extractVideoFrame } from './utils/videoFrames';
+import { useImageSize } from './hooks/useImageSize';
+import { useMaskEditor } from './hooks/useMaskEditor';
+import { useSmartSelect } from './hooks/useSmartSelect';
+import { TimelineSpec, renderTimeline } from './utils/videoTimeline';
+import { renderFallbackVideo } from './utils/fallbackVideo';
+import { blobToDataUrl } from './services/geminiProvider';
 
 // Helper to convert a data URL string to a File object
 const dataURLtoFile = (dataurl: string, filename: string): File => {
@@ -62,7 +88,7 @@ const stabilizeFile = async (file: File): Promise<File> => {
     });
 };
 
-export type ActiveTab = 'filters' | 'adjust' | 'typography' | 'vector' | 'flux' | 'inpaint' | 'video_animation' | 'style_extractor';
+export type ActiveTab = 'filters' | 'adjust' | 'typography' | 'vector' | 'flux' | 'inpaint' | 'video_animation' | 'style_extractor' | 'crop' | 'expand' | 'upscale' | 'references' | 'pro_video' | 'timeline' | 'history';
 export type GenerationRequest = {
     type: ActiveTab;
     prompt?: string;
@@ -71,16 +97,264 @@ export type GenerationRequest = {
     aspectRatio?: string;
     isChaos?: boolean;
     batchSize?: number;
-    direction?: 'up' | 'down' | 'left' | 'right';
     maskBase64?: string;
-    referenceFile?: File;
+    // Multi-region inpaint; each region carries its own mask and instruction.
+    regions?: geminiService.InpaintRegion[];
+    regionMode?: RegionMode;
+    crop?: CropTransform;
+    expand?: ExpandSpec;
+    upscale?: UpscaleSpec;
+    references?: ReferenceImage[];
     duration?: number;
     fps?: number;
     motionStrength?: number;
+    resolution?: VideoResolution;
+    negativePrompt?: string;
+    // Animate the still locally if the video model is unavailable; on unless set to false.
+    localFallback?: boolean;
+    // Pro video: keyframes are history node ids so the recipe can be replayed.
+    startFrameNodeId?: string;
+    endFrameNodeId?: string;
+    shots?: { prompt: string }[];
+    timeline?: TimelineSpec;
+    // A still taken from the video entry `nodeId`, `time` seconds in.
+    frameGrab?: { nodeId: string; time: number };
     unlimitedMode?: boolean;
     noCensorship?: boolean;
     autoEnhance?: boolean;
     seed?: number;
+    provider?: ProviderId;
+};
+
+// Media produced by a single request, before it is placed in the history tree.
+type GenerationResult = {
+    media: string | string[];
+    mode: 'edit' | 'new' | 'batch' | 'sequence';
+    ext: 'png' | 'mp4' | 'webm';
+    // For 'sequence': the request that reproduces each step on its own from
+    // the step before it, recorded as that node's recipe.
+    steps?: GenerationRequest[];
+    // Set when a sequence stopped early; `media` holds the steps that finished.
+    failure?: Error;
+};
+
+// Fields a replay may change; everything else is taken from the stored recipe.
+export type ReplayOverrides = Partial<Pick<GenerationRequest, 'prompt' | 'seed'>>;
+
+// What a finished generation job hands back for insertion into history.
+// 'edit' results are attached under recipe.sourceId; 'sequence' clips are
+// chained one under the next, starting there.
+export type GenerationOutcome = GenerationResult & { recipe: Recipe };
+
+const TAB_LABELS: Record<ActiveTab, string> = {
+    flux: 'Flux',
+    style_extractor: 'Style',
+    filters: 'Filter',
+    adjust: 'Adjust',
+    inpaint: 'Inpaint',
+    crop: 'Crop',
+    expand: 'Expand',
+    upscale: 'Upscale',
+    references: 'Reference',
+    typography: 'Typography',
+    vector: 'Vector',
+    video_animation: 'Animation',
+    pro_video: 'Pro Video',
+    timeline: 'Timeline',
+    history: 'History',
+};
+
+const describeRequest = (req: GenerationRequest): string => {
+    const prompt = req.prompt?.trim() || req.regions?.map(region => region.name).join(', ') || '';
+    const snippet = prompt.length > 40 ? `${prompt.substring(0, 40)}…` : prompt;
+    return snippet ? `${TAB_LABELS[req.type]}: ${snippet}` : TAB_LABELS[req.type];
+};
+
+// Runs a single request against the generation services. Pure with respect to
+// app state so it can execute in the background while the user keeps editing;
+// `getMedia` looks up other history nodes a request refers to by id.
+const runGeneration = async (
+    req: GenerationRequest,
+    source: File | null,
+    options: geminiService.ServiceOptions,
+    getMedia: (nodeId: string) => File | null = () => null,
+): Promise<GenerationResult | null> => {
+    switch(req.type) {
+        case 'flux':
+            if (req.forceNew || !source) {
+                if (req.batchSize && req.batchSize > 1) {
+                    return { media: await geminiService.generateBatchImages(req.prompt!, req.batchSize, req.aspectRatio, req.isChaos, options), mode: 'batch', ext: 'png' };
+                }
+                return { media: await geminiService.generateFluxTextToImage(req.prompt!, req.aspectRatio, req.isChaos, options), mode: 'new', ext: 'png' };
+            }
+            return { media: await geminiService.generateFluxImage(source, req.prompt!, req.aspectRatio, req.isChaos, options), mode: 'edit', ext: 'png' };
+        case 'filters':
+            return source ? { media: await geminiService.generateFilteredImage(source, req.prompt!, req.aspectRatio, options), mode: 'edit', ext: 'png' } : null;
+        case 'adjust':
+            return source ? { media: await geminiService.generateAdjustedImage(source, req.prompt!, req.aspectRatio, options), mode: 'edit', ext: 'png' } : null;
+        case 'typography':
+            if (req.forceNew || !source) {
+                return { media: await geminiService.generateTypographicTextToImage(req.prompt!, req.aspectRatio, options), mode: 'new', ext: 'png' };
+            }
+            return { media: await geminiService.generateTypographicImage(source, req.prompt!, req.aspectRatio, options), mode: 'edit', ext: 'png' };
+        case 'vector':
+            if (req.forceNew || !source) {
+                return { media: await geminiService.generateVectorTextToImage(req.prompt!, req.aspectRatio, options), mode: 'new', ext: 'png' };
+            }
+            return { media: await geminiService.generateVectorArtImage(source, req.prompt!, req.aspectRatio, options), mode: 'edit', ext: 'png' };
+        case 'inpaint': {
+            if (!source) return null;
+            const regions = req.regions ?? [];
+            if (regions.length === 0) {
+                return req.maskBase64 ? { media: await geminiService.generateInpaintedImage(source, req.maskBase64, req.prompt!, options), mode: 'edit', ext: 'png' } : null;
+            }
+            if (req.regionMode === 'composite') {
+                return { media: await geminiService.generateRegionalInpaint(source, regions, options), mode: 'edit', ext: 'png' };
+            }
+            // Region by region, each edit starting from the previous result.
+            const stepRequests = regions.map((region, i): GenerationRequest => ({
+                ...req,
+                regions: undefined,
+                regionMode: undefined,
+                prompt: region.prompt,
+                maskBase64: region.maskBase64,
+                seed: req.seed === undefined ? undefined : req.seed + i,
+            }));
+            const steps: string[] = [];
+            let current = source;
+            for (let i = 0; i < regions.length; i++) {
+                const result = await geminiService.generateInpaintedImage(current, regions[i].maskBase64, regions[i].prompt, {
+                    ...options,
+                    seed: stepRequests[i].seed,
+                    onProgress: undefined,
+                });
+                steps.push(result);
+                options.onProgress?.((i + 1) / regions.length);
+                current = dataURLtoFile(result, `region-${i}.png`);
+            }
+            return req.regionMode === 'merged'
+                ? { media: steps[steps.length - 1], mode: 'edit', ext: 'png' }
+                : { media: steps, mode: 'sequence', ext: 'png', steps: stepRequests };
+        }
+        case 'crop':
+            if (!source || !req.crop) return null;
+            options.onTrace?.({ provider: 'local', model: 'canvas-2d', protocol: 'NONE', context: 'crop' });
+            return { media: await applyCropTransform(source, req.crop), mode: 'edit', ext: 'png' };
+        case 'expand': {
+            if (!source || !req.expand) return null;
+            const padded = await prepareOutpaint(source, req.expand);
+            const instruction = buildOutpaintInstruction(padded.padding, req.prompt);
+            return { media: await geminiService.generateExpandedImage(padded.file, padded.maskBase64, instruction, options), mode: 'edit', ext: 'png' };
+        }
+        case 'upscale': {
+            if (!source || !req.upscale) return null;
+            const { factor, method } = req.upscale;
+            const upscaleLocally = async (): Promise<GenerationResult> => {
+                options.onTrace?.({ provider: 'local', model: 'lanczos-3', protocol: 'NONE', context: 'upscale' });
+                return { media: await upscaleLocal(source, factor), mode: 'edit', ext: 'png' };
+            };
+            // Without a connection the AI path cannot run, so fall back to the local resample.
+            if (method === 'local' || !navigator.onLine) return upscaleLocally();
+            try {
+                return { media: await upscaleTiled(source, factor, tile => geminiService.generateUpscaledTile(tile, options), options.onProgress), mode: 'edit', ext: 'png' };
+            } catch (e) {
+                if (e instanceof NetworkError) return upscaleLocally();
+                throw e;
+            }
+        }
+        case 'video_animation':
+            try {
+                return {
+                    media: await geminiService.generateVideo(req.prompt!, {
+                        aspectRatio: req.aspectRatio,
+                        durationSeconds: req.duration,
+                        fps: req.fps,
+                        resolution: req.resolution,
+                        motionStrength: req.motionStrength,
+                        negativePrompt: req.negativePrompt,
+                    }, { first: source }, options),
+                    mode: 'new',
+                    ext: 'mp4',
+                };
+            } catch (e) {
+                // Out of quota or unreachable: animate the still locally rather than return nothing.
+                const unavailable = e instanceof QuotaError || e instanceof ServiceUnavailableError || e instanceof EngineAccessError || e instanceof NetworkError;
+                if (!source || !unavailable || req.localFallback === false) throw e;
+                console.warn(`Video model unavailable (${(e as Error).message}); rendering a local animation instead.`);
+                options.onTrace?.({ provider: 'local', model: 'ken-burns', protocol: 'NONE', context: 'fallbackVideo' });
+                const video = await renderFallbackVideo(source, {
+                    aspectRatio: req.aspectRatio,
+                    durationSeconds: req.duration,
+                    fps: req.fps,
+                    motionStrength: req.motionStrength,
+                    seed: req.seed,
+                }, options.onProgress, options.signal);
+                return { media: await blobToDataUrl(video), mode: 'new', ext: video.type === 'video/mp4' ? 'mp4' : 'webm' };
+            }
+        case 'pro_video': {
+            const shots = req.shots?.filter(shot => shot.prompt.trim()) ?? [];
+            if (shots.length === 0) return null;
+            const endFrame = req.endFrameNodeId ? getMedia(req.endFrameNodeId) : null;
+            if (req.endFrameNodeId && !endFrame) throw new Error("The end frame for this video is no longer in history.");
+            // Starting from a clip extends it: the new shot picks up on its last frame.
+            let frame = source?.type.startsWith('video/') ? await extractVideoFrame(source, 'last') : source;
+            const settings = {
+                aspectRatio: req.aspectRatio,
+                durationSeconds: req.duration,
+                resolution: req.resolution,
+                motionStrength: req.motionStrength,
+                negativePrompt: req.negativePrompt,
+            };
+            // Each shot replays on its own from the clip before it; later shots
+            // vary the seed so they do not repeat the first one's motion.
+            const stepRequests = shots.map((shot, i): GenerationRequest => ({
+                ...req,
+                shots: [shot],
+                startFrameNodeId: i === 0 ? req.startFrameNodeId : undefined,
+                endFrameNodeId: i === shots.length - 1 ? req.endFrameNodeId : undefined,
+                seed: req.seed === undefined ? undefined : req.seed + i,
+            }));
+            const clips: string[] = [];
+            for (let i = 0; i < shots.length; i++) {
+                const isLast = i === shots.length - 1;
+                try {
+                    const clip = await geminiService.generateVideo(shots[i].prompt, settings, {
+                        first: frame,
+                        last: isLast ? endFrame : null,
+                    }, {
+                        ...options,
+                        seed: stepRequests[i].seed,
+                        onProgress: undefined,
+                    });
+                    clips.push(clip);
+                    options.onProgress?.((i + 1) / shots.length);
+                    if (!isLast) frame = await extractVideoFrame(dataURLtoFile(clip, `shot-${i}.mp4`), 'last');
+                } catch (e) {
+                    // Finished shots took minutes each; keep them unless the job was cancelled.
+                    if (clips.length === 0 || options.signal?.aborted || e instanceof CancelledError) throw e;
+                    const kept = clips.length === 1 ? 'The first shot was kept.' : `The first ${clips.length} shots were kept.`;
+                    const failure = new Error(`Shot ${clips.length + 1} of ${shots.length} failed: ${e instanceof Error ? e.message : String(e)} ${kept}`);
+                    return { media: clips, mode: 'sequence', ext: 'mp4', steps: stepRequests, failure };
+                }
+            }
+            return { media: clips, mode: 'sequence', ext: 'mp4', steps: stepRequests };
+        }
+        case 'timeline': {
+            if (req.frameGrab) {
+                if (!source) return null;
+                options.onTrace?.({ provider: 'local', model: 'html-video', protocol: 'NONE', context: 'frameGrab' });
+                return { media: await blobToDataUrl(await extractVideoFrame(source, req.frameGrab.time)), mode: 'edit', ext: 'png' };
+            }
+            if (!req.timeline?.clips.length) return null;
+            const media = req.timeline.clips.map(clip => getMedia(clip.nodeId));
+            if (media.some(file => !file)) throw new Error("A clip on this timeline is no longer in history.");
+            options.onTrace?.({ provider: 'local', model: 'media-recorder', protocol: 'NONE', context: 'timeline' });
+            const video = await renderTimeline(req.timeline, media as File[], options.onProgress, options.signal);
+            return { media: await blobToDataUrl(video), mode: 'edit', ext: video.type === 'video/mp4' ? 'mp4' : 'webm' };
+        }
+        default:
+            return null;
+    }
 };
 
 const AndroidOptimizations = () => {
@@ -204,25 +478,37 @@ const GlobalSakugaEffects: React.FC = () => {
 };
 
 export const App: React.FC = () => {
-    const { isLoading, setIsLoading } = useContext(AppContext);
+    const { isLoading, setIsLoading, jobs, enqueueJob, cancelJob, dismissJob, markJobApplied, jobConcurrency, setJobConcurrency } = useContext(AppContext);
     const [appStarted, setAppStarted] = useState(false);
-    const [history, setHistory] = useState<(File | string)[]>([]);
-    const [historyIndex, setHistoryIndex] = useState(-1);
-    const [error, setError] = useState<string | null>(null);
+    const [projectId, setProjectId] = useState(() => getActiveProjectId() ?? LEGACY_PROJECT_ID);
+    const [projectName, setProjectName] = useState(DEFAULT_PROJECT_NAME);
+    const [isProjectBrowserOpen, setIsProjectBrowserOpen] = useState(false);
+    const [isStorageManagerOpen, setIsStorageManagerOpen] = useState(false);
+    const [storageWarning, setStorageWarning] = useState<string | null>(null);
+    const storageWarnedRef = useRef(false);
+    const [historyTree, setHistoryTree] = useState<HistoryTree>(createEmptyTree);
+    const [error, setError] = useState<Error | null>(null);
     const [activeTab, setActiveTab] = useState<ActiveTab | null>('flux');
     const [isComparing, setIsComparing] = useState(false);
+    // Node shown on the "before" side of the compare slider; null = the branch's root.
+    const [compareNodeId, setCompareNodeId] = useState<string | null>(null);
+    const [isRecipeOpen, setIsRecipeOpen] = useState(false);
     const [viewerInstruction, setViewerInstruction] = useState<string | null>(null);
     
     // LIFTED/NEW STATE FOR FEATURES
     const [fluxPrompt, setFluxPrompt] = useState('');
     const [previewImageUrl, setPreviewImageUrl] = useState<string | null>(null);
 
-    // Inpainting State
-    const [isPainting, setIsPainting] = useState(false);
-    const [brushSize, setBrushSize] = useState(40);
-    const maskCanvasRef = useRef<HTMLCanvasElement>(null);
-    const lastPosition = useRef<{ x: number, y: number } | null>(null);
-    const imageDimensions = useRef<{width: number, height: number}>({width: 0, height: 0});
+    // Crop tool state; edits are previewed locally until applied.
+    const [cropTransform, setCropTransform] = useState<CropTransform>(createCropTransform);
+    // Kept here so the reference set survives switching tools.
+    const [references, setReferences] = useState<ReferenceSlot[]>([]);
+    // Background jobs read history when they finish, not when they were queued.
+    const historyTreeRef = useRef(historyTree);
+    historyTreeRef.current = historyTree;
+    // Jobs finish after the user may have switched projects.
+    const projectIdRef = useRef(projectId);
+    projectIdRef.current = projectId;
 
     // Settings State
     const [isCameraOpen, setIsCameraOpen] = useState(false);
@@ -230,29 +516,38 @@ export const App: React.FC = () => {
     const [hakiColor, setHakiColor] = useState('#DB24E3');
     const [isPlatinumTier, setIsPlatinumTier] = useState(true); // Locked
 
+    const currentNode = useMemo(() => getCurrentNode(historyTree), [historyTree]);
+    const originalNode = useMemo(() => getRootOf(historyTree, historyTree.currentId), [historyTree]);
+    const compareNode = useMemo(() => getNode(historyTree, compareNodeId) ?? originalNode, [historyTree, compareNodeId, originalNode]);
+
     const currentImageFile = useMemo(() => {
-        const item = history[historyIndex];
+        const item = currentNode?.media;
         return item instanceof File ? item : null;
-    }, [history, historyIndex]);
+    }, [currentNode]);
     
     const currentMediaUrl = useMemo(() => {
-        const item = history[historyIndex];
+        const item = currentNode?.media;
         if (!item) return null;
         if (typeof item === 'string') return item;
         return URL.createObjectURL(item);
-    }, [history, historyIndex]);
+    }, [currentNode]);
+
+    // The inpaint mask belongs to the image it was drawn on.
+    const imageSize = useImageSize(currentImageFile);
+    const mask = useMaskEditor(imageSize, currentNode?.id);
+    const smartSelect = useSmartSelect(mask, currentImageFile);
 
     const originalImageFile = useMemo(() => {
-        const item = history[0];
+        const item = originalNode?.media;
         return item instanceof File ? item : null;
-    }, [history]);
+    }, [originalNode]);
     
     const originalImageUrl = useMemo(() => {
-        const item = history[0];
+        const item = compareNode?.media;
         if (!item) return null;
         if (typeof item === 'string') return item;
         return URL.createObjectURL(item);
-    }, [history]);
+    }, [compareNode]);
 
     // This effect cleans up the Object URLs to prevent memory leaks.
     useEffect(() => {
@@ -264,36 +559,64 @@ export const App: React.FC = () => {
         };
     }, [currentMediaUrl, originalImageUrl]);
 
-    // Load state from IndexedDB on initial mount
+    // Replaces everything that belongs to a project in one batch, so the
+    // autosave below never writes one project's history under another's id.
+    const applyProjectState = useCallback((id: string, savedState: Awaited<ReturnType<typeof loadState>>) => {
+        setProjectId(id);
+        setProjectName(savedState?.name ?? DEFAULT_PROJECT_NAME);
+        setHistoryTree(savedState?.historyTree ?? createEmptyTree());
+        setActiveTab(savedState?.activeTab as ActiveTab || 'flux');
+        setHakiEnabled(savedState?.hakiEnabled ?? true);
+        setHakiColor(savedState?.hakiColor ?? '#DB24E3');
+        setIsPlatinumTier(true);
+        setCompareNodeId(null);
+        setIsComparing(false);
+        setFluxPrompt('');
+        setPreviewImageUrl(null);
+    }, []);
+
+    // Load the active project from IndexedDB on initial mount
     useEffect(() => {
         const loadInitialState = async () => {
             setIsLoading(true);
             try {
-                const savedState = await loadState();
-                if (savedState && savedState.history.length > 0) {
-                    setHistory(savedState.history);
-                    setHistoryIndex(savedState.historyIndex);
-                    setActiveTab(savedState.activeTab as ActiveTab || 'flux'); 
-                    setHakiEnabled(savedState.hakiEnabled ?? true);
-                    setHakiColor(savedState.hakiColor ?? '#DB24E3');
-                    setIsPlatinumTier(true);
+                const savedState = await loadState(projectId);
+                if (savedState && !isEmptyTree(savedState.historyTree)) {
+                    applyProjectState(projectId, savedState);
                     setAppStarted(true); // If history exists, bypass start screen
+                } else if (projectId === LEGACY_PROJECT_ID) {
+                    setProjectId(createProjectId());
                 }
             } catch (e: any) {
-                setError(`Failed to load session: ${e.message}`);
+                setError(new Error(`Failed to load session: ${e.message}`));
             } finally {
                 setIsLoading(false);
             }
         };
+        // Runs once on mount; later project switches go through handleOpenProject.
         loadInitialState();
-    }, [setIsLoading]);
+    }, [setIsLoading, applyProjectState]);
+
+    useEffect(() => {
+        setActiveProjectId(projectId);
+    }, [projectId]);
 
-    // Save state whenever history or settings change
+    // Save state whenever history or settings change. Empty projects are not
+    // written, so the library only lists sessions with content.
     useEffect(() => {
-        if (!isLoading) {
-            saveState(history, historyIndex, activeTab || '', hakiEnabled, hakiColor, 1, 1, isPlatinumTier);
+        if (!isLoading && !isEmptyTree(historyTree)) {
+            saveState(projectId, projectName, historyTree, activeTab || '', hakiEnabled, hakiColor, 1, 1, isPlatinumTier)
+                .then(getStorageEstimate)
+                .then(estimate => {
+                    // Warn once each time usage crosses the threshold, not on every save.
+                    const isNearQuota = !!estimate && estimate.usage / estimate.quota >= STORAGE_WARNING_RATIO;
+                    if (isNearQuota && !storageWarnedRef.current) {
+                        setStorageWarning(`Storage is ${Math.round(estimate!.usage / estimate!.quota * 100)}% full. Prune history or delete projects before new results fail to save.`);
+                    }
+                    storageWarnedRef.current = isNearQuota;
+                });
         }
-    }, [history, historyIndex, activeTab, hakiEnabled, hakiColor, isPlatinumTier, isLoading]);
+    }, [projectId, projectName, historyTree, activeTab, hakiEnabled, hakiColor, isPlatinumTier, isLoading]);
 
     // Clear error message after a delay
     useEffect(() => {
@@ -306,160 +629,242 @@ export const App: React.FC = () => {
     useEffect(() => {
         setPreviewImageUrl(null);
     }, [activeTab]);
-    
+
+    // A pending crop belongs to the image it was drawn on.
     useEffect(() => {
-        if (currentMediaUrl && currentImageFile) {
-            const img = new Image();
-            img.onload = () => {
-                imageDimensions.current = { width: img.naturalWidth, height: img.naturalHeight };
-            };
-            img.src = currentMediaUrl;
-        }
-    }, [currentMediaUrl, currentImageFile]);
+        setCropTransform(createCropTransform());
+    }, [currentNode?.id]);
     
-    useEffect(() => {
-        if (activeTab === 'inpaint' && maskCanvasRef.current && imageDimensions.current.width > 0) {
-            const canvas = maskCanvasRef.current;
-            const ctx = canvas.getContext('2d');
-            if (!ctx) return;
-            const { width, height } = imageDimensions.current;
-            const ratio = window.devicePixelRatio || 1;
-            canvas.width = width * ratio;
-            canvas.height = height * ratio;
-            canvas.style.width = `${width}px`;
-            canvas.style.height = `${height}px`;
-            ctx.scale(ratio, ratio);
-        }
-    }, [activeTab]);
-
     const handleImageUpload = useCallback(async (file: File) => {
         setIsLoading(true);
         setError(null);
         try {
             const stabilizedFile = await stabilizeFile(file);
-            setHistory([stabilizedFile]);
-            setHistoryIndex(0);
+            setHistoryTree(prev => addNode(prev, stabilizedFile, null).tree);
             setActiveTab('flux');
             setFluxPrompt(''); 
             setPreviewImageUrl(null);
         } catch (e: any) {
-            setError(`Error processing upload: ${e.message}`);
+            setError(new Error(`Error processing upload: ${e.message}`));
         } finally {
             setIsLoading(false);
         }
     }, [setIsLoading]);
 
-    const updateHistory = (newMedia: string | string[], type: 'edit' | 'new' | 'batch', ext: 'png' | 'mp4' = 'png') => {
-        if (type === 'edit' && typeof newMedia === 'string') {
-            const newFile = dataURLtoFile(newMedia, `edit-${Date.now()}.${ext}`);
-            const newHistory = history.slice(0, historyIndex + 1);
-            newHistory.push(newFile);
-            setHistory(newHistory);
-            setHistoryIndex(newHistory.length - 1);
-        } else if (type === 'new' && typeof newMedia === 'string') {
-            const newFile = dataURLtoFile(newMedia, `gen-${Date.now()}.${ext}`);
-            setHistory([newFile]);
-            setHistoryIndex(0);
-        } else if (type === 'batch' && Array.isArray(newMedia)) {
-            const newFiles = newMedia.map(url => dataURLtoFile(url, `batch-${Date.now()}.${ext}`));
-            setHistory(newFiles);
-            setHistoryIndex(0);
+    // Adds a job's result to the tree: edits become children of the node they
+    // were made from, new images become roots, batches become sibling roots and
+    // sequences become a chain of clips ending on the last one.
+    const updateHistory = useCallback((outcome: GenerationOutcome) => {
+        const { media, mode, ext, recipe } = outcome;
+        setHistoryTree(prev => {
+            if (mode === 'edit' && typeof media === 'string') {
+                return addNode(prev, dataURLtoFile(media, `edit-${Date.now()}.${ext}`), recipe.sourceId, recipe).tree;
+            }
+            if (mode === 'new' && typeof media === 'string') {
+                return addNode(prev, dataURLtoFile(media, `gen-${Date.now()}.${ext}`), null, recipe).tree;
+            }
+            if (mode === 'batch' && Array.isArray(media)) {
+                let tree = prev;
+                let firstId: string | null = null;
+                media.forEach((url, i) => {
+                    const added = addNode(tree, dataURLtoFile(url, `batch-${Date.now()}-${i}.${ext}`), null, recipe, false);
+                    tree = added.tree;
+                    firstId = firstId ?? added.node.id;
+                });
+                return firstId ? selectNode(tree, firstId) : tree;
+            }
+            if (mode === 'sequence' && Array.isArray(media)) {
+                let tree = prev;
+                let parentId = recipe.sourceId;
+                media.forEach((url, i) => {
+                    // Each step replays on its own, from the step before it.
+                    const stepRecipe = { ...recipe, request: outcome.steps?.[i] ?? recipe.request, sourceId: parentId };
+                    const added = addNode(tree, dataURLtoFile(url, `shot-${Date.now()}-${i}.${ext}`), parentId, stepRecipe);
+                    tree = added.tree;
+                    parentId = added.node.id;
+                });
+                return tree;
+            }
+            return prev;
+        });
+    }, []);
+
+    const handleApplyJob = useCallback((id: string, outcome: GenerationOutcome) => {
+        updateHistory(outcome);
+        markJobApplied(id);
+    }, [updateHistory, markJobApplied]);
+
+    // Applies a finished job from the tray, but only to the project it was started in.
+    const handleApplyTrayJob = useCallback((id: string) => {
+        const job = jobs.find(j => j.id === id);
+        if (!job?.result) return;
+        if (job.projectId !== projectIdRef.current) {
+            setError(new Error("This result belongs to another project. Open that project to apply it."));
+            return;
         }
-    };
-    
-    const handleGenerationRequest = useCallback(async (req: GenerationRequest) => {
-        setIsLoading(true);
+        handleApplyJob(id, job.result);
+    }, [jobs, handleApplyJob]);
+
+    // Queues `req` against the image of `sourceNode` and delivers the result to history.
+    const enqueueGeneration = useCallback((req: GenerationRequest, sourceNode: HistoryNode | null) => {
         setError(null);
         setPreviewImageUrl(null);
-        try {
-            const source = (req.useOriginal ? originalImageFile : currentImageFile) || currentImageFile;
-            
-            switch(req.type) {
-                case 'flux': {
-                    if (req.forceNew || !source) {
-                        if (req.batchSize && req.batchSize > 1) {
-                            const results = await geminiService.generateBatchImages(req.prompt!, req.batchSize, req.aspectRatio, req.isChaos);
-                            updateHistory(results, 'batch');
-                        } else {
-                            const result = await geminiService.generateFluxTextToImage(req.prompt!, req.aspectRatio, req.isChaos);
-                            updateHistory(result, 'new');
-                        }
-                    } else if (source) {
-                        const result = await geminiService.generateFluxImage(source, req.prompt!, req.aspectRatio, req.isChaos);
-                        updateHistory(result, 'edit');
-                    }
-                    setFluxPrompt('');
-                    break;
-                }
-                case 'filters':
-                    if (source) updateHistory(await geminiService.generateFilteredImage(source, req.prompt!, req.aspectRatio), 'edit');
-                    break;
-                case 'adjust':
-                    if (source) updateHistory(await geminiService.generateAdjustedImage(source, req.prompt!, req.aspectRatio), 'edit');
-                    break;
-                case 'typography':
-                    if (req.forceNew || !source) {
-                        updateHistory(await geminiService.generateTypographicTextToImage(req.prompt!, req.aspectRatio), 'new');
-                    } else {
-                        updateHistory(await geminiService.generateTypographicImage(source, req.prompt!, req.aspectRatio), 'edit');
-                    }
-                    break;
-                case 'vector':
-                     if (req.forceNew || !source) {
-                        updateHistory(await geminiService.generateVectorTextToImage(req.prompt!, req.aspectRatio), 'new');
-                    } else {
-                        updateHistory(await geminiService.generateVectorArtImage(source, req.prompt!, req.aspectRatio), 'edit');
-                    }
-                    break;
-                case 'inpaint':
-                    if (source && req.maskBase64) updateHistory(await geminiService.generateInpaintedImage(source, req.maskBase64, req.prompt!), 'edit');
-                    break;
-                case 'video_animation': {
-                    const result = await geminiService.generateVideo(req.prompt!, req.aspectRatio, source);
-                    updateHistory(result, 'new', 'mp4');
-                    break;
-                }
-            }
-        } catch (e: any) {
-            setError(e.message);
-        } finally {
-            setIsLoading(false);
+        const source = sourceNode?.media instanceof File ? sourceNode.media : null;
+        const anchorId = historyTreeRef.current.currentId;
+        const jobProjectId = projectIdRef.current;
+
+        const { id, done } = enqueueJob(describeRequest(req), async ({ signal, setProgress }): Promise<GenerationOutcome | null> => {
+            let trace = null as geminiService.GenerationTrace | null;
+            const startedAt = performance.now();
+            const result = await runGeneration(req, source, {
+                provider: req.provider,
+                signal,
+                seed: req.seed,
+                references: req.references,
+                onProgress: setProgress,
+                onTrace: (t) => { trace = t; },
+            }, (nodeId) => {
+                const media = getNode(historyTreeRef.current, nodeId)?.media;
+                return media instanceof File ? media : null;
+            });
+            if (!result) return null;
+            const { provider, model, protocol } = trace ?? { provider: req.provider ?? getDefaultProviderId(), model: 'unknown', protocol: 'NONE' };
+            // Text-to-image ignores the current image; image-to-video uses it as the first frame.
+            const usedSource = result.mode === 'edit' || result.mode === 'sequence' || req.type === 'video_animation';
+            return {
+                ...result,
+                recipe: {
+                    request: req,
+                    protocol,
+                    provider,
+                    model,
+                    sourceId: usedSource && source ? sourceNode?.id ?? null : null,
+                    durationMs: Math.round(performance.now() - startedAt),
+                },
+            };
+        }, { projectId: jobProjectId });
+
+        done.then(outcome => {
+            if (!outcome) return;
+            if (req.type === 'flux') setFluxPrompt(prev => (prev === req.prompt ? '' : prev));
+            // Land the result in history only if the user is still on the node the
+            // job started from; otherwise it waits in the job tray.
+            if (projectIdRef.current === jobProjectId && historyTreeRef.current.currentId === anchorId) handleApplyJob(id, outcome);
+            if (outcome.failure) setError(outcome.failure);
+        }).catch(e => {
+            // A cancelled job leaves history untouched and needs no toast.
+            if (!(e instanceof CancelledError)) setError(e instanceof Error ? e : new Error(String(e)));
+        });
+    }, [enqueueJob, handleApplyJob]);
+
+    const handleGenerationRequest = useCallback((req: GenerationRequest) => {
+        // Pro video names its start frame explicitly; a request without one is text-to-video.
+        // Timeline results hang off the clip they were grabbed from or the first clip.
+        const sourceNode = req.type === 'pro_video'
+            ? getNode(historyTreeRef.current, req.startFrameNodeId)
+            : req.type === 'timeline'
+                ? getNode(historyTreeRef.current, req.frameGrab?.nodeId ?? req.timeline?.clips[0]?.nodeId)
+                : (req.useOriginal && originalImageFile ? originalNode : currentNode) ?? null;
+        enqueueGeneration(req, sourceNode);
+    }, [originalNode, currentNode, originalImageFile, enqueueGeneration]);
+
+    // Replays a node's recipe against the same source image, optionally with a
+    // new seed or an edited prompt. The result lands beside the node as a sibling.
+    const handleReplay = useCallback((nodeId: string, overrides: ReplayOverrides = {}) => {
+        const node = getNode(historyTreeRef.current, nodeId);
+        if (!node?.recipe) return;
+        const { request, sourceId, omittedReferences } = node.recipe;
+        if (omittedReferences) {
+            setError(new Error("This recipe's reference images could not be restored, so it cannot be replayed."));
+            return;
         }
-    }, [historyIndex, history, originalImageFile, currentImageFile, setIsLoading, setFluxPrompt]);
+        const sourceNode = getNode(historyTreeRef.current, sourceId);
+        if (sourceId && !sourceNode) {
+            setError(new Error("The source image for this recipe is no longer in history."));
+            return;
+        }
+        enqueueGeneration({ ...request, ...overrides }, sourceNode);
+    }, [enqueueGeneration]);
+
+    const handleSelectNode = useCallback((id: string) => {
+        setHistoryTree(prev => selectNode(prev, id));
+    }, []);
+
+    const handleCompareNode = useCallback((id: string) => {
+        setCompareNodeId(id);
+        setIsComparing(true);
+    }, []);
+
+    const handleCloseCompare = () => {
+        setIsComparing(false);
+        setCompareNodeId(null);
+    };
+
+    const undoTarget = getUndoTarget(historyTree);
+    const redoTarget = getRedoTarget(historyTree);
+    const handleToggleStar = useCallback((id: string) => {
+        setHistoryTree(tree => toggleStar(tree, id));
+    }, []);
+
+    const prunableCount = useMemo(() => pruneTree(historyTree).removed, [historyTree]);
+    const handlePruneHistory = () => {
+        setHistoryTree(tree => pruneTree(tree).tree);
+        setCompareNodeId(null);
+    };
 
-    const handleUndo = () => historyIndex > 0 && setHistoryIndex(historyIndex - 1);
-    const handleRedo = () => historyIndex < history.length - 1 && setHistoryIndex(historyIndex + 1);
+    const handleUndo = () => undoTarget && handleSelectNode(undoTarget);
+    const handleRedo = () => redoTarget && handleSelectNode(redoTarget);
     const handleGoHome = () => {
-        if (window.confirm('This will start a new session. Are you sure?')) {
-            setHistory([]);
-            setHistoryIndex(-1);
-            setActiveTab('flux');
+        if (window.confirm('Return to the start screen? This project stays in your library.')) {
+            applyProjectState(createProjectId(), null);
             setAppStarted(false);
-            setFluxPrompt('');
-            setPreviewImageUrl(null);
-            setIsComparing(false);
             setError(null);
-            clearState().catch(e => {
-                console.error("Failed to clear session:", e);
-                setError("Could not clear session. Please try a hard reset.");
-            });
         }
     };
     const handleRemoveImage = () => {
-        if (window.confirm('Are you sure you want to remove this image and clear your session? This cannot be undone.')) {
-            setHistory([]);
-            setHistoryIndex(-1);
+        if (window.confirm('Are you sure you want to remove this image and clear this project? This cannot be undone.')) {
+            setHistoryTree(createEmptyTree());
             setActiveTab('flux');
             setFluxPrompt('');
             setPreviewImageUrl(null);
             setIsComparing(false);
             setError(null);
-             clearState().catch(e => {
+            deleteProject(projectId).catch(e => {
                 console.error("Failed to clear session:", e);
-                setError("Could not clear session. Please try a hard reset.");
+                setError(new Error("Could not clear session. Please try a hard reset."));
             });
         }
     };
+
+    const handleOpenProject = async (id: string) => {
+        setIsLoading(true);
+        try {
+            const savedState = await loadState(id);
+            if (!savedState) throw new Error("The project could not be found.");
+            applyProjectState(id, savedState);
+            setAppStarted(true);
+            setIsProjectBrowserOpen(false);
+        } catch (e: any) {
+            setError(new Error(`Failed to open project: ${e.message}`));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleRenameProject = async (id: string, name: string) => {
+        // The active project is renamed through state so autosave persists it.
+        if (id === projectId) setProjectName(name);
+        else await renameProject(id, name);
+    };
+
+    const handleDeleteProject = async (id: string) => {
+        await deleteProject(id);
+        if (id === projectId) {
+            applyProjectState(createProjectId(), null);
+            setAppStarted(false);
+        }
+    };
+
     const handleHardFix = async () => { await nukeDatabase(); window.location.reload(); };
     const handleSoftFix = () => window.location.reload();
 
@@ -475,10 +880,10 @@ export const App: React.FC = () => {
     };
     
     const mediaType = useMemo(() => {
-        const item = history[historyIndex];
+        const item = currentNode?.media;
         if (typeof item === 'string') return 'video/mp4';
         return item?.type;
-    }, [history, historyIndex]);
+    }, [currentNode]);
 
     const handleToggleTab = (tab: ActiveTab) => {
         setActiveTab(prev => (prev === tab ? null : tab));
@@ -494,37 +899,6 @@ export const App: React.FC = () => {
         setActiveTab('flux');
     };
 
-    const getPaintCoordinates = (event: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>) => {
-        if (!maskCanvasRef.current) return null;
-        const canvas = maskCanvasRef.current;
-        const rect = canvas.getBoundingClientRect();
-        const { clientX, clientY } = 'touches' in event ? event.touches[0] : event;
-        const scaleX = canvas.width / (rect.width * (window.devicePixelRatio || 1));
-        const scaleY = canvas.height / (rect.height * (window.devicePixelRatio || 1));
-        return { x: (clientX - rect.left) * scaleX, y: (clientY - rect.top) * scaleY };
-    };
-    
-    const startPainting = useCallback((event: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>) => {
-        if (event.nativeEvent instanceof MouseEvent && event.button !== 0) return;
-        setIsPainting(true);
-        lastPosition.current = getPaintCoordinates(event);
-    }, []);
-
-    const stopPainting = useCallback(() => { setIsPainting(false); lastPosition.current = null; }, []);
-
-    const paint = useCallback((event: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>) => {
-        if (!isPainting || !maskCanvasRef.current) return;
-        event.preventDefault();
-        const canvas = maskCanvasRef.current;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
-        const currentPos = getPaintCoordinates(event);
-        if (!currentPos || !lastPosition.current) return;
-        ctx.strokeStyle = '#FFFFFF'; ctx.lineWidth = brushSize; ctx.lineCap = 'round'; ctx.lineJoin = 'round';
-        ctx.beginPath(); ctx.moveTo(lastPosition.current.x, lastPosition.current.y); ctx.lineTo(currentPos.x, currentPos.y); ctx.stroke();
-        lastPosition.current = currentPos;
-    }, [isPainting, brushSize]);
-
     const panelProps = useMemo(() => ({
         onRequest: handleGenerationRequest,
         isLoading,
@@ -537,11 +911,18 @@ export const App: React.FC = () => {
         { id: 'style_extractor', title: 'Style', icon: StyleExtractorIcon, component: <StyleExtractorPanel isLoading={isLoading} hasImage={!!currentImageFile} currentImageFile={currentImageFile} onSendToFlux={handleSendToFlux} /> },
         { id: 'filters', title: 'Filters', icon: PaletteIcon, component: <FilterPanel {...panelProps} /> },
         { id: 'adjust', title: 'Adjust', icon: SunIcon, component: <AdjustmentPanel {...panelProps} /> },
-        { id: 'inpaint', title: 'Inpaint', icon: EraserIcon, component: <InpaintPanel onApplyInpaint={(instruction: string) => {const canvas = maskCanvasRef.current; if(canvas) { const maskBase64 = canvas.toDataURL('image/png'); handleGenerationRequest({ type: 'inpaint', prompt: instruction, maskBase64 }); }}} isLoading={isLoading} hasImage={!!currentImageFile} brushSize={brushSize} setBrushSize={setBrushSize} onClearMask={() => { const canvas = maskCanvasRef.current; const ctx = canvas?.getContext('2d'); if (canvas && ctx) ctx.clearRect(0, 0, canvas.width, canvas.height); }} /> },
+        { id: 'inpaint', title: 'Inpaint', icon: EraserIcon, component: <InpaintPanel onApplyInpaint={(regions, regionMode) => handleGenerationRequest(regions.length === 1 ? { type: 'inpaint', prompt: regions[0].prompt, maskBase64: regions[0].maskBase64 } : { type: 'inpaint', regions, regionMode })} isLoading={isLoading} hasImage={!!currentImageFile} mask={mask} smartSelect={smartSelect} /> },
+        { id: 'crop', title: 'Crop', icon: CropIcon, component: <CropPanel transform={cropTransform} onChange={setCropTransform} onApply={() => handleGenerationRequest({ type: 'crop', crop: cropTransform })} isLoading={isLoading} currentImageFile={currentImageFile} /> },
+        { id: 'expand', title: 'Expand', icon: ExpandIcon, component: <ExpandPanel onRequest={handleGenerationRequest} isLoading={isLoading} currentImageFile={currentImageFile} /> },
+        { id: 'upscale', title: 'Upscale', icon: UpscaleIcon, component: <UpscalePanel onRequest={handleGenerationRequest} isLoading={isLoading} currentImageFile={currentImageFile} /> },
+        { id: 'references', title: 'Reference', icon: ReferenceIcon, component: <ReferencePanel references={references} onChange={setReferences} onRequest={handleGenerationRequest} isLoading={isLoading} currentImageFile={currentImageFile} /> },
         { id: 'typography', title: 'Typography', icon: TypeIcon, component: <TypographicPanel {...panelProps} /> },
         { id: 'vector', title: 'Vector', icon: VectorIcon, component: <VectorArtPanel {...panelProps} /> },
         { id: 'video_animation', title: 'Animation', icon: BoltIcon, component: <VideoPanel {...panelProps} /> },
-    ], [panelProps, currentImageFile, fluxPrompt, setFluxPrompt, setPreviewImageUrl, isLoading, handleSendToFlux, handleGenerationRequest, brushSize, setBrushSize]);
+        { id: 'pro_video', title: 'Pro Video', icon: FilmIcon, component: <ProVideoPanel tree={historyTree} onRequest={handleGenerationRequest} isLoading={isLoading} /> },
+        { id: 'timeline', title: 'Timeline', icon: ScissorsIcon, component: <TimelinePanel tree={historyTree} onRequest={handleGenerationRequest} isLoading={isLoading} /> },
+        { id: 'history', title: 'History', icon: LayersIcon, component: <HistoryPanel tree={historyTree} onSelect={handleSelectNode} onCompare={handleCompareNode} onToggleStar={handleToggleStar} isLoading={isLoading} /> },
+    ], [panelProps, currentImageFile, fluxPrompt, setFluxPrompt, setPreviewImageUrl, isLoading, handleSendToFlux, handleGenerationRequest, mask, smartSelect, historyTree, handleSelectNode, handleCompareNode, handleToggleStar, cropTransform, references]);
 
     return (
         <>
@@ -550,16 +931,28 @@ export const App: React.FC = () => {
             
             <div className="relative z-10 w-full h-full">
                 {!appStarted ? (
-                    <StartScreen onStart={handleStart} />
+                    <StartScreen onStart={handleStart} onOpenProjects={() => setIsProjectBrowserOpen(true)} />
                 ) : (
                     <div className="flex flex-col h-screen max-h-screen bg-transparent text-white overflow-hidden">
-                        <Header isPlatinumTier={isPlatinumTier} onGoHome={handleGoHome} />
+                        <Header isPlatinumTier={isPlatinumTier} onGoHome={handleGoHome} projectName={projectName} onRenameProject={(name) => handleRenameProject(projectId, name)} onOpenProjects={() => setIsProjectBrowserOpen(true)} isMockProvider={getDefaultProviderId() === 'mock'} />
                         <main className="flex-1 flex flex-col overflow-hidden relative">
                             {isLoading && (
-                                <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center animate-fade-in"><Spinner /></div>
+                                <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-sm flex flex-col items-center justify-center animate-fade-in">
+                                    <Spinner />
+                                </div>
                             )}
-                            
+
                             <div className="flex-1 min-h-0 min-w-0 relative bg-transparent flex">
+                                {/* Bottom-right, clear of the viewer's top-corner controls. */}
+                                <JobTray
+                                    jobs={jobs}
+                                    concurrency={jobConcurrency}
+                                    onConcurrencyChange={setJobConcurrency}
+                                    onCancel={cancelJob}
+                                    onDismiss={dismissJob}
+                                    onApply={handleApplyTrayJob}
+                                    activeProjectId={projectId}
+                                />
                                 {previewImageUrl && !isLoading ? (
                                     <ZoomPanViewer src={previewImageUrl} mimeType="image/png">
                                         <div className="absolute top-2 left-1/2 -translate-x-1/2 bg-black/80 backdrop-blur-sm text-white text-xs font-bold px-4 py-2 rounded-md shadow-lg pointer-events-none opacity-65 animate-pulse">
@@ -569,27 +962,29 @@ export const App: React.FC = () => {
                                 ) : currentImageFile && currentMediaUrl ? (
                                     <>
                                         <div className="absolute top-2 left-2 z-20 p-2 flex items-center gap-2">
-                                            <button onClick={handleUndo} disabled={historyIndex <= 0 || isLoading} className="p-2 bg-[#161318]/60 border border-[#2D2831] rounded text-white disabled:opacity-30 hover:bg-[#222] transition-colors"><UndoIcon className="w-5 h-5"/></button>
-                                            <button onClick={handleRedo} disabled={historyIndex >= history.length - 1 || isLoading} className="p-2 bg-[#161318]/60 border border-[#2D2831] rounded text-white disabled:opacity-30 hover:bg-[#222] transition-colors"><RedoIcon className="w-5 h-5"/></button>
+                                            <button onClick={handleUndo} disabled={!undoTarget || isLoading} className="p-2 bg-[#161318]/60 border border-[#2D2831] rounded text-white disabled:opacity-30 hover:bg-[#222] transition-colors"><UndoIcon className="w-5 h-5"/></button>
+                                            <button onClick={handleRedo} disabled={!redoTarget || isLoading} className="p-2 bg-[#161318]/60 border border-[#2D2831] rounded text-white disabled:opacity-30 hover:bg-[#222] transition-colors"><RedoIcon className="w-5 h-5"/></button>
                                             {originalImageUrl && !isComparing && <button onClick={() => setIsComparing(true)} className="p-2 bg-[#161318]/60 border border-[#2D2831] rounded text-white hover:bg-[#222] transition-colors"><CompareIcon className="w-5 h-5"/></button>}
+                                            {!isComparing && <button onClick={() => setIsRecipeOpen(open => !open)} className={`p-2 border rounded text-white transition-colors ${isRecipeOpen ? 'bg-[#DB24E3]/30 border-[#DB24E3]' : 'bg-[#161318]/60 border-[#2D2831] hover:bg-[#222]'}`} title="Show Recipe"><InfoIcon className="w-5 h-5"/></button>}
                                             <button onClick={handleRemoveImage} disabled={isLoading} className="p-2 bg-[#161318]/60 border border-[#2D2831] rounded text-white disabled:opacity-30 hover:bg-red-800 hover:border-red-500 transition-colors" title="Remove Image & Clear Session"><XIcon className="w-5 h-5"/></button>
                                         </div>
+                                        {isRecipeOpen && !isComparing && currentNode && (
+                                            <RecipeDrawer key={currentNode.id} node={currentNode} onJumpToNode={handleSelectNode} onReplay={handleReplay} onClose={() => setIsRecipeOpen(false)} />
+                                        )}
                                         {isComparing && originalImageUrl ? (
                                             <>
-                                                <button onClick={() => setIsComparing(false)} className="absolute top-2 right-2 z-30 p-2 bg-red-800/80 border border-red-500 rounded-full text-white hover:bg-red-600 transition-colors"><XIcon className="w-5 h-5"/></button>
+                                                <button onClick={handleCloseCompare} className="absolute top-2 right-2 z-30 p-2 bg-red-800/80 border border-red-500 rounded-full text-white hover:bg-red-600 transition-colors"><XIcon className="w-5 h-5"/></button>
                                                 <CompareSlider originalImage={originalImageUrl} modifiedImage={currentMediaUrl} />
                                             </>
+                                        ) : activeTab === 'crop' ? (
+                                            <CropCanvas src={currentMediaUrl} transform={cropTransform} onCropChange={(crop) => setCropTransform(t => ({ ...t, crop }))} />
                                         ) : (
                                             <ZoomPanViewer src={currentMediaUrl} mimeType={mediaType}>
                                                 {activeTab === 'inpaint' ? (
                                                     <>
-                                                        {currentImageFile && 
-                                                            <canvas ref={maskCanvasRef} className="absolute top-0 left-0 opacity-50 pointer-events-auto mix-blend-screen"
-                                                                onMouseDown={startPainting} onMouseUp={stopPainting} onMouseLeave={stopPainting} onMouseMove={paint}
-                                                                onTouchStart={startPainting} onTouchEnd={stopPainting} onTouchMove={paint} />
-                                                        }
+                                                        {currentImageFile && <MaskCanvas editor={mask} disabled={isLoading} onPick={smartSelect.selectAt} />}
                                                         <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-black/80 backdrop-blur-sm text-white text-xs font-bold px-4 py-2 rounded-md shadow-lg pointer-events-none opacity-65">
-                                                            USE MOUSE OR FINGER TO PAINT MASK ON IMAGE
+                                                            MASK THE AREA TO CHANGE
                                                         </div>
                                                     </>
                                                 ) : viewerInstruction && (
@@ -641,13 +1036,33 @@ export const App: React.FC = () => {
                                 </div>
                             </div>
                             
-                            <SystemConfigWidget onSoftFix={handleSoftFix} onHardFix={handleHardFix} />
+                            <SystemConfigWidget onSoftFix={handleSoftFix} onHardFix={handleHardFix} onOpenStorage={() => setIsStorageManagerOpen(true)} />
                         </main>
             
+                        {storageWarning && (
+                            <div className="absolute top-16 left-1/2 -translate-x-1/2 z-[10001] bg-yellow-900/90 border border-yellow-500 text-yellow-100 text-xs font-mono px-4 py-2 rounded-md shadow-2xl max-w-lg w-11/12 flex items-center gap-3 backdrop-blur-sm animate-fade-in" role="alert">
+                                <span className="flex-1">{storageWarning}</span>
+                                <button onClick={() => { setIsStorageManagerOpen(true); setStorageWarning(null); }} className="px-2 py-1 border border-yellow-400 uppercase tracking-widest text-[10px] hover:bg-yellow-700 transition-colors">Manage</button>
+                                <button onClick={() => setStorageWarning(null)} className="text-yellow-300 hover:text-white" aria-label="Dismiss storage warning"><XIcon className="w-4 h-4" /></button>
+                            </div>
+                        )}
+
                         {error && (
                             <div className="absolute bottom-[80px] md:bottom-6 left-1/2 -translate-x-1/2 z-[10001] bg-red-900/90 border-2 border-red-500 text-white text-sm font-bold px-6 py-3 rounded-md shadow-2xl max-w-lg w-11/12 text-center backdrop-blur-sm animate-fade-in">
-                                <p className="font-mono text-xs uppercase text-red-300 mb-1">Application Error</p>
-                                {error}
+                                <p className="font-mono text-xs uppercase text-red-300 mb-1">{error instanceof GenerationError ? error.title : 'Application Error'}</p>
+                                {error.message}
+                                {error instanceof QuotaError && error.retryAfterMs && (
+                                    <p className="font-mono text-[10px] uppercase text-red-300 mt-1">Retry in ~{Math.ceil(error.retryAfterMs / 1000)}s</p>
+                                )}
+                                {error instanceof SafetyBlockError && error.blockReason && (
+                                    <p className="font-mono text-[10px] uppercase text-red-300 mt-1">Reason: {error.blockReason}</p>
+                                )}
+                                {error instanceof FileAccessError && (
+                                    <label className="inline-block mt-2 px-3 py-1 border border-red-300 text-[10px] uppercase tracking-widest cursor-pointer hover:bg-red-800 transition-colors">
+                                        Re-upload Image
+                                        <input type="file" className="hidden" onChange={(e) => e.target.files && handleImageUpload(e.target.files[0])} accept="image/*" />
+                                    </label>
+                                )}
                             </div>
                         )}
                         
@@ -655,6 +1070,25 @@ export const App: React.FC = () => {
                     </div>
                 )}
             </div>
+
+            <StorageManager
+                isOpen={isStorageManagerOpen}
+                activeProjectId={projectId}
+                prunableCount={prunableCount}
+                starredCount={historyTree.starredIds.length}
+                onPrune={handlePruneHistory}
+                onClose={() => setIsStorageManagerOpen(false)}
+            />
+
+            <ProjectBrowser
+                isOpen={isProjectBrowserOpen}
+                activeProjectId={projectId}
+                onClose={() => setIsProjectBrowserOpen(false)}
+                onOpen={handleOpenProject}
+                onRename={handleRenameProject}
+                onDuplicate={async (id) => { await duplicateProject(id); }}
+                onDelete={handleDeleteProject}
+            />
         </>
     );
 }
\ No newline at end of file
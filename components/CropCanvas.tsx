@@ -0,0 +1,187 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useRef, useEffect, useLayoutEffect } from 'react';
+import { CropTransform, CropRect, aspectToNumber, drawTransformed, getFrameSize } from '../utils/imageTransform';
+import { getFitScale } from '../utils/viewport';
+
+interface CropCanvasProps {
+  src: string;
+  transform: CropTransform;
+  onCropChange: (crop: CropRect) => void;
+}
+
+type Handle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+const MIN_SIZE = 24; // px on screen
+const PADDING = 24;
+
+interface DragState {
+  handle: Handle;
+  pointerId: number;
+  startX: number;
+  startY: number;
+  startRect: CropRect;
+}
+
+/**
+ * Live preview for the crop tool: shows the rotated, flipped and straightened
+ * image fitted to the viewer, with a draggable crop box on top.
+ */
+export const CropCanvas: React.FC<CropCanvasProps> = ({ src, transform, onCropChange }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [bounds, setBounds] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => setImage(img);
+    img.src = src;
+    return () => { img.onload = null; };
+  }, [src]);
+
+  useLayoutEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setBounds({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // Displayed frame size, fitted inside the viewer.
+  const frame = image ? getFrameSize(image.naturalWidth, image.naturalHeight, transform.rotation) : null;
+  const fit = frame ? getFitScale({ width: bounds.width - PADDING * 2, height: bounds.height - PADDING * 2 }, frame) : 0;
+  const displayWidth = frame ? Math.max(0, Math.floor(frame.width * fit)) : 0;
+  const displayHeight = frame ? Math.max(0, Math.floor(frame.height * fit)) : 0;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !image || displayWidth === 0 || displayHeight === 0) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(displayWidth * ratio);
+    canvas.height = Math.round(displayHeight * ratio);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    drawTransformed(ctx, image, transform, canvas.width, canvas.height);
+  }, [image, displayWidth, displayHeight, transform.rotation, transform.flipH, transform.flipV, transform.straighten]);
+
+  const handlePointerDown = (handle: Handle) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    dragRef.current = { handle, pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, startRect: transform.crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId || displayWidth === 0) return;
+    const dx = (e.clientX - drag.startX) / displayWidth;
+    const dy = (e.clientY - drag.startY) / displayHeight;
+    const r = drag.startRect;
+
+    if (drag.handle === 'move') {
+      onCropChange({
+        ...r,
+        x: Math.min(1 - r.width, Math.max(0, r.x + dx)),
+        y: Math.min(1 - r.height, Math.max(0, r.y + dy)),
+      });
+      return;
+    }
+
+    // Resize around the corner opposite the one being dragged.
+    const west = drag.handle === 'nw' || drag.handle === 'sw';
+    const north = drag.handle === 'nw' || drag.handle === 'ne';
+    const anchorX = west ? r.x + r.width : r.x;
+    const anchorY = north ? r.y + r.height : r.y;
+    const minW = MIN_SIZE / displayWidth;
+    const minH = MIN_SIZE / displayHeight;
+    const maxW = west ? anchorX : 1 - anchorX;
+    const maxH = north ? anchorY : 1 - anchorY;
+
+    let width = Math.min(maxW, Math.max(minW, west ? anchorX - (r.x + dx) : r.x + r.width + dx - anchorX));
+    let height = Math.min(maxH, Math.max(minH, north ? anchorY - (r.y + dy) : r.y + r.height + dy - anchorY));
+
+    const aspect = aspectToNumber(transform.aspect);
+    if (aspect) {
+      // Convert the pixel aspect into normalized frame units, then let the
+      // dominant axis lead and shrink both if the other would overflow.
+      const unitAspect = aspect * displayHeight / displayWidth;
+      if (width / height > unitAspect) height = width / unitAspect;
+      else width = height * unitAspect;
+      const shrink = Math.min(1, maxW / width, maxH / height);
+      width *= shrink;
+      height *= shrink;
+    }
+
+    onCropChange({
+      x: west ? anchorX - width : anchorX,
+      y: north ? anchorY - height : anchorY,
+      width,
+      height,
+    });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (dragRef.current?.pointerId === e.pointerId) dragRef.current = null;
+  };
+
+  const { crop } = transform;
+  const box = {
+    left: crop.x * displayWidth,
+    top: crop.y * displayHeight,
+    width: crop.width * displayWidth,
+    height: crop.height * displayHeight,
+  };
+  const corners: Handle[] = ['nw', 'ne', 'sw', 'se'];
+
+  return (
+    <div ref={containerRef} className="relative w-full h-full flex items-center justify-center bg-[#050505] overflow-hidden select-none" style={{ touchAction: 'none' }}>
+      {frame && (
+        <div
+          className="relative"
+          style={{ width: displayWidth, height: displayHeight }}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+          {/* Dim everything outside the crop box. */}
+          <div
+            className="absolute border-2 border-white cursor-move"
+            style={{ ...box, boxShadow: '0 0 0 9999px rgba(0,0,0,0.6)' }}
+            onPointerDown={handlePointerDown('move')}
+          >
+            <div className="absolute inset-0 pointer-events-none grid grid-cols-3 grid-rows-3">
+              {Array.from({ length: 9 }).map((_, i) => (
+                <div key={i} className={`border-white/30 ${i % 3 !== 2 ? 'border-r' : ''} ${i < 6 ? 'border-b' : ''}`} />
+              ))}
+            </div>
+            {corners.map(handle => (
+              <div
+                key={handle}
+                onPointerDown={handlePointerDown(handle)}
+                className={`absolute w-5 h-5 bg-[#DB24E3] border-2 border-white ${handle === 'nw' || handle === 'se' ? 'cursor-nwse-resize' : 'cursor-nesw-resize'}`}
+                style={{
+                  left: handle.endsWith('w') ? -10 : undefined,
+                  right: handle.endsWith('e') ? -10 : undefined,
+                  top: handle.startsWith('n') ? -10 : undefined,
+                  bottom: handle.startsWith('s') ? -10 : undefined,
+                }}
+              />
+            ))}
+          </div>
+          <div className="absolute -bottom-6 left-1/2 -translate-x-1/2 text-[10px] font-mono text-gray-400 whitespace-nowrap pointer-events-none">
+            {Math.round(crop.width * frame.width)} × {Math.round(crop.height * frame.height)} px
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
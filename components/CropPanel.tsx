@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { PanelScanner } from './Spinner';
+import { useImageSize } from '../hooks/useImageSize';
+import { UndoIcon, RedoIcon } from './icons';
+import {
+  CropTransform, CropAspect, CROP_ASPECTS, MAX_STRAIGHTEN,
+  createCropTransform, isIdentityTransform, fitCropToAspect, getFrameSize, rotateQuarter, flip,
+} from '../utils/imageTransform';
+
+interface CropPanelProps {
+  transform: CropTransform;
+  onChange: (transform: CropTransform) => void;
+  onApply: () => void;
+  isLoading: boolean;
+  currentImageFile: File | null;
+}
+
+export const CropPanel: React.FC<CropPanelProps> = ({ transform, onChange, onApply, isLoading, currentImageFile }) => {
+  // Natural size of the image being cropped, needed to fit fixed aspect ratios.
+  const size = useImageSize(currentImageFile);
+  const hasImage = !!currentImageFile && !!size;
+
+  const handleAspect = (aspect: CropAspect) => {
+    if (!size) return;
+    const frame = getFrameSize(size.width, size.height, transform.rotation);
+    onChange({ ...transform, aspect, crop: aspect === 'free' ? transform.crop : fitCropToAspect(aspect, frame.width, frame.height) });
+  };
+
+  const buttonClass = "flex-1 py-2 text-[10px] font-bold uppercase tracking-widest border border-[#222] text-gray-400 hover:text-white hover:border-gray-500 transition-colors disabled:opacity-30 disabled:cursor-not-allowed flex items-center justify-center gap-1";
+
+  return (
+    <div className="flex flex-col h-full relative bg-[#050505]">
+      {isLoading && <PanelScanner />}
+      <div className="absolute top-0 left-0 w-full h-[1px] bg-gradient-to-r from-[#DB24E3] to-[#54A970] z-20 opacity-50"></div>
+
+      <div className="sticky top-0 z-30 p-4 sm:p-6 border-b border-[#1A1A1A] bg-[#050505]/95 backdrop-blur-md shadow-xl">
+        <div className="flex justify-between items-center pb-2 border-b-2 border-[#DB24E3]/30">
+          <h3 className="text-xl font-black italic tracking-tighter text-white uppercase" style={{fontFamily: 'Koulen'}}>
+            Crop &amp; Rotate
+          </h3>
+          <div className="flex gap-2">
+            <button
+              onClick={() => onChange(createCropTransform())}
+              disabled={isLoading || isIdentityTransform(transform)}
+              className="px-3 py-2 text-[10px] font-bold uppercase tracking-widest border border-[#222] text-gray-400 hover:text-white transition-colors disabled:opacity-30"
+            >
+              Reset
+            </button>
+            <button
+              onClick={onApply}
+              disabled={isLoading || !hasImage || isIdentityTransform(transform)}
+              className="px-4 py-2 text-[10px] font-bold uppercase tracking-widest border border-[#54A970] text-[#54A970] hover:bg-[#54A970] hover:text-black transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+        <p className="mt-2 text-gray-500 text-[10px] font-bold uppercase tracking-widest">
+          Drag the box or its corners on the image. Runs locally; no AI involved.
+        </p>
+      </div>
+
+      <div className="p-4 sm:p-6 overflow-y-auto custom-scrollbar flex flex-col gap-5">
+        <div>
+          <h4 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-2">Aspect Ratio</h4>
+          <div className="flex gap-2 flex-wrap">
+            {CROP_ASPECTS.map(aspect => (
+              <button
+                key={aspect}
+                onClick={() => handleAspect(aspect)}
+                disabled={isLoading || !hasImage}
+                className={`px-3 py-2 text-xs font-mono border transition-colors disabled:opacity-30 ${transform.aspect === aspect ? 'border-[#DB24E3] text-white bg-[#DB24E3]/20' : 'border-[#222] text-gray-400 hover:text-white'}`}
+              >
+                {aspect === 'free' ? 'Free' : aspect}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-2">Rotate &amp; Flip</h4>
+          <div className="flex gap-2">
+            <button onClick={() => onChange(rotateQuarter(transform, false))} disabled={isLoading || !hasImage} className={buttonClass} title="Rotate 90° counter-clockwise">
+              <UndoIcon className="w-4 h-4" /> 90°
+            </button>
+            <button onClick={() => onChange(rotateQuarter(transform, true))} disabled={isLoading || !hasImage} className={buttonClass} title="Rotate 90° clockwise">
+              <RedoIcon className="w-4 h-4" /> 90°
+            </button>
+            <button onClick={() => onChange(flip(transform, 'horizontal'))} disabled={isLoading || !hasImage} className={`${buttonClass} ${transform.flipH ? 'text-white border-[#54A970]' : ''}`}>
+              Flip H
+            </button>
+            <button onClick={() => onChange(flip(transform, 'vertical'))} disabled={isLoading || !hasImage} className={`${buttonClass} ${transform.flipV ? 'text-white border-[#54A970]' : ''}`}>
+              Flip V
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <h4 className="text-[10px] font-bold uppercase tracking-widest text-gray-500">Straighten</h4>
+            <button
+              onClick={() => onChange({ ...transform, straighten: 0 })}
+              disabled={isLoading || transform.straighten === 0}
+              className="text-xs font-mono text-gray-400 hover:text-white disabled:hover:text-gray-400"
+              title="Reset straighten"
+            >
+              {transform.straighten.toFixed(1)}°
+            </button>
+          </div>
+          <input
+            type="range"
+            min={-MAX_STRAIGHTEN}
+            max={MAX_STRAIGHTEN}
+            step={0.1}
+            value={transform.straighten}
+            onChange={(e) => onChange({ ...transform, straighten: Number(e.target.value) })}
+            disabled={isLoading || !hasImage}
+            className="w-full accent-[#DB24E3]"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
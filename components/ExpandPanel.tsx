@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { PanelScanner } from './Spinner';
+import { GenerationRequest } from '../App';
+import { useImageSize } from '../hooks/useImageSize';
+import {
+  ExpandSpec, ExpandDirection, EXPAND_DIRECTIONS, EXPAND_ASPECTS, MAX_EXPAND_AMOUNT,
+  createExpandSpec, computePadding, isEmptyPadding,
+} from '../utils/outpaint';
+
+interface ExpandPanelProps {
+  onRequest: (request: GenerationRequest) => void;
+  isLoading: boolean;
+  currentImageFile: File | null;
+}
+
+const DIRECTION_LABELS: Record<ExpandDirection, string> = { up: '↑ Up', down: '↓ Down', left: '← Left', right: 'Right →' };
+
+export const ExpandPanel: React.FC<ExpandPanelProps> = ({ onRequest, isLoading, currentImageFile }) => {
+  const [spec, setSpec] = useState<ExpandSpec>(createExpandSpec);
+  const [prompt, setPrompt] = useState('');
+  const size = useImageSize(currentImageFile);
+
+  const padding = size ? computePadding(size.width, size.height, spec) : null;
+  const canApply = !isLoading && !!currentImageFile && !!padding && !isEmptyPadding(padding);
+  const result = size && padding ? { width: size.width + padding.left + padding.right, height: size.height + padding.top + padding.bottom } : null;
+
+  const toggleDirection = (direction: ExpandDirection) => {
+    setSpec(s => ({
+      ...s,
+      directions: s.directions.includes(direction) ? s.directions.filter(d => d !== direction) : [...s.directions, direction],
+    }));
+  };
+
+  const handleApply = () => {
+    if (!canApply) return;
+    onRequest({ type: 'expand', expand: spec, prompt: prompt.trim() || undefined });
+  };
+
+  const toggleClass = (active: boolean) =>
+    `flex-1 py-2 text-[10px] font-bold uppercase tracking-widest border transition-colors disabled:opacity-30 ${active ? 'border-[#DB24E3] text-white bg-[#DB24E3]/20' : 'border-[#222] text-gray-400 hover:text-white'}`;
+
+  return (
+    <div className="flex flex-col h-full relative bg-[#050505]">
+      {isLoading && <PanelScanner />}
+      <div className="absolute top-0 left-0 w-full h-[1px] bg-gradient-to-r from-[#DB24E3] to-[#54A970] z-20 opacity-50"></div>
+
+      <div className="sticky top-0 z-30 p-4 sm:p-6 border-b border-[#1A1A1A] bg-[#050505]/95 backdrop-blur-md shadow-xl">
+        <div className="flex justify-between items-center pb-2 border-b-2 border-[#DB24E3]/30">
+          <h3 className="text-xl font-black italic tracking-tighter text-white uppercase" style={{fontFamily: 'Koulen'}}>
+            Expand Canvas
+          </h3>
+          <button
+            onClick={handleApply}
+            disabled={!canApply}
+            className="px-4 py-2 text-[10px] font-bold uppercase tracking-widest border border-[#54A970] text-[#54A970] hover:bg-[#54A970] hover:text-black transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            Expand
+          </button>
+        </div>
+        <p className="mt-2 text-gray-500 text-[10px] font-bold uppercase tracking-widest">
+          Grows the canvas and paints the new border to match the image.
+        </p>
+      </div>
+
+      <div className="p-4 sm:p-6 overflow-y-auto custom-scrollbar flex flex-col gap-5">
+        <div>
+          <h4 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-2">Directions</h4>
+          <div className="grid grid-cols-2 gap-2">
+            {EXPAND_DIRECTIONS.map(direction => (
+              <button key={direction} onClick={() => toggleDirection(direction)} disabled={isLoading} className={toggleClass(spec.directions.includes(direction))}>
+                {DIRECTION_LABELS[direction]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <div className="flex gap-2 mb-3">
+            <button onClick={() => setSpec(s => ({ ...s, mode: 'amount' }))} disabled={isLoading} className={toggleClass(spec.mode === 'amount')}>By Amount</button>
+            <button onClick={() => setSpec(s => ({ ...s, mode: 'aspect' }))} disabled={isLoading} className={toggleClass(spec.mode === 'aspect')}>To Aspect</button>
+          </div>
+          {spec.mode === 'amount' ? (
+            <>
+              <div className="flex justify-between text-[10px] font-bold uppercase tracking-widest text-gray-400 mb-2">
+                <span>Per Side</span>
+                <span className="text-[#DB24E3]">{Math.round(spec.amount * 100)}%</span>
+              </div>
+              <input
+                type="range"
+                min={0.05}
+                max={MAX_EXPAND_AMOUNT}
+                step={0.05}
+                value={spec.amount}
+                onChange={(e) => setSpec(s => ({ ...s, amount: Number(e.target.value) }))}
+                disabled={isLoading}
+                className="w-full accent-[#DB24E3]"
+              />
+            </>
+          ) : (
+            <div className="flex gap-2 flex-wrap">
+              {EXPAND_ASPECTS.map(aspect => (
+                <button
+                  key={aspect}
+                  onClick={() => setSpec(s => ({ ...s, aspect }))}
+                  disabled={isLoading}
+                  className={`px-3 py-2 text-xs font-mono border transition-colors disabled:opacity-30 ${spec.aspect === aspect ? 'border-[#DB24E3] text-white bg-[#DB24E3]/20' : 'border-[#222] text-gray-400 hover:text-white'}`}
+                >
+                  {aspect}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {size && padding && result && (
+          <div>
+            <h4 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-2">Result</h4>
+            {/* Schematic of the new canvas with the original in place. */}
+            <div className="flex justify-center bg-black border border-[#222] p-3">
+              <div
+                className="relative bg-[#DB24E3]/20 border border-dashed border-[#DB24E3]/60 max-h-32 max-w-full"
+                style={{ aspectRatio: `${result.width} / ${result.height}`, height: '8rem' }}
+              >
+                <div
+                  className="absolute bg-[#222] border border-gray-500"
+                  style={{
+                    left: `${padding.left / result.width * 100}%`,
+                    top: `${padding.top / result.height * 100}%`,
+                    width: `${size.width / result.width * 100}%`,
+                    height: `${size.height / result.height * 100}%`,
+                  }}
+                />
+              </div>
+            </div>
+            <p className="mt-2 text-center text-xs font-mono text-gray-400">
+              {size.width} × {size.height} → {result.width} × {result.height} px
+            </p>
+          </div>
+        )}
+
+        <div>
+          <h4 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-2">Describe the New Area (Optional)</h4>
+          <input
+            type="text"
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            maxLength={500}
+            placeholder="E.g., 'more beach and a distant pier'..."
+            className="w-full bg-[#000000] border border-[#222] focus:border-[#DB24E3] text-white p-4 focus:ring-0 focus:outline-none transition disabled:opacity-60 text-sm placeholder-gray-700 font-mono"
+            disabled={isLoading || !currentImageFile}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
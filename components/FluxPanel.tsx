@@ -8,6 +8,7 @@ import { SparklesIcon, MagicWandIcon, BoltIcon } from './icons';
 import { refineImagePrompt, describeImageForPrompt, generateRealtimePreview } from '../services/geminiService';
 import { GenerationRequest } from '../App';
 import { PanelScanner } from './Spinner';
+import { GenerationError } from '../services/errors';
 
 interface FluxPanelProps {
   onRequest: (request: GenerationRequest) => void;
@@ -66,13 +67,15 @@ export const FluxPanel: React.FC<FluxPanelProps> = ({
 
   useEffect(() => {
     // Debounced effect for live preview
+    // Aborted on every keystroke so stale previews never overwrite newer ones.
+    const controller = new AbortController();
     if (livePreview && fluxPrompt.trim() && !isLoading) {
       setIsPreviewLoading(true);
       if (debounceTimeout.current) clearTimeout(debounceTimeout.current);
       debounceTimeout.current = window.setTimeout(async () => {
         try {
-          const url = await generateRealtimePreview(fluxPrompt);
-          if (url) {
+          const url = await generateRealtimePreview(fluxPrompt, { signal: controller.signal });
+          if (url && !controller.signal.aborted) {
             setPreviewImageUrl(url);
           }
         } catch (error) {
@@ -87,17 +90,12 @@ export const FluxPanel: React.FC<FluxPanelProps> = ({
     }
 
     return () => {
+      controller.abort();
       if (debounceTimeout.current) clearTimeout(debounceTimeout.current);
     };
   }, [fluxPrompt, livePreview, isLoading, setPreviewImageUrl, isTouchDevice]);
 
   const handleAction = (forceNew: boolean) => {
-    if (forceNew && hasImage) {
-      if (!window.confirm("This will start a new session and clear your current image and history. Are you sure you want to generate a new image?")) {
-        return;
-      }
-    }
-
     if (!fluxPrompt.trim()) return;
     
     onRequest({ 
@@ -119,7 +117,7 @@ export const FluxPanel: React.FC<FluxPanelProps> = ({
       setFluxPrompt(refinedPrompt);
     } catch (error) { 
       console.error("Refinement failed", error);
-      alert('Failed to refine prompt. Please try again.');
+      alert(error instanceof GenerationError ? `${error.title}: ${error.message}` : 'Failed to refine prompt. Please try again.');
     } finally { 
       setIsRefining(false); 
     }
@@ -133,7 +131,7 @@ export const FluxPanel: React.FC<FluxPanelProps> = ({
       setFluxPrompt(prev => prev ? `${prev}, ${analysis}` : analysis);
     } catch (error) { 
       console.error("Analysis failed", error);
-      alert('Failed to analyze image. Please try again.');
+      alert(error instanceof GenerationError ? `${error.title}: ${error.message}` : 'Failed to analyze image. Please try again.');
     } finally { 
       setIsAnalyzing(false); 
     }
@@ -2,15 +2,30 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
-import { BoltIcon } from './icons';
+import React, { useState, useEffect } from 'react';
+import { BoltIcon, LayersIcon } from './icons';
 
 interface HeaderProps {
     isPlatinumTier: boolean;
     onGoHome: () => void;
+    projectName: string;
+    onRenameProject: (name: string) => void;
+    onOpenProjects: () => void;
+    // Generations come from the offline mock provider, not a real model.
+    isMockProvider?: boolean;
 }
 
-export const Header: React.FC<HeaderProps> = ({ isPlatinumTier, onGoHome }) => {
+export const Header: React.FC<HeaderProps> = ({ isPlatinumTier, onGoHome, projectName, onRenameProject, onOpenProjects, isMockProvider }) => {
+  const [draftName, setDraftName] = useState(projectName);
+
+  useEffect(() => setDraftName(projectName), [projectName]);
+
+  const commitName = () => {
+    const name = draftName.trim();
+    if (name && name !== projectName) onRenameProject(name);
+    else setDraftName(projectName);
+  };
+
   return (
     <header className="w-full py-3 px-4 md:px-6 border-b border-gray-800/50 bg-black/50 backdrop-blur-md sticky top-0 z-50 flex items-center justify-between">
        <div className="absolute top-0 left-0 w-full h-[2px] bg-gradient-to-r from-transparent via-red-500 to-transparent opacity-50" />
@@ -44,6 +59,33 @@ export const Header: React.FC<HeaderProps> = ({ isPlatinumTier, onGoHome }) => {
           </h1>
         </div>
       </div>
+      <div className="flex items-center gap-2 min-w-0">
+        {isMockProvider && (
+          <span
+            className="shrink-0 px-2 py-1 text-[10px] font-bold uppercase tracking-widest border border-yellow-500/60 text-yellow-300 bg-yellow-500/10"
+            title="IMAGE_PROVIDER=mock: results are synthetic placeholders"
+          >
+            Offline Mock
+          </span>
+        )}
+        <input
+          value={draftName}
+          onChange={(e) => setDraftName(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+          maxLength={80}
+          aria-label="Project name"
+          className="min-w-0 w-32 sm:w-48 bg-transparent border border-transparent hover:border-gray-800 focus:border-red-500/50 text-gray-300 focus:text-white text-xs font-mono px-2 py-1 focus:outline-none truncate"
+        />
+        <button
+          onClick={onOpenProjects}
+          className="flex items-center gap-1 px-2 py-1 text-[10px] font-bold uppercase tracking-widest border border-gray-800 text-gray-400 hover:text-white hover:border-red-500/50 transition-colors"
+          title="Project library"
+        >
+          <LayersIcon className="w-4 h-4" />
+          <span className="hidden sm:inline">Projects</span>
+        </button>
+      </div>
     </header>
   );
 };
\ No newline at end of file
@@ -0,0 +1,146 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo } from 'react';
+import { HistoryTree, HistoryNode, layoutTree, getPath, getSiblings, getCurrentNode, isStarred } from '../utils/historyTree';
+import { CollapsibleSection } from './CollapsibleSection';
+import { CompareIcon, StarIcon } from './icons';
+import { Thumbnail, useThumbnails, isVideoNode } from './HistoryThumbnail';
+
+interface HistoryPanelProps {
+  tree: HistoryTree;
+  onSelect: (id: string) => void;
+  onCompare: (id: string) => void;
+  onToggleStar: (id: string) => void;
+  isLoading: boolean;
+}
+
+const CELL = 72;
+const THUMB = 56;
+
+const describeNode = (node: HistoryNode) => {
+  const time = new Date(node.createdAt).toLocaleTimeString();
+  if (!node.recipe) return `Upload • ${time}`;
+  const { request } = node.recipe;
+  const prompt = request.prompt ? ` • ${request.prompt.substring(0, 80)}` : '';
+  return `${request.type}${prompt} • ${time}`;
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ tree, onSelect, onCompare, onToggleStar, isLoading }) => {
+  const thumbnails = useThumbnails(tree);
+  const layout = useMemo(() => layoutTree(tree), [tree]);
+  const current = getCurrentNode(tree);
+  const siblings = current ? getSiblings(tree, current.id) : [];
+  const activePath = useMemo(() => new Set(getPath(tree, tree.currentId).map(n => n.id)), [tree]);
+
+  const positions = useMemo(() => {
+    const map: Record<string, { x: number; y: number }> = {};
+    layout.items.forEach(({ node, depth, row }) => {
+      map[node.id] = { x: depth * CELL + (CELL - THUMB) / 2, y: row * CELL + (CELL - THUMB) / 2 };
+    });
+    return map;
+  }, [layout]);
+
+  return (
+    <div className="flex flex-col relative bg-[#050505] min-h-[400px]">
+      <div className="absolute top-0 left-0 w-full h-[1px] bg-gradient-to-r from-[#DB24E3] to-[#54A970] z-20 opacity-50"></div>
+
+      <div className="sticky top-0 z-30 p-4 sm:p-6 border-b border-[#1A1A1A] bg-[#050505]/95 backdrop-blur-md shadow-xl">
+        <div className="flex justify-between items-center pb-2 border-b-2 border-[#DB24E3]/30">
+          <h3 className="text-xl font-black italic tracking-tighter text-white uppercase" style={{fontFamily: 'Koulen'}}>
+            History Graph
+          </h3>
+          <div className="flex items-center gap-3">
+            {current && (
+              <button
+                onClick={() => onToggleStar(current.id)}
+                className={`flex items-center gap-1 text-[10px] font-bold uppercase tracking-widest transition-colors ${isStarred(tree, current.id) ? 'text-yellow-400' : 'text-gray-500 hover:text-white'}`}
+                title="Starred results survive history pruning"
+              >
+                <StarIcon className="w-4 h-4" filled={isStarred(tree, current.id)} />
+                {isStarred(tree, current.id) ? 'Starred' : 'Star'}
+              </button>
+            )}
+            <span className="text-[10px] font-mono uppercase text-gray-500">{layout.items.length} nodes</span>
+          </div>
+        </div>
+        <p className="mt-2 text-gray-500 text-[10px] font-bold uppercase tracking-widest">
+          Every edit branches from the image it was made on. Tap a node to jump to it.
+        </p>
+      </div>
+
+      <div className="p-4 overflow-y-auto custom-scrollbar max-h-[30vh]">
+        {layout.items.length === 0 ? (
+          <p className="text-xs text-gray-600 font-mono">No history yet.</p>
+        ) : (
+          <CollapsibleSection title="Branches">
+            <div className="overflow-auto custom-scrollbar">
+              <div className="relative" style={{ width: layout.depth * CELL, height: layout.rows * CELL }}>
+                <svg className="absolute inset-0 pointer-events-none" width={layout.depth * CELL} height={layout.rows * CELL}>
+                  {layout.items.map(({ node }) => {
+                    const parent = node.parentId ? positions[node.parentId] : null;
+                    const child = positions[node.id];
+                    if (!parent || !child) return null;
+                    const x1 = parent.x + THUMB, y1 = parent.y + THUMB / 2;
+                    const x2 = child.x, y2 = child.y + THUMB / 2;
+                    const mid = (x1 + x2) / 2;
+                    const onPath = activePath.has(node.id);
+                    return (
+                      <path
+                        key={node.id}
+                        d={`M${x1},${y1} C${mid},${y1} ${mid},${y2} ${x2},${y2}`}
+                        fill="none"
+                        stroke={onPath ? '#DB24E3' : '#333'}
+                        strokeWidth={onPath ? 2 : 1}
+                      />
+                    );
+                  })}
+                </svg>
+                {layout.items.map(({ node }) => {
+                  const pos = positions[node.id];
+                  const isCurrent = node.id === tree.currentId;
+                  return (
+                    <button
+                      key={node.id}
+                      onClick={() => onSelect(node.id)}
+                      disabled={isLoading}
+                      title={describeNode(node)}
+                      className={`absolute overflow-hidden rounded-sm border-2 transition-all disabled:cursor-not-allowed ${isCurrent ? 'border-[#DB24E3] shadow-[0_0_12px_rgba(219,36,227,0.6)]' : activePath.has(node.id) ? 'border-[#54A970]/70' : 'border-[#222] hover:border-gray-500'}`}
+                      style={{ left: pos.x, top: pos.y, width: THUMB, height: THUMB }}
+                    >
+                      <Thumbnail node={node} url={thumbnails[node.id]} />
+                      {isStarred(tree, node.id) && <StarIcon className="absolute top-0.5 right-0.5 w-3 h-3 text-yellow-400 drop-shadow" filled />}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          </CollapsibleSection>
+        )}
+
+        {current && siblings.length > 0 && (
+          <CollapsibleSection title={`Variants (${siblings.length})`}>
+            <div className="flex gap-3 overflow-x-auto custom-scrollbar pb-1">
+              {siblings.map(sibling => (
+                <div key={sibling.id} className="flex-shrink-0 w-20 flex flex-col gap-1">
+                  <button onClick={() => onSelect(sibling.id)} disabled={isLoading} title={describeNode(sibling)} className="w-20 h-20 overflow-hidden rounded-sm border-2 border-[#222] hover:border-gray-500 disabled:cursor-not-allowed">
+                    <Thumbnail node={sibling} url={thumbnails[sibling.id]} />
+                  </button>
+                  <button
+                    onClick={() => onCompare(sibling.id)}
+                    disabled={isLoading || isVideoNode(sibling) || isVideoNode(current)}
+                    className="flex items-center justify-center gap-1 py-1 text-[10px] font-bold uppercase tracking-widest border border-[#222] text-gray-400 hover:text-white hover:border-[#54A970] transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                  >
+                    <CompareIcon className="w-3 h-3" /> Compare
+                  </button>
+                </div>
+              ))}
+            </div>
+          </CollapsibleSection>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useEffect } from 'react';
+import { HistoryTree, HistoryNode } from '../utils/historyTree';
+import { PlayIcon } from './icons';
+
+export const isVideoNode = (node: HistoryNode) => typeof node.media === 'string' || node.media.type.startsWith('video/');
+
+// Object URLs for every image node, revoked when the tree changes.
+export const useThumbnails = (tree: HistoryTree) => {
+  const urls = useMemo(() => {
+    const map: Record<string, string> = {};
+    Object.values(tree.nodes).forEach(node => {
+      if (node.media instanceof File && !isVideoNode(node)) map[node.id] = URL.createObjectURL(node.media);
+    });
+    return map;
+  }, [tree.nodes]);
+
+  useEffect(() => () => Object.values(urls).forEach(url => URL.revokeObjectURL(url)), [urls]);
+  return urls;
+};
+
+export const Thumbnail: React.FC<{ node: HistoryNode; url?: string }> = ({ node, url }) => (
+  url
+    ? <img src={url} alt="" className="w-full h-full object-cover" draggable={false} />
+    : <div className="w-full h-full flex items-center justify-center bg-[#111]"><PlayIcon className="w-5 h-5 text-gray-500" /></div>
+);
@@ -4,106 +4,161 @@
  */
 
 import React, { useState } from 'react';
+import { MaskEditor, MAX_MASK_LAYERS } from '../hooks/useMaskEditor';
+import type { SmartSelect } from '../hooks/useSmartSelect';
+import type { InpaintRegion } from '../services/geminiService';
+import { MaskToolbar } from './MaskToolbar';
+import { XIcon } from './icons';
+
+// How several regions are applied: in one request, or one request per region
+// with either a history entry for each step or only the merged result.
+export type RegionMode = 'composite' | 'steps' | 'merged';
+
+const REGION_MODES: { id: RegionMode; label: string; hint: string }[] = [
+  { id: 'composite', label: 'Composite', hint: 'One request for all regions. Fastest, one history entry.' },
+  { id: 'steps', label: 'Step by Step', hint: 'Each region edits the previous result. One history entry per region.' },
+  { id: 'merged', label: 'Merged', hint: 'Each region edits the previous result. Only the final image is kept.' },
+];
 
 interface InpaintPanelProps {
-  onApplyInpaint: (instruction: string) => void;
-  onClearMask: () => void;
+  onApplyInpaint: (regions: InpaintRegion[], mode: RegionMode) => void;
   isLoading: boolean;
-  brushSize: number;
-  setBrushSize: (size: number) => void;
+  mask: MaskEditor;
+  smartSelect?: SmartSelect;
   hasImage: boolean;
 }
 
-export const InpaintPanel: React.FC<InpaintPanelProps> = ({ 
-    onApplyInpaint, 
-    onClearMask, 
-    isLoading, 
-    brushSize, 
-    setBrushSize,
+export const InpaintPanel: React.FC<InpaintPanelProps> = ({
+    onApplyInpaint,
+    isLoading,
+    mask,
+    smartSelect,
     hasImage
 }) => {
-  const [instruction, setInstruction] = useState('');
-  
+  const [regionMode, setRegionMode] = useState<RegionMode>('composite');
+  const active = mask.layers.find(layer => layer.id === mask.activeLayerId);
+  const painted = mask.layers.filter(layer => !layer.isEmpty);
+  const missingInstruction = painted.filter(layer => !layer.instruction.trim());
+  const isMultiRegion = mask.layers.length > 1;
+
   const handleApply = () => {
-    if (instruction.trim()) {
-        onApplyInpaint(instruction.trim());
-    }
+    const regions = painted.flatMap(layer => {
+      const maskBase64 = mask.exportMask(layer.id);
+      return maskBase64 ? [{ name: layer.name.trim() || 'Region', prompt: layer.instruction.trim(), maskBase64 }] : [];
+    });
+    if (regions.length > 0) onApplyInpaint(regions, regionMode);
   };
 
-  const isActionDisabled = isLoading || !instruction.trim() || !hasImage;
+  const isActionDisabled = isLoading || !hasImage || painted.length === 0 || missingInstruction.length > 0;
 
   return (
-    <div className="flex flex-col relative bg-[#050505] min-h-[400px]">
+    <div className="flex flex-col h-full relative bg-[#050505]">
         {/* Decorative Header Line */}
         <div className="absolute top-0 left-0 w-full h-[1px] bg-gradient-to-r from-[#DB24E3] to-[#54A970] z-20 opacity-50"></div>
 
-        {/* Sticky Top Section - FIXED OFFSET */}
         <div className="sticky top-0 z-30 p-4 sm:p-6 border-b border-[#1A1A1A] bg-[#050505]/95 backdrop-blur-md shadow-xl">
             <div className="flex justify-between items-center pb-2 border-b-2 border-[#DB24E3]/30">
                 <h3 className="text-xl font-black italic tracking-tighter text-white uppercase" style={{fontFamily: 'Koulen'}}>
                    Magic Eraser / Fill
                 </h3>
             </div>
-            
+
             <div className="flex justify-between items-center my-2">
                 <p className="text-gray-500 text-[10px] font-bold uppercase tracking-widest">
-                    Paint over an area to modify or erase it.
+                    {isMultiRegion ? `Instruction for ${active?.name || 'this region'}.` : 'Mask an area to modify or erase it.'}
                 </p>
             </div>
 
-            {/* Brush Controls */}
-            <div className="bg-[#000000] border border-[#222] p-3 flex flex-col gap-2">
-                <div className="flex justify-between text-[10px] font-bold uppercase tracking-widest text-gray-400">
-                    <span>Brush Size</span>
-                    <span className="text-[#DB24E3]">{brushSize}px</span>
-                </div>
-                <input 
-                    type="range" 
-                    min="10" 
-                    max="100" 
-                    value={brushSize} 
-                    onChange={(e) => setBrushSize(Number(e.target.value))}
-                    className="w-full accent-[#DB24E3] h-2 bg-[#222] rounded-lg appearance-none cursor-pointer"
-                />
-            </div>
-            
-            {/* Instruction Input */}
-            <div className="relative pt-2">
+            <div className="flex items-end justify-between gap-2 animate-fade-in">
                 <input
                     type="text"
-                    value={instruction}
-                    onChange={(e) => setInstruction(e.target.value)}
+                    value={active?.instruction ?? ''}
+                    onChange={(e) => active && mask.updateLayer(active.id, { instruction: e.target.value })}
                     maxLength={500}
                     placeholder="E.g., 'Remove sunglasses', 'Change shirt to red'..."
-                    className="w-full bg-[#000000] border border-[#222] focus:border-[#DB24E3] text-white p-4 focus:ring-0 focus:outline-none transition disabled:opacity-60 text-sm placeholder-gray-700 font-mono"
+                    className="flex-1 min-w-0 h-[42px] bg-[#000000] border border-[#222] focus:border-[#DB24E3] text-white px-4 focus:ring-0 focus:outline-none transition disabled:opacity-60 text-sm placeholder-gray-700 font-mono"
                     disabled={isLoading || !hasImage}
                 />
-            </div>
-            
-            {/* Unified Control Row: Clear (Left) | Execute (Center) */}
-            <div className="flex items-end justify-between gap-2 pt-2 animate-fade-in">
-                {/* LEFT: Clear Mask */}
-                <button 
-                    onClick={onClearMask}
-                    className="h-[42px] px-3 text-[10px] font-bold uppercase tracking-widest border border-[#222] text-gray-400 hover:text-white hover:border-[#54A970] bg-[#0A0A0A] transition-colors"
-                    title="Clear current selection"
-                    disabled={isLoading || !hasImage}
-                >
-                    Clear Mask
-                </button>
-
-                {/* CENTER: Execute Button */}
                 <button
                     onClick={handleApply}
-                    className="flex-1 h-[42px] bg-gradient-to-r from-[#DB24E3] to-[#54A970] text-white font-black px-4 uppercase italic tracking-widest transition-all duration-300 hover:shadow-[0_0_20px_rgba(219,36,227,0.6)] hover:-translate-y-1 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none shadow-[0_0_10px_rgba(84,169,112,0.3)] btn-sakuga text-xs truncate"
+                    className="h-[42px] bg-gradient-to-r from-[#DB24E3] to-[#54A970] text-white font-black px-4 uppercase italic tracking-widest transition-all duration-300 hover:shadow-[0_0_20px_rgba(219,36,227,0.6)] hover:-translate-y-1 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none shadow-[0_0_10px_rgba(84,169,112,0.3)] btn-sakuga text-xs truncate"
                     disabled={isActionDisabled}
                 >
                     <span className="skew-x-[10deg] block">EXECUTE</span>
                 </button>
             </div>
+            {isMultiRegion && missingInstruction.length > 0 && (
+                <p className="mt-2 text-[10px] font-mono text-[#DB24E3]">
+                    Needs an instruction: {missingInstruction.map(layer => layer.name).join(', ')}
+                </p>
+            )}
         </div>
-        
-        <div className="p-6">
+
+        {/* Regions and mask tools scroll under the fixed instruction row. */}
+        <div className="p-4 sm:p-6 overflow-y-auto custom-scrollbar flex flex-col gap-4">
+            <div className="bg-[#000000] border border-[#222] p-3 flex flex-col gap-2">
+                <div className="flex justify-between items-center text-[10px] font-bold uppercase tracking-widest text-gray-400">
+                    <span>Regions</span>
+                    <button
+                        onClick={mask.addLayer}
+                        disabled={isLoading || !hasImage || mask.layers.length >= MAX_MASK_LAYERS}
+                        className="text-[#54A970] hover:text-white transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                    >
+                        + Add Region
+                    </button>
+                </div>
+                {mask.layers.map(layer => (
+                    <div
+                        key={layer.id}
+                        onClick={() => mask.selectLayer(layer.id)}
+                        className={`flex items-center gap-2 px-2 py-1.5 border cursor-pointer transition-colors ${layer.id === mask.activeLayerId ? 'border-[#DB24E3] bg-[#DB24E3]/10' : 'border-[#222] hover:border-gray-500'}`}
+                    >
+                        <input
+                            type="text"
+                            value={layer.name}
+                            onChange={(e) => mask.updateLayer(layer.id, { name: e.target.value })}
+                            maxLength={40}
+                            disabled={isLoading}
+                            className="w-24 shrink-0 bg-transparent text-white text-xs font-bold uppercase tracking-wider outline-none focus:text-[#DB24E3]"
+                            aria-label="Region name"
+                        />
+                        <span className="flex-1 min-w-0 truncate text-[10px] font-mono text-gray-500">
+                            {layer.isEmpty ? 'No mask yet' : layer.instruction.trim() || 'No instruction'}
+                        </span>
+                        {isMultiRegion && (
+                            <button
+                                onClick={(e) => { e.stopPropagation(); mask.removeLayer(layer.id); }}
+                                disabled={isLoading}
+                                className="text-gray-600 hover:text-red-400 transition-colors disabled:opacity-30"
+                                aria-label={`Remove ${layer.name}`}
+                            >
+                                <XIcon className="w-3 h-3" />
+                            </button>
+                        )}
+                    </div>
+                ))}
+
+                {painted.length > 1 && (
+                    <div className="flex flex-col gap-1 pt-2 border-t border-[#1A1A1A]">
+                        <span className="text-[10px] font-bold uppercase tracking-widest text-gray-400">Apply As</span>
+                        <div className="grid grid-cols-3 gap-1">
+                            {REGION_MODES.map(({ id, label }) => (
+                                <button
+                                    key={id}
+                                    onClick={() => setRegionMode(id)}
+                                    disabled={isLoading}
+                                    className={`py-2 text-[10px] font-bold uppercase tracking-widest border transition-colors disabled:opacity-30 ${regionMode === id ? 'border-[#DB24E3] text-white bg-[#DB24E3]/20' : 'border-[#222] text-gray-400 hover:text-white'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-[10px] font-mono text-gray-500">{REGION_MODES.find(m => m.id === regionMode)?.hint}</p>
+                    </div>
+                )}
+            </div>
+
+            <MaskToolbar editor={mask} smartSelect={smartSelect} disabled={isLoading || !hasImage} />
         </div>
     </div>
   );
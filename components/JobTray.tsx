@@ -0,0 +1,146 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import type { Job, JobStatus } from '../services/jobQueue';
+import { LayersIcon, XIcon, CheckIcon } from './icons';
+
+interface JobTrayProps {
+  jobs: Job[];
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  onCancel: (id: string) => void;
+  onDismiss: (id: string) => void;
+  onApply: (id: string) => void;
+  // Results can only be applied to the project their job was started in.
+  activeProjectId: string;
+}
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  queued: 'text-gray-400',
+  running: 'text-orange-400',
+  succeeded: 'text-green-400',
+  failed: 'text-red-400',
+  cancelled: 'text-gray-500',
+};
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+export const JobTray: React.FC<JobTrayProps> = ({ jobs, concurrency, onConcurrencyChange, onCancel, onDismiss, onApply, activeProjectId }) => {
+  const [isOpen, setIsOpen] = useState(true);
+  const [now, setNow] = useState(Date.now());
+  const activeCount = jobs.filter(j => j.status === 'queued' || j.status === 'running').length;
+  const pendingCount = jobs.filter(j => j.status === 'succeeded' && !j.applied).length;
+
+  // Tick the elapsed-time readout only while something is running.
+  useEffect(() => {
+    if (!jobs.some(j => j.status === 'running')) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [jobs]);
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-2 right-2 z-40 w-72 max-w-[calc(100%-1rem)] bg-[#0A0A0A]/95 backdrop-blur-xl border border-gray-800 rounded-lg shadow-2xl animate-fade-in">
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        className="w-full flex justify-between items-center px-3 py-2 border-b border-gray-800"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2 text-sm font-black italic text-white uppercase tracking-wider" style={{ fontFamily: 'Koulen' }}>
+          <LayersIcon className="w-4 h-4 text-red-400" />
+          Jobs
+        </span>
+        <span className="text-[10px] font-mono uppercase text-gray-400">
+          {activeCount} active{pendingCount > 0 && ` • ${pendingCount} ready`}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="p-2">
+          <ul className="max-h-[min(16rem,40vh)] overflow-y-auto custom-scrollbar space-y-2">
+            {jobs.map(job => {
+              const elapsed = job.startedAt ? (job.finishedAt ?? now) - job.startedAt : 0;
+              const isActive = job.status === 'queued' || job.status === 'running';
+              const isOtherProject = job.projectId !== activeProjectId;
+              return (
+                <li key={job.id} className="p-2 bg-[#111] border border-[#1A1A1A] rounded">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-xs text-white truncate" title={job.label}>{job.label}</p>
+                    <span className={`text-[10px] font-mono uppercase ${STATUS_STYLES[job.status]}`}>
+                      {job.status}{job.startedAt && ` ${formatElapsed(elapsed)}`}
+                    </span>
+                  </div>
+
+                  {job.status === 'running' && (
+                    <div className="mt-2 h-1 bg-[#222] rounded overflow-hidden">
+                      {job.progress === null ? (
+                        <div className="h-full w-1/3 bg-gradient-to-r from-red-600 to-orange-500 animate-pulse" />
+                      ) : (
+                        <div className="h-full bg-gradient-to-r from-red-600 to-orange-500 transition-all" style={{ width: `${job.progress * 100}%` }} />
+                      )}
+                    </div>
+                  )}
+
+                  {job.status === 'failed' && job.error && (
+                    <p className="mt-1 text-[10px] text-red-300 line-clamp-2">{job.error.message}</p>
+                  )}
+
+                  {job.status === 'succeeded' && !job.applied && isOtherProject && (
+                    <p className="mt-1 text-[10px] text-gray-500">From another project</p>
+                  )}
+
+                  <div className="mt-2 flex justify-end gap-2">
+                    {isActive && (
+                      <button onClick={() => onCancel(job.id)} className="px-2 py-1 text-[10px] font-bold uppercase tracking-widest border border-red-500/60 text-red-300 rounded hover:bg-red-800 hover:text-white transition-colors">
+                        Cancel
+                      </button>
+                    )}
+                    {job.status === 'succeeded' && !job.applied && job.result != null && (
+                      <button
+                        onClick={() => onApply(job.id)}
+                        disabled={isOtherProject}
+                        title={isOtherProject ? 'Started in another project. Open it to apply this result.' : undefined}
+                        className="px-2 py-1 text-[10px] font-bold uppercase tracking-widest border border-green-500/60 text-green-300 rounded hover:bg-green-800 hover:text-white transition-colors flex items-center gap-1 disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+                      >
+                        <CheckIcon className="w-3 h-3" /> Apply
+                      </button>
+                    )}
+                    {!isActive && (
+                      <button onClick={() => onDismiss(job.id)} className="p-1 text-gray-500 hover:text-white transition-colors" aria-label="Dismiss job">
+                        <XIcon className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+
+          {activeCount > 0 && (
+            <p className="mt-2 text-[10px] text-gray-500">
+              Local video renders (timelines, fallback animations) record in real time and pause while this tab is in the background.
+            </p>
+          )}
+
+          <label className="mt-2 pt-2 border-t border-gray-800 flex items-center justify-between text-[10px] font-mono uppercase text-gray-500">
+            Parallel jobs
+            <select
+              value={concurrency}
+              onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+              className="bg-[#111] border border-[#222] rounded px-2 py-1 text-white"
+            >
+              {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
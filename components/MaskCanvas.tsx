@@ -0,0 +1,208 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef } from 'react';
+import type { MaskEditor } from '../hooks/useMaskEditor';
+import type { Point } from '../utils/mask';
+import { useViewerViewport } from './ZoomPanViewer';
+
+interface MaskCanvasProps {
+  editor: MaskEditor;
+  disabled?: boolean;
+  // Receives clicks made with the 'object' tool, in mask pixels.
+  onPick?: (point: Point) => void;
+}
+
+// Screen pixels within which a polygon click snaps shut on its first vertex.
+const CLOSE_DISTANCE = 12;
+// Screen pixels a lasso pointer must travel before another vertex is recorded.
+const LASSO_SPACING = 3;
+
+type Draft =
+  | { kind: 'stroke' }
+  | { kind: 'lasso' | 'polygon'; points: Point[] }
+  | { kind: 'rect' | 'ellipse'; from: Point; to: Point };
+
+/**
+ * Shows `editor`'s mask over the image it belongs to and turns pointer input
+ * into mask edits. Must be rendered inside ZoomPanViewer, whose viewport maps
+ * pointer positions to image pixels.
+ */
+export const MaskCanvas: React.FC<MaskCanvasProps> = ({ editor, disabled, onPick }) => {
+  const { layers, activeLayerId, size, tool } = editor;
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [hover, setHover] = useState<{ point: Point; scale: number } | null>(null);
+  const lastPoint = useRef<Point | null>(null);
+  const activePointers = useRef(new Set<number>());
+  const viewer = useViewerViewport();
+
+  // The editor owns the canvases so the mask survives this component unmounting.
+  // Inactive layers stay visible but dimmed.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const canvases = layers.map(layer => {
+      layer.canvas.className = `absolute inset-0 w-full h-full mix-blend-screen pointer-events-none ${layer.id === activeLayerId ? 'opacity-50' : 'opacity-20'}`;
+      return layer.canvas;
+    });
+    container.prepend(...canvases);
+    return () => canvases.forEach(c => c.remove());
+  }, [layers, activeLayerId]);
+
+  // Polygons and half-drawn shapes do not carry over to another tool or layer.
+  useEffect(() => setDraft(null), [tool, size, activeLayerId]);
+
+  useEffect(() => {
+    if (draft?.kind !== 'polygon') return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setDraft(null);
+      if (e.key === 'Enter') closePolygon(draft.points);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  const toMask = (clientX: number, clientY: number) => ({
+    point: viewer ? viewer.clientToImage(clientX, clientY) : { x: 0, y: 0 },
+    scale: viewer?.scale ?? 1,
+  });
+
+  const closePolygon = (points: Point[]) => {
+    if (points.length >= 3) editor.apply({ kind: 'polygon', points });
+    setDraft(null);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (disabled || !size || !viewer || (e.pointerType === 'mouse' && e.button !== 0)) return;
+    activePointers.current.add(e.pointerId);
+    // A second finger means a pinch for the viewer; drop whatever the first one started.
+    if (activePointers.current.size > 1) {
+      if (draft?.kind === 'stroke') {
+        editor.endEdit();
+        editor.undo();
+      }
+      if (draft?.kind !== 'polygon') setDraft(null);
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { point, scale } = toMask(e.clientX, e.clientY);
+
+    switch (tool) {
+      case 'brush':
+      case 'eraser':
+        editor.beginEdit();
+        editor.draw({ kind: 'stroke', points: [point], size: editor.brushSize / scale }, tool === 'eraser' ? 'subtract' : 'add');
+        lastPoint.current = point;
+        setDraft({ kind: 'stroke' });
+        break;
+      case 'lasso':
+        setDraft({ kind: 'lasso', points: [point] });
+        break;
+      case 'rect':
+      case 'ellipse':
+        setDraft({ kind: tool, from: point, to: point });
+        break;
+      case 'object':
+        onPick?.(point);
+        break;
+      case 'polygon': {
+        const points = draft?.kind === 'polygon' ? draft.points : [];
+        const first = points[0];
+        if (first && points.length >= 3 && Math.hypot(first.x - point.x, first.y - point.y) * scale < CLOSE_DISTANCE) {
+          closePolygon(points);
+        } else {
+          setDraft({ kind: 'polygon', points: [...points, point] });
+        }
+        break;
+      }
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!size || !viewer) return;
+    const { point, scale } = toMask(e.clientX, e.clientY);
+    setHover({ point, scale });
+    if (activePointers.current.size !== 1 || !draft) return;
+
+    if (draft.kind === 'stroke' && lastPoint.current) {
+      editor.draw({ kind: 'stroke', points: [lastPoint.current, point], size: editor.brushSize / scale }, tool === 'eraser' ? 'subtract' : 'add');
+      lastPoint.current = point;
+    } else if (draft.kind === 'lasso') {
+      const last = draft.points[draft.points.length - 1];
+      if (Math.hypot(last.x - point.x, last.y - point.y) * scale >= LASSO_SPACING) {
+        setDraft({ ...draft, points: [...draft.points, point] });
+      }
+    } else if (draft.kind === 'rect' || draft.kind === 'ellipse') {
+      setDraft({ ...draft, to: point });
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const wasActive = activePointers.current.delete(e.pointerId);
+    if (!wasActive || activePointers.current.size > 0 || !draft) return;
+
+    if (draft.kind === 'stroke') {
+      editor.endEdit();
+      lastPoint.current = null;
+      setDraft(null);
+    } else if (draft.kind === 'lasso') {
+      editor.apply({ kind: 'lasso', points: draft.points });
+      setDraft(null);
+    } else if (draft.kind === 'rect' || draft.kind === 'ellipse') {
+      editor.apply(draft);
+      setDraft(null);
+    }
+  };
+
+  if (!size) return null;
+  const outline = { fill: 'rgba(255,255,255,0.15)', stroke: '#DB24E3', strokeWidth: 1.5, vectorEffect: 'non-scaling-stroke' as const };
+  const box = draft && (draft.kind === 'rect' || draft.kind === 'ellipse') ? {
+    x: Math.min(draft.from.x, draft.to.x),
+    y: Math.min(draft.from.y, draft.to.y),
+    w: Math.abs(draft.to.x - draft.from.x),
+    h: Math.abs(draft.to.y - draft.from.y),
+  } : null;
+
+  return (
+    <div
+      ref={containerRef}
+      className="absolute inset-0 w-full h-full"
+      style={{ touchAction: 'none', cursor: tool === 'brush' || tool === 'eraser' ? 'none' : 'crosshair' }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerLeave={() => setHover(null)}
+      // Keep single-pointer input away from the viewer's drag-to-pan; pinches still reach it.
+      onMouseDown={(e) => e.stopPropagation()}
+      onTouchStart={(e) => { if (e.touches.length === 1) e.stopPropagation(); }}
+      onDoubleClick={(e) => {
+        if (tool !== 'polygon') return;
+        e.stopPropagation();
+        if (draft?.kind === 'polygon') closePolygon(draft.points);
+      }}
+    >
+      <svg
+        className="absolute inset-0 w-full h-full pointer-events-none"
+        viewBox={`0 0 ${size.width} ${size.height}`}
+        preserveAspectRatio="xMidYMid meet"
+      >
+        {draft?.kind === 'lasso' && <polyline points={draft.points.map(p => `${p.x},${p.y}`).join(' ')} {...outline} />}
+        {draft?.kind === 'polygon' && (
+          <>
+            <polyline points={[...draft.points, ...(hover ? [hover.point] : [])].map(p => `${p.x},${p.y}`).join(' ')} {...outline} fill="none" />
+            {draft.points.map((p, i) => hover && <circle key={i} cx={p.x} cy={p.y} r={4 / hover.scale} fill={i === 0 ? '#54A970' : '#DB24E3'} />)}
+          </>
+        )}
+        {box && draft?.kind === 'rect' && <rect x={box.x} y={box.y} width={box.w} height={box.h} {...outline} />}
+        {box && draft?.kind === 'ellipse' && <ellipse cx={box.x + box.w / 2} cy={box.y + box.h / 2} rx={box.w / 2} ry={box.h / 2} {...outline} />}
+        {hover && (tool === 'brush' || tool === 'eraser') && (
+          <circle cx={hover.point.x} cy={hover.point.y} r={editor.brushSize / 2 / hover.scale} fill="none" stroke={tool === 'eraser' ? '#54A970' : '#FFFFFF'} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        )}
+      </svg>
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import type { MaskEditor } from '../hooks/useMaskEditor';
+import type { SmartSelect } from '../hooks/useSmartSelect';
+import { MaskTool, MASK_TOOLS, MAX_FEATHER } from '../utils/mask';
+import { UndoIcon, RedoIcon } from './icons';
+
+interface MaskToolbarProps {
+  editor: MaskEditor;
+  disabled?: boolean;
+  // Enables the AI selection actions and the click-to-select tool.
+  smartSelect?: SmartSelect;
+}
+
+const TOOL_LABELS: Record<MaskTool, string> = {
+  brush: 'Brush',
+  eraser: 'Eraser',
+  lasso: 'Lasso',
+  polygon: 'Polygon',
+  rect: 'Rect',
+  ellipse: 'Ellipse',
+  object: 'Object',
+};
+
+const TOOL_HINTS: Record<MaskTool, string> = {
+  brush: 'Paint over the area to change.',
+  eraser: 'Paint to remove parts of the mask.',
+  lasso: 'Drag around an area to select it.',
+  polygon: 'Click corners; click the first point, double-click or press Enter to close. Esc cancels.',
+  rect: 'Drag to select a rectangle.',
+  ellipse: 'Drag to select an ellipse.',
+  object: 'Click an object to let the AI select it.',
+};
+
+/** Tool picker and mask actions for a MaskEditor; pairs with MaskCanvas. */
+export const MaskToolbar: React.FC<MaskToolbarProps> = ({ editor, disabled, smartSelect }) => {
+  const [growAmount, setGrowAmount] = useState(8);
+  const isShapeTool = editor.tool !== 'brush' && editor.tool !== 'eraser';
+  const tools = smartSelect ? MASK_TOOLS : MASK_TOOLS.filter(tool => tool !== 'object');
+  const isSelecting = !!smartSelect?.isSelecting;
+
+  const toggleClass = (active: boolean) =>
+    `py-2 text-[10px] font-bold uppercase tracking-widest border transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${active ? 'border-[#DB24E3] text-white bg-[#DB24E3]/20' : 'border-[#222] text-gray-400 hover:text-white'}`;
+  const actionClass = 'flex-1 py-2 text-[10px] font-bold uppercase tracking-widest border border-[#222] text-gray-400 hover:text-white hover:border-gray-500 bg-[#0A0A0A] transition-colors disabled:opacity-30 disabled:cursor-not-allowed';
+
+  return (
+    <div className="bg-[#000000] border border-[#222] p-3 flex flex-col gap-3">
+      {smartSelect && (
+        <div className="flex flex-col gap-1">
+          <span className="text-[10px] font-bold uppercase tracking-widest text-gray-400">AI Select</span>
+          <div className="flex gap-1">
+            <button onClick={() => smartSelect.select('subject')} disabled={disabled || isSelecting} className={actionClass}>Subject</button>
+            <button onClick={() => smartSelect.select('background')} disabled={disabled || isSelecting} className={actionClass}>Background</button>
+          </div>
+          {isSelecting && <p className="text-[10px] font-mono text-[#54A970] animate-pulse">Segmenting image...</p>}
+          {smartSelect.error && !isSelecting && <p className="text-[10px] font-mono text-red-400">{smartSelect.error}</p>}
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-1">
+        {tools.map(tool => (
+          <button key={tool} onClick={() => editor.setTool(tool)} disabled={disabled} className={toggleClass(editor.tool === tool)}>
+            {TOOL_LABELS[tool]}
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] font-mono text-gray-500">{TOOL_HINTS[editor.tool]}</p>
+
+      {isShapeTool ? (
+        <div className="grid grid-cols-2 gap-1">
+          <button onClick={() => editor.setMode('add')} disabled={disabled} className={toggleClass(editor.mode === 'add')}>Add</button>
+          <button onClick={() => editor.setMode('subtract')} disabled={disabled} className={toggleClass(editor.mode === 'subtract')}>Subtract</button>
+        </div>
+      ) : (
+        <div className="flex flex-col gap-1">
+          <div className="flex justify-between text-[10px] font-bold uppercase tracking-widest text-gray-400">
+            <span>Brush Size</span>
+            <span className="text-[#DB24E3]">{editor.brushSize}px</span>
+          </div>
+          <input
+            type="range"
+            min="4"
+            max="150"
+            value={editor.brushSize}
+            onChange={(e) => editor.setBrushSize(Number(e.target.value))}
+            disabled={disabled}
+            className="w-full accent-[#DB24E3] h-2 bg-[#222] rounded-lg appearance-none cursor-pointer"
+          />
+        </div>
+      )}
+
+      <div className="flex flex-col gap-1">
+        <div className="flex justify-between text-[10px] font-bold uppercase tracking-widest text-gray-400">
+          <span>Feather</span>
+          <span className="text-[#DB24E3]">{editor.feather}px</span>
+        </div>
+        <input
+          type="range"
+          min="0"
+          max={MAX_FEATHER}
+          value={editor.feather}
+          onChange={(e) => editor.setFeather(Number(e.target.value))}
+          disabled={disabled}
+          className="w-full accent-[#DB24E3] h-2 bg-[#222] rounded-lg appearance-none cursor-pointer"
+        />
+      </div>
+
+      <div className="flex gap-1 items-center">
+        <button onClick={() => editor.grow(-growAmount)} disabled={disabled || editor.isEmpty} className={actionClass}>Shrink</button>
+        <input
+          type="number"
+          min={1}
+          max={100}
+          value={growAmount}
+          onChange={(e) => setGrowAmount(Math.min(100, Math.max(1, Number(e.target.value) || 1)))}
+          disabled={disabled}
+          className="w-14 h-[34px] bg-[#0A0A0A] border border-[#222] text-white text-xs font-mono text-center outline-none focus:border-[#DB24E3]"
+          aria-label="Grow or shrink amount in pixels"
+        />
+        <button onClick={() => editor.grow(growAmount)} disabled={disabled || editor.isEmpty} className={actionClass}>Grow</button>
+      </div>
+
+      <div className="flex gap-1">
+        <button onClick={editor.undo} disabled={disabled || !editor.canUndo} className={actionClass} aria-label="Undo mask edit">
+          <UndoIcon className="w-4 h-4 mx-auto" />
+        </button>
+        <button onClick={editor.redo} disabled={disabled || !editor.canRedo} className={actionClass} aria-label="Redo mask edit">
+          <RedoIcon className="w-4 h-4 mx-auto" />
+        </button>
+        <button onClick={editor.invert} disabled={disabled} className={actionClass}>Invert</button>
+        <button onClick={editor.clear} disabled={disabled || editor.isEmpty} className={actionClass}>Clear</button>
+      </div>
+    </div>
+  );
+};
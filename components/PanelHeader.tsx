@@ -56,14 +56,8 @@ export const PanelHeader: React.FC<PanelHeaderProps> = ({
   };
 
   const handleGenerateClick = () => {
-    if (onGenerate) {
-      if (hasImage) {
-        if (!window.confirm("This will start a new session and clear your current image and history. Are you sure you want to generate a new image?")) {
-            return; // User cancelled
-        }
-      }
-      onGenerate(prompt, aspectRatio);
-    }
+    // New images start a fresh branch in the history tree; nothing is discarded.
+    if (onGenerate) onGenerate(prompt, aspectRatio);
   };
 
   const isActionDisabled = isLoading || !prompt.trim();
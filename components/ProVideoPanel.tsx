@@ -0,0 +1,263 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useMemo } from 'react';
+import { PanelScanner } from './Spinner';
+import { GenerationRequest } from '../App';
+import { HistoryTree, HistoryNode, getCurrentNode } from '../utils/historyTree';
+import { getVideoCapabilities } from '../services/geminiService';
+import { resolveVideoSettings } from '../services/videoSettings';
+import type { VideoResolution } from '../services/imageProvider';
+import { Thumbnail, useThumbnails, isVideoNode } from './HistoryThumbnail';
+import { XIcon } from './icons';
+
+interface ProVideoPanelProps {
+  tree: HistoryTree;
+  onRequest: (request: GenerationRequest) => void;
+  isLoading: boolean;
+}
+
+// Each shot is a separate render of several minutes; longer sequences belong in the timeline.
+const MAX_SHOTS = 4;
+
+interface FramePickerProps {
+  label: string;
+  nodes: HistoryNode[];
+  thumbnails: Record<string, string>;
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  disabled: boolean;
+}
+
+// A horizontal strip of history entries; clicking the selected one clears it.
+const FramePicker: React.FC<FramePickerProps> = ({ label, nodes, thumbnails, selectedId, onSelect, disabled }) => (
+  <div>
+    <div className="flex justify-between items-center mb-2">
+      <h4 className="text-[10px] font-bold uppercase tracking-widest text-gray-500">{label}</h4>
+      {selectedId && (
+        <button onClick={() => onSelect(null)} disabled={disabled} className="text-[10px] font-bold uppercase tracking-widest text-gray-500 hover:text-white">
+          Clear
+        </button>
+      )}
+    </div>
+    {nodes.length === 0 ? (
+      <p className="text-xs font-mono text-gray-600 text-center py-4 border border-dashed border-[#222]">Nothing in history yet.</p>
+    ) : (
+      <div className="flex gap-2 overflow-x-auto custom-scrollbar pb-1">
+        {nodes.map(node => (
+          <button
+            key={node.id}
+            onClick={() => onSelect(node.id === selectedId ? null : node.id)}
+            disabled={disabled}
+            className={`relative w-14 h-14 flex-shrink-0 overflow-hidden border-2 transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${node.id === selectedId ? 'border-[#DB24E3]' : 'border-transparent hover:border-gray-500'}`}
+            aria-label={`${label}: ${isVideoNode(node) ? 'clip' : 'image'} from ${new Date(node.createdAt).toLocaleTimeString()}`}
+            aria-pressed={node.id === selectedId}
+          >
+            <Thumbnail node={node} url={thumbnails[node.id]} />
+          </button>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export const ProVideoPanel: React.FC<ProVideoPanelProps> = ({ tree, onRequest, isLoading }) => {
+  const [startId, setStartId] = useState<string | null>(null);
+  const [endId, setEndId] = useState<string | null>(null);
+  const [shots, setShots] = useState<string[]>(['']);
+  const [aspectRatio, setAspectRatio] = useState('16:9');
+  const [duration, setDuration] = useState(8);
+  const [resolution, setResolution] = useState<VideoResolution>('720p');
+  const [negativePrompt, setNegativePrompt] = useState('');
+
+  const thumbnails = useThumbnails(tree);
+  const capabilities = useMemo(() => getVideoCapabilities(), []);
+  const current = getCurrentNode(tree);
+
+  // Only entries held in memory can be decoded into frames; newest first.
+  const nodes = useMemo(() => Object.values(tree.nodes)
+    .filter(node => node.media instanceof File)
+    .sort((a, b) => b.createdAt - a.createdAt), [tree.nodes]);
+  const imageNodes = useMemo(() => nodes.filter(node => !isVideoNode(node)), [nodes]);
+
+  // A selection disappears if its node is pruned from history.
+  const start = nodes.find(node => node.id === startId) ?? null;
+  const end = imageNodes.find(node => node.id === endId) ?? null;
+  const isExtension = !!start && isVideoNode(start);
+
+  const adjustments = useMemo(() => {
+    const { adjustments } = resolveVideoSettings({ aspectRatio, durationSeconds: duration, resolution, negativePrompt }, capabilities);
+    return end && !capabilities.lastFrame ? [...adjustments, 'End frame ignored (not supported by this model)'] : adjustments;
+  }, [capabilities, aspectRatio, duration, resolution, negativePrompt, end]);
+
+  const filledShots = shots.map(s => s.trim()).filter(Boolean);
+  const canGenerate = !isLoading && filledShots.length > 0 && (!end || !!start);
+
+  const updateShot = (index: number, value: string) => setShots(prev => prev.map((s, i) => (i === index ? value : s)));
+
+  const canExtendCurrent = !!current && isVideoNode(current) && current.media instanceof File;
+
+  const handleGenerate = () => {
+    if (!canGenerate) return;
+    onRequest({
+      type: 'pro_video',
+      prompt: filledShots[0],
+      shots: filledShots.map(prompt => ({ prompt })),
+      startFrameNodeId: start?.id,
+      endFrameNodeId: end?.id,
+      aspectRatio,
+      duration,
+      resolution,
+      negativePrompt: negativePrompt.trim() || undefined,
+      // Video models take an unsigned 32-bit seed.
+      seed: Math.floor(Math.random() * 2 ** 32),
+    });
+  };
+
+  const toggleClass = (active: boolean) =>
+    `flex-1 py-2 text-[10px] font-bold uppercase tracking-widest border transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${active ? 'border-[#DB24E3] text-white bg-[#DB24E3]/20' : 'border-[#222] text-gray-400 hover:text-white'}`;
+
+  return (
+    <div className="flex flex-col h-full relative bg-[#050505]">
+      {isLoading && <PanelScanner />}
+      <div className="absolute top-0 left-0 w-full h-[1px] bg-gradient-to-r from-[#DB24E3] to-[#54A970] z-20 opacity-50"></div>
+
+      <div className="sticky top-0 z-30 p-4 sm:p-6 border-b border-[#1A1A1A] bg-[#050505]/95 backdrop-blur-md shadow-xl">
+        <div className="flex justify-between items-center pb-2 border-b-2 border-[#DB24E3]/30">
+          <h3 className="text-xl font-black italic tracking-tighter text-white uppercase" style={{fontFamily: 'Koulen'}}>
+            Pro Video
+          </h3>
+          <button
+            onClick={handleGenerate}
+            disabled={!canGenerate}
+            className="px-4 py-2 text-[10px] font-bold uppercase tracking-widest border border-[#54A970] text-[#54A970] hover:bg-[#54A970] hover:text-black transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            {filledShots.length > 1 ? `Render ${filledShots.length} Shots` : 'Render'}
+          </button>
+        </div>
+        <p className="mt-2 text-gray-500 text-[10px] font-bold uppercase tracking-widest">
+          Pin start and end frames, extend a clip, or chain shots that continue from each other.
+        </p>
+      </div>
+
+      <div className="p-4 sm:p-6 overflow-y-auto custom-scrollbar flex flex-col gap-5">
+        <FramePicker
+          label={isExtension ? 'Start: Extend Clip' : 'Start Frame'}
+          nodes={nodes}
+          thumbnails={thumbnails}
+          selectedId={start?.id ?? null}
+          onSelect={setStartId}
+          disabled={isLoading}
+        />
+        <button
+          onClick={() => current && setStartId(current.id)}
+          disabled={isLoading || !canExtendCurrent}
+          className="py-2 text-[10px] font-bold uppercase tracking-widest border border-[#222] text-gray-400 hover:text-white hover:border-gray-500 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+        >
+          Extend Current Clip
+        </button>
+
+        <FramePicker
+          label="End Frame"
+          nodes={imageNodes}
+          thumbnails={thumbnails}
+          selectedId={end?.id ?? null}
+          onSelect={setEndId}
+          disabled={isLoading || !start}
+        />
+        {!start && <p className="-mt-3 text-[10px] font-mono text-gray-600">Pick a start frame to pin where the video ends.</p>}
+
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <h4 className="text-[10px] font-bold uppercase tracking-widest text-gray-500">Shots</h4>
+            <span className="text-xs font-mono text-gray-500">{shots.length}/{MAX_SHOTS}</span>
+          </div>
+          <div className="flex flex-col gap-2">
+            {shots.map((shot, i) => (
+              <div key={i} className="flex gap-2 items-start">
+                <span className="w-5 pt-2 text-[10px] font-mono text-gray-500 text-right">{i + 1}</span>
+                <textarea
+                  value={shot}
+                  onChange={(e) => updateShot(i, e.target.value)}
+                  rows={2}
+                  maxLength={2000}
+                  placeholder={i === 0 ? "What happens in the first shot..." : "What happens next, continuing from the previous shot..."}
+                  className="flex-1 bg-[#000000] border border-[#222] focus:border-[#DB24E3] text-white p-2 text-sm font-mono focus:outline-none resize-none placeholder-gray-700"
+                  disabled={isLoading}
+                />
+                <button
+                  onClick={() => setShots(prev => prev.filter((_, j) => j !== i))}
+                  disabled={isLoading || shots.length === 1}
+                  className="text-gray-500 hover:text-white p-1 disabled:opacity-30"
+                  aria-label={`Remove shot ${i + 1}`}
+                >
+                  <XIcon className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() => setShots(prev => [...prev, ''])}
+            disabled={isLoading || shots.length >= MAX_SHOTS}
+            className="mt-2 w-full py-2 text-[10px] font-bold uppercase tracking-widest border border-dashed border-[#222] text-gray-400 hover:text-white hover:border-gray-500 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            Add Shot
+          </button>
+          {shots.length > 1 && end && (
+            <p className="mt-2 text-[10px] font-mono text-gray-500">The end frame applies to the last shot.</p>
+          )}
+        </div>
+
+        <div>
+          <h4 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-2">Aspect Ratio</h4>
+          <div className="flex gap-2">
+            {capabilities.aspectRatios.map(ratio => (
+              <button key={ratio} onClick={() => setAspectRatio(ratio)} disabled={isLoading} className={toggleClass(aspectRatio === ratio)}>{ratio}</button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-2">Shot Length</h4>
+          <div className="flex gap-2">
+            {capabilities.durations.map(seconds => (
+              <button key={seconds} onClick={() => setDuration(seconds)} disabled={isLoading} className={toggleClass(duration === seconds)}>{seconds}s</button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-2">Resolution</h4>
+          <div className="flex gap-2">
+            {capabilities.resolutions.map(res => (
+              <button key={res} onClick={() => setResolution(res)} disabled={isLoading} className={toggleClass(resolution === res)}>{res}</button>
+            ))}
+          </div>
+        </div>
+
+        {capabilities.negativePrompt && (
+          <input
+            type="text"
+            value={negativePrompt}
+            onChange={(e) => setNegativePrompt(e.target.value)}
+            maxLength={500}
+            placeholder="Negative prompt, e.g. 'blur, text, watermark'"
+            className="w-full bg-[#000000] border border-[#222] focus:border-[#DB24E3] text-white p-3 text-xs font-mono focus:outline-none placeholder-gray-700"
+            disabled={isLoading}
+          />
+        )}
+
+        {adjustments.length > 0 && (
+          <div className="bg-[#000000] border border-yellow-500/30 p-3" role="status">
+            <p className="text-[10px] font-bold uppercase tracking-widest text-yellow-500 mb-1">Adjusted to fit the video model</p>
+            <ul className="text-xs font-mono text-yellow-200/80 space-y-0.5">
+              {adjustments.map(line => <li key={line}>{line}</li>)}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,170 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { listProjects, ProjectSummary } from '../services/persistence';
+import { exportProjectArchive, importProjectArchive, ARCHIVE_EXTENSION } from '../services/sessionArchive';
+import { XIcon, CopyIcon, LayersIcon, DownloadIcon, UploadIcon } from './icons';
+
+interface ProjectBrowserProps {
+    isOpen: boolean;
+    activeProjectId: string;
+    onClose: () => void;
+    onOpen: (id: string) => Promise<void>;
+    onRename: (id: string, name: string) => Promise<void>;
+    onDuplicate: (id: string) => Promise<void>;
+    onDelete: (id: string) => Promise<void>;
+}
+
+export const ProjectBrowser: React.FC<ProjectBrowserProps> = ({ isOpen, activeProjectId, onClose, onOpen, onRename, onDuplicate, onDelete }) => {
+    const [projects, setProjects] = useState<ProjectSummary[]>([]);
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftName, setDraftName] = useState('');
+
+    const refresh = useCallback(async () => {
+        setProjects(await listProjects());
+    }, []);
+
+    useEffect(() => {
+        if (isOpen) {
+            setError(null);
+            setEditingId(null);
+            refresh();
+        }
+    }, [isOpen, refresh]);
+
+    // Runs a library action, then reloads the listing so it reflects the result.
+    const run = async (action: () => Promise<void>) => {
+        setIsBusy(true);
+        setError(null);
+        try {
+            await action();
+            await refresh();
+        } catch (e: any) {
+            setError(e?.message ?? String(e));
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const commitRename = (id: string) => {
+        const name = draftName.trim();
+        setEditingId(null);
+        if (name) run(() => onRename(id, name));
+    };
+
+    const handleExport = (id: string) => run(async () => {
+        const { blob, fileName } = await exportProjectArchive(id);
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+    });
+
+    const handleImport = (file: File) => run(async () => {
+        const id = await importProjectArchive(file);
+        await onOpen(id);
+    });
+
+    const handleDelete = (project: ProjectSummary) => {
+        if (window.confirm(`Delete "${project.name}"? Its history cannot be recovered.`)) {
+            run(() => onDelete(project.id));
+        }
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 z-[10000] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-[#050505] border-2 border-[#333] p-4 sm:p-6 relative shadow-[0_0_50px_rgba(0,0,0,0.8)] w-full max-w-3xl max-h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <button onClick={onClose} className="absolute top-3 right-3 text-gray-500 hover:text-white transition-colors p-1 rounded-sm z-20" aria-label="Close project library">
+                    <XIcon className="w-6 h-6" />
+                </button>
+                <h3 className="text-xl font-black italic tracking-tighter text-white uppercase mb-4 flex items-center gap-2" style={{fontFamily: 'Koulen'}}>
+                    <LayersIcon className="w-5 h-5 text-red-400" />
+                    Project Library
+                </h3>
+                <label className={`self-start mb-4 flex items-center gap-2 px-3 py-2 text-[10px] font-bold uppercase tracking-widest border border-[#222] text-gray-400 hover:text-white hover:border-gray-500 transition-colors ${isBusy ? 'opacity-30 pointer-events-none' : 'cursor-pointer'}`}>
+                    <UploadIcon className="w-3 h-3" /> Import Archive
+                    <input
+                        type="file"
+                        className="hidden"
+                        accept={`${ARCHIVE_EXTENSION},.zip,application/zip`}
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            e.target.value = '';
+                            if (file) handleImport(file);
+                        }}
+                    />
+                </label>
+
+                {error && <p className="mb-3 text-xs text-red-400 font-mono">{error}</p>}
+
+                <div className="flex-1 overflow-y-auto custom-scrollbar">
+                    {projects.length === 0 ? (
+                        <p className="text-xs text-gray-500 font-mono py-8 text-center">No saved projects yet. Everything you create is saved here automatically.</p>
+                    ) : (
+                        <ul className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            {projects.map(project => {
+                                const isActive = project.id === activeProjectId;
+                                return (
+                                    <li key={project.id} className={`flex gap-3 p-2 border bg-[#0A0A0A] ${isActive ? 'border-red-500/60' : 'border-[#222]'}`}>
+                                        <button onClick={() => run(() => onOpen(project.id))} disabled={isBusy} className="w-20 h-20 flex-shrink-0 bg-[#111] border border-[#222] overflow-hidden hover:border-red-400 transition-colors disabled:cursor-not-allowed" title="Open project">
+                                            {project.thumbnail
+                                                ? <img src={project.thumbnail} alt="" className="w-full h-full object-cover" />
+                                                : <span className="text-[10px] text-gray-600 font-mono">NO PREVIEW</span>}
+                                        </button>
+                                        <div className="flex-1 min-w-0 flex flex-col">
+                                            {editingId === project.id ? (
+                                                <input
+                                                    autoFocus
+                                                    value={draftName}
+                                                    onChange={(e) => setDraftName(e.target.value)}
+                                                    onBlur={() => commitRename(project.id)}
+                                                    onKeyDown={(e) => {
+                                                        if (e.key === 'Enter') commitRename(project.id);
+                                                        if (e.key === 'Escape') setEditingId(null);
+                                                    }}
+                                                    maxLength={80}
+                                                    className="bg-black border border-[#54A970] text-white text-sm px-2 py-1 font-mono focus:outline-none"
+                                                />
+                                            ) : (
+                                                <button onClick={() => { setEditingId(project.id); setDraftName(project.name); }} className="text-left text-sm text-white font-bold truncate hover:text-red-300" title="Rename">
+                                                    {project.name}
+                                                </button>
+                                            )}
+                                            <p className="text-[10px] text-gray-500 font-mono uppercase mt-1">
+                                                {project.nodeCount} entries • {new Date(project.updatedAt).toLocaleString()}
+                                                {isActive && <span className="text-red-400"> • open</span>}
+                                            </p>
+                                            <div className="mt-auto flex flex-wrap gap-2 pt-2">
+                                                <button onClick={() => run(() => onOpen(project.id))} disabled={isBusy} className="px-2 py-1 text-[10px] font-bold uppercase tracking-widest border border-[#54A970] text-[#54A970] hover:bg-[#54A970] hover:text-black transition-colors disabled:opacity-30">
+                                                    Open
+                                                </button>
+                                                <button onClick={() => run(() => onDuplicate(project.id))} disabled={isBusy} className="px-2 py-1 text-[10px] font-bold uppercase tracking-widest border border-[#222] text-gray-400 hover:text-white hover:border-gray-500 transition-colors disabled:opacity-30 flex items-center gap-1">
+                                                    <CopyIcon className="w-3 h-3" /> Duplicate
+                                                </button>
+                                                <button onClick={() => handleExport(project.id)} disabled={isBusy} className="px-2 py-1 text-[10px] font-bold uppercase tracking-widest border border-[#222] text-gray-400 hover:text-white hover:border-gray-500 transition-colors disabled:opacity-30 flex items-center gap-1" title="Download as a portable archive">
+                                                    <DownloadIcon className="w-3 h-3" /> Export
+                                                </button>
+                                                <button onClick={() => handleDelete(project)} disabled={isBusy} className="px-2 py-1 text-[10px] font-bold uppercase tracking-widest border border-[#222] text-gray-400 hover:text-white hover:bg-red-800 hover:border-red-500 transition-colors disabled:opacity-30">
+                                                    Delete
+                                                </button>
+                                            </div>
+                                        </div>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
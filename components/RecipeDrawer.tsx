@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import type { HistoryNode } from '../utils/historyTree';
+import type { GenerationRequest, ReplayOverrides } from '../App';
+import { XIcon } from './icons';
+import { describeCropTransform } from '../utils/imageTransform';
+import { describeExpandSpec } from '../utils/outpaint';
+import { describeUpscaleSpec } from '../utils/upscale';
+import { describeTimelineSpec } from '../utils/videoTimeline';
+
+interface RecipeDrawerProps {
+  node: HistoryNode;
+  onJumpToNode: (id: string) => void;
+  onReplay: (nodeId: string, overrides?: ReplayOverrides) => void;
+  onClose: () => void;
+}
+
+const randomSeed = () => Math.floor(Math.random() * 2147483647);
+
+// Local operations (crop, timeline renders and frame grabs, local upscales)
+// ignore the seed, so a re-roll would only repeat them.
+const isSeeded = (request: GenerationRequest) => {
+  switch (request.type) {
+    case 'crop':
+    case 'timeline':
+      return false;
+    case 'upscale':
+      return request.upscale?.method !== 'local';
+    default:
+      return true;
+  }
+};
+
+const formatDuration = (ms: number) => ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+const Row: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="py-2 border-b border-[#1A1A1A]">
+    <dt className="text-[10px] font-bold uppercase tracking-widest text-gray-500">{label}</dt>
+    <dd className="mt-1 text-xs text-white font-mono break-words">{children}</dd>
+  </div>
+);
+
+export const RecipeDrawer: React.FC<RecipeDrawerProps> = ({ node, onJumpToNode, onReplay, onClose }) => {
+  const recipe = node.recipe;
+  const request = recipe?.request;
+  const [prompt, setPrompt] = useState(request?.prompt ?? '');
+
+  const handleReplay = (reseed: boolean) => {
+    const overrides: ReplayOverrides = {};
+    if (request?.prompt !== undefined && prompt.trim() && prompt.trim() !== request.prompt) overrides.prompt = prompt.trim();
+    if (reseed) overrides.seed = randomSeed();
+    onReplay(node.id, overrides);
+  };
+
+  const flags = request ? [
+    request.isChaos && 'chaos',
+    request.useOriginal && 'from original',
+    request.forceNew && 'new image',
+    request.noCensorship && 'no censorship',
+    request.unlimitedMode && 'unlimited',
+    request.autoEnhance && 'auto-enhance',
+    request.localFallback === false && 'no local fallback',
+  ].filter(Boolean).join(', ') : '';
+
+  return (
+    <div
+      className="absolute top-16 left-2 bottom-2 z-30 w-72 max-w-[calc(100%-1rem)] bg-[#0A0A0A]/95 backdrop-blur-xl border border-gray-800 rounded-lg shadow-2xl flex flex-col animate-fade-in"
+      role="dialog"
+      aria-label="Generation recipe"
+    >
+      <div className="flex justify-between items-center px-4 py-3 border-b border-gray-800">
+        <h3 className="text-sm font-black italic text-white uppercase tracking-wider" style={{ fontFamily: 'Koulen' }}>
+          Recipe
+        </h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors p-1" aria-label="Close recipe">
+          <XIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <dl className="flex-1 overflow-y-auto custom-scrollbar px-4 pb-4">
+        <Row label="Created">{new Date(node.createdAt).toLocaleString()}</Row>
+        {!recipe || !request ? (
+          <p className="mt-4 text-xs text-gray-500 font-mono">Uploaded image. No generation recipe was recorded.</p>
+        ) : (
+          <>
+            <Row label="Tool">{request.type}</Row>
+            {request.prompt && <Row label="Prompt"><span className="whitespace-pre-wrap">{request.prompt}</span></Row>}
+            {request.aspectRatio && <Row label="Aspect Ratio">{request.aspectRatio}</Row>}
+            {request.seed !== undefined && <Row label="Seed">{request.seed}</Row>}
+            {request.batchSize && request.batchSize > 1 && <Row label="Batch Size">{request.batchSize}</Row>}
+            {request.duration !== undefined && <Row label="Duration">{request.duration}s @ {request.fps ?? '-'} fps</Row>}
+            {request.motionStrength !== undefined && <Row label="Motion">{request.motionStrength}</Row>}
+            {request.resolution && <Row label="Resolution">{request.resolution}</Row>}
+            {request.negativePrompt && <Row label="Negative Prompt"><span className="whitespace-pre-wrap">{request.negativePrompt}</span></Row>}
+            {request.shots && request.shots.length > 1 && (
+              <Row label="Shots">
+                <ol className="list-decimal list-inside space-y-1">
+                  {request.shots.map((shot, i) => <li key={i} className="whitespace-pre-wrap">{shot.prompt}</li>)}
+                </ol>
+              </Row>
+            )}
+            {(request.startFrameNodeId || request.endFrameNodeId) && (
+              <Row label="Keyframes">{[request.startFrameNodeId && 'start', request.endFrameNodeId && 'end'].filter(Boolean).join(' + ')}</Row>
+            )}
+            {request.maskBase64 && <Row label="Mask">Painted region</Row>}
+            {request.regions && request.regions.length > 0 && (
+              <Row label={`Regions (${request.regionMode ?? 'composite'})`}>
+                <ol className="list-decimal list-inside space-y-1">
+                  {request.regions.map((region, i) => <li key={i} className="whitespace-pre-wrap">{region.name}: {region.prompt}</li>)}
+                </ol>
+              </Row>
+            )}
+            {request.crop && <Row label="Transform">{describeCropTransform(request.crop)}</Row>}
+            {request.expand && <Row label="Expand">{describeExpandSpec(request.expand)}</Row>}
+            {request.upscale && <Row label="Upscale">{describeUpscaleSpec(request.upscale)}</Row>}
+            {request.timeline && <Row label="Timeline">{describeTimelineSpec(request.timeline)}</Row>}
+            {request.frameGrab && <Row label="Frame">{request.frameGrab.time.toFixed(2)}s</Row>}
+            {request.references && request.references.length > 0 && (
+              <Row label="References">{request.references.map(r => `${r.role} ${Math.round(r.weight * 100)}%`).join(', ')}</Row>
+            )}
+            {!!recipe.omittedReferences && (
+              <Row label="References">{recipe.omittedReferences} could not be restored</Row>
+            )}
+            {flags && <Row label="Options">{flags}</Row>}
+            <Row label="Protocol">{recipe.protocol}</Row>
+            <Row label="Provider">{recipe.provider}</Row>
+            <Row label="Model">{recipe.model}</Row>
+            <Row label="Source">
+              {recipe.sourceId ? (
+                <button onClick={() => onJumpToNode(recipe.sourceId!)} className="text-[#54A970] hover:text-white underline underline-offset-2">
+                  {recipe.sourceId}
+                </button>
+              ) : 'None (text-to-image)'}
+            </Row>
+            <Row label="Generation Time">{formatDuration(recipe.durationMs)}</Row>
+
+            <div className="mt-4 flex flex-col gap-2">
+              <h4 className="text-[10px] font-bold uppercase tracking-widest text-gray-500">Replay as Variant</h4>
+              {request.prompt !== undefined && !recipe.omittedReferences && (
+                <textarea
+                  value={prompt}
+                  onChange={(e) => setPrompt(e.target.value)}
+                  rows={3}
+                  maxLength={2000}
+                  className="w-full bg-[#000000] border-2 border-[#222] focus:border-[#54A970] text-white p-2 text-xs font-mono focus:outline-none resize-none"
+                />
+              )}
+              {recipe.omittedReferences ? (
+                <p className="text-[10px] font-mono text-[#DB24E3]">
+                  The reference images this edit used could not be restored, so it cannot be replayed.
+                </p>
+              ) : (
+                <div className="flex gap-2">
+                  <button onClick={() => handleReplay(false)} className="flex-1 py-2 text-[10px] font-bold uppercase tracking-widest border border-[#54A970] text-[#54A970] hover:bg-[#54A970] hover:text-black transition-colors" title="Run the same recipe again">
+                    Re-run
+                  </button>
+                  {isSeeded(request) && <button onClick={() => handleReplay(true)} className="flex-1 py-2 text-[10px] font-bold uppercase tracking-widest border border-[#DB24E3] text-[#DB24E3] hover:bg-[#DB24E3] hover:text-black transition-colors" title="Run the recipe again with a new seed">
+                    Re-roll
+                  </button>}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </dl>
+    </div>
+  );
+};
@@ -0,0 +1,204 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import { PanelScanner } from './Spinner';
+import { GenerationRequest } from '../App';
+import { ReferenceImage, ReferenceRole, REFERENCE_ROLES } from '../services/imageProvider';
+import { UploadIcon, XIcon } from './icons';
+
+// A reference as held in the panel; the id only keys the list.
+export interface ReferenceSlot extends ReferenceImage {
+  id: string;
+}
+
+interface ReferencePanelProps {
+  references: ReferenceSlot[];
+  onChange: (references: ReferenceSlot[]) => void;
+  onRequest: (request: GenerationRequest) => void;
+  isLoading: boolean;
+  currentImageFile: File | null;
+}
+
+// Each reference is an extra image part; past a handful the model starts ignoring them.
+export const MAX_REFERENCES = 4;
+const DEFAULT_WEIGHT = 0.7;
+
+const ROLE_LABELS: Record<ReferenceRole, string> = {
+  style: 'Style',
+  subject: 'Subject',
+  composition: 'Layout',
+  palette: 'Palette',
+};
+
+const createSlot = (file: File, role: ReferenceRole = 'style'): ReferenceSlot => ({
+  id: `ref-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  file,
+  role,
+  weight: DEFAULT_WEIGHT,
+});
+
+const Thumbnail: React.FC<{ file: File }> = ({ file }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+  return url ? <img src={url} alt={file.name} className="w-full h-full object-cover" /> : null;
+};
+
+export const ReferencePanel: React.FC<ReferencePanelProps> = ({ references, onChange, onRequest, isLoading, currentImageFile }) => {
+  const [prompt, setPrompt] = useState('');
+  const [aspectRatio, setAspectRatio] = useState('1:1');
+
+  const isFull = references.length >= MAX_REFERENCES;
+  const canGenerate = !isLoading && references.length > 0 && !!prompt.trim();
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).filter(f => f.type.startsWith('image/'));
+    e.target.value = '';
+    if (files.length === 0) return;
+    onChange([...references, ...files.map(f => createSlot(f))].slice(0, MAX_REFERENCES));
+  };
+
+  const update = (id: string, patch: Partial<ReferenceSlot>) => {
+    onChange(references.map(ref => (ref.id === id ? { ...ref, ...patch } : ref)));
+  };
+
+  const handleGenerate = (forceNew: boolean) => {
+    if (!canGenerate) return;
+    onRequest({
+      type: 'flux',
+      prompt: prompt.trim(),
+      forceNew,
+      aspectRatio,
+      references: references.map(({ file, role, weight }) => ({ file, role, weight })),
+    });
+  };
+
+  return (
+    <div className="flex flex-col h-full relative bg-[#050505]">
+      {isLoading && <PanelScanner />}
+      <div className="absolute top-0 left-0 w-full h-[1px] bg-gradient-to-r from-[#DB24E3] to-[#54A970] z-20 opacity-50"></div>
+
+      <div className="sticky top-0 z-30 p-4 sm:p-6 border-b border-[#1A1A1A] bg-[#050505]/95 backdrop-blur-md shadow-xl">
+        <div className="flex justify-between items-center pb-2 border-b-2 border-[#DB24E3]/30">
+          <h3 className="text-xl font-black italic tracking-tighter text-white uppercase" style={{fontFamily: 'Koulen'}}>
+            References
+          </h3>
+          <span className="text-xs font-mono text-gray-500">{references.length}/{MAX_REFERENCES}</span>
+        </div>
+        <p className="mt-2 text-gray-500 text-[10px] font-bold uppercase tracking-widest">
+          Guide generation with example images. Each one has a role and a weight.
+        </p>
+      </div>
+
+      <div className="p-4 sm:p-6 overflow-y-auto custom-scrollbar flex flex-col gap-4">
+        <div className="flex gap-2">
+          <label className={`flex-1 py-2 text-[10px] font-bold uppercase tracking-widest border border-[#222] text-gray-400 flex items-center justify-center gap-1 transition-colors ${isFull || isLoading ? 'opacity-30 cursor-not-allowed' : 'hover:text-white hover:border-gray-500 cursor-pointer'}`}>
+            <UploadIcon className="w-4 h-4" /> Add Images
+            <input type="file" accept="image/*" multiple className="hidden" onChange={handleFiles} disabled={isFull || isLoading} />
+          </label>
+          <button
+            onClick={() => currentImageFile && onChange([...references, createSlot(currentImageFile)])}
+            disabled={isFull || isLoading || !currentImageFile}
+            className="flex-1 py-2 text-[10px] font-bold uppercase tracking-widest border border-[#222] text-gray-400 hover:text-white hover:border-gray-500 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            Use Current Image
+          </button>
+        </div>
+
+        {references.length === 0 && (
+          <p className="text-xs font-mono text-gray-600 text-center py-6 border border-dashed border-[#222]">No reference images yet.</p>
+        )}
+
+        {references.map((ref, i) => (
+          <div key={ref.id} className="flex gap-3 bg-[#000000] border border-[#222] p-2">
+            <div className="relative w-20 h-20 flex-shrink-0 bg-[#111] overflow-hidden">
+              <Thumbnail file={ref.file} />
+              <span className="absolute top-0 left-0 px-1 bg-black/80 text-[10px] font-mono text-white">{i + 1}</span>
+            </div>
+            <div className="flex-1 min-w-0 flex flex-col gap-2">
+              <div className="flex justify-between items-start gap-2">
+                <div className="flex gap-1 flex-wrap">
+                  {REFERENCE_ROLES.map(role => (
+                    <button
+                      key={role}
+                      onClick={() => update(ref.id, { role })}
+                      disabled={isLoading}
+                      className={`px-2 py-1 text-[10px] font-bold uppercase tracking-widest border transition-colors ${ref.role === role ? 'border-[#DB24E3] text-white bg-[#DB24E3]/20' : 'border-[#222] text-gray-500 hover:text-white'}`}
+                    >
+                      {ROLE_LABELS[role]}
+                    </button>
+                  ))}
+                </div>
+                <button onClick={() => onChange(references.filter(r => r.id !== ref.id))} disabled={isLoading} className="text-gray-500 hover:text-white p-1" aria-label="Remove reference">
+                  <XIcon className="w-4 h-4" />
+                </button>
+              </div>
+              <div>
+                <div className="flex justify-between text-[10px] font-bold uppercase tracking-widest text-gray-400 mb-1">
+                  <span>Weight</span>
+                  <span className="text-[#DB24E3]">{Math.round(ref.weight * 100)}%</span>
+                </div>
+                <input
+                  type="range"
+                  min={0.1}
+                  max={1}
+                  step={0.05}
+                  value={ref.weight}
+                  onChange={(e) => update(ref.id, { weight: Number(e.target.value) })}
+                  disabled={isLoading}
+                  className="w-full accent-[#DB24E3]"
+                />
+              </div>
+            </div>
+          </div>
+        ))}
+
+        <textarea
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          rows={3}
+          maxLength={2000}
+          placeholder="Describe the result, e.g. 'a portrait of the subject in the reference style'..."
+          className="w-full bg-[#000000] border border-[#222] focus:border-[#DB24E3] text-white p-3 text-sm font-mono focus:outline-none resize-none placeholder-gray-700"
+          disabled={isLoading}
+        />
+
+        <select
+          value={aspectRatio}
+          onChange={(e) => setAspectRatio(e.target.value)}
+          className="w-full h-10 bg-[#0A0A0A] border border-[#222] text-white text-xs font-bold uppercase px-2 outline-none focus:border-[#54A970] cursor-pointer"
+          disabled={isLoading}
+        >
+          <option value="1:1">1:1 Square</option>
+          <option value="16:9">16:9 Wide</option>
+          <option value="9:16">9:16 Tall</option>
+          <option value="4:3">4:3 Retro</option>
+          <option value="3:4">3:4 Portrait</option>
+        </select>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleGenerate(false)}
+            disabled={!canGenerate || !currentImageFile}
+            className="flex-1 py-3 text-[10px] font-bold uppercase tracking-widest border border-[#54A970] text-[#54A970] hover:bg-[#54A970] hover:text-black transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            Apply to Image
+          </button>
+          <button
+            onClick={() => handleGenerate(true)}
+            disabled={!canGenerate}
+            className="flex-1 py-3 text-[10px] font-bold uppercase tracking-widest border border-[#DB24E3] text-[#DB24E3] hover:bg-[#DB24E3] hover:text-black transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            Generate New
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
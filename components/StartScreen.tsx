@@ -5,13 +5,14 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { ActiveTab } from '../App';
-import { SparklesIcon, ArrowRightIcon, BoltIcon, PlayIcon, PaletteIcon, ZapIcon } from './icons';
+import { SparklesIcon, ArrowRightIcon, BoltIcon, PlayIcon, PaletteIcon, ZapIcon, LayersIcon } from './icons';
 
 interface StartScreenProps {
   onStart: (tab?: ActiveTab) => void;
+  onOpenProjects: () => void;
 }
 
-export const StartScreen: React.FC<StartScreenProps> = ({ onStart }) => {
+export const StartScreen: React.FC<StartScreenProps> = ({ onStart, onOpenProjects }) => {
   const [isVisible, setIsVisible] = useState(false);
 
   useEffect(() => {
@@ -56,7 +57,7 @@ export const StartScreen: React.FC<StartScreenProps> = ({ onStart }) => {
           </div>
         </div>
 
-        <div className={`relative mb-12 transition-all duration-700 delay-300 ${isVisible ? 'translate-y-0 opacity-100' : 'translate-y-8 opacity-0'}`}>
+        <div className={`relative mb-12 flex flex-col items-center w-full max-w-md transition-all duration-700 delay-300 ${isVisible ? 'translate-y-0 opacity-100' : 'translate-y-8 opacity-0'}`}>
           <button
             onClick={handleMainLaunch}
             className="group btn-sakuga w-full max-w-md h-16 bg-gradient-to-r from-black to-black border-red-500/50 text-white px-8 uppercase font-bold tracking-widest hover:border-red-400 hover:shadow-[0_0_60px_rgba(248,19,13,0.6)]"
@@ -68,6 +69,13 @@ export const StartScreen: React.FC<StartScreenProps> = ({ onStart }) => {
               <ArrowRightIcon className="w-5 h-5 text-red-400 opacity-0 group-hover:opacity-100 group-hover:translate-x-2 transition-all duration-300" />
             </div>
           </button>
+          <button
+            onClick={onOpenProjects}
+            className="mt-4 w-full max-w-md flex items-center justify-center gap-2 py-2 text-xs font-mono uppercase tracking-widest text-gray-400 border border-gray-800 hover:text-white hover:border-red-500/50 transition-colors"
+          >
+            <LayersIcon className="w-4 h-4" />
+            Open Project
+          </button>
         </div>
 
         <div className={`w-full max-w-4xl transition-all duration-700 delay-500 ${ isVisible ? 'translate-y-0 opacity-100' : 'translate-y-8 opacity-0' }`}>
@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { getStorageReport, collectGarbage, StorageReport, STORAGE_WARNING_RATIO } from '../services/persistence';
+import { CollapsibleSection } from './CollapsibleSection';
+import { XIcon, DatabaseIcon } from './icons';
+
+interface StorageManagerProps {
+    isOpen: boolean;
+    activeProjectId: string;
+    // Nodes a prune of the open project would remove, and how many are protected by stars.
+    prunableCount: number;
+    starredCount: number;
+    onPrune: () => void;
+    onClose: () => void;
+}
+
+const ASSET_LIST_LIMIT = 50;
+
+const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+export const StorageManager: React.FC<StorageManagerProps> = ({ isOpen, activeProjectId, prunableCount, starredCount, onPrune, onClose }) => {
+    const [report, setReport] = useState<StorageReport | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            setReport(await getStorageReport());
+        } catch (e: any) {
+            setMessage(`Could not read storage: ${e?.message ?? e}`);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (isOpen) {
+            setMessage(null);
+            refresh();
+        }
+    }, [isOpen, refresh]);
+
+    const handleCollect = async () => {
+        setIsBusy(true);
+        try {
+            const { deletedAssets, freedBytes } = await collectGarbage();
+            setMessage(deletedAssets > 0 ? `Removed ${deletedAssets} orphaned assets (${formatBytes(freedBytes)}).` : 'No orphaned assets found.');
+            await refresh();
+        } catch (e: any) {
+            setMessage(`Garbage collection failed: ${e?.message ?? e}`);
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handlePrune = () => {
+        const starNote = starredCount > 0 ? ` ${starredCount} starred results and the images they came from are kept.` : ' Star results in the History tab to keep them.';
+        if (!window.confirm(`Remove ${prunableCount} history entries that are not on the current branch?${starNote}`)) return;
+        onPrune();
+        setMessage(`Pruned ${prunableCount} history entries.`);
+        // The autosave that follows the prune deletes the nodes and their unshared assets.
+        setTimeout(refresh, 1000);
+    };
+
+    if (!isOpen) return null;
+
+    const estimate = report?.estimate ?? null;
+    const ratio = estimate ? estimate.usage / estimate.quota : 0;
+    const projectNames = new Map(report?.projects.map(p => [p.id, p.name]) ?? []);
+
+    return (
+        <div className="fixed inset-0 z-[10000] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-[#050505] border-2 border-[#333] p-4 sm:p-6 relative shadow-[0_0_50px_rgba(0,0,0,0.8)] w-full max-w-2xl max-h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <button onClick={onClose} className="absolute top-3 right-3 text-gray-500 hover:text-white transition-colors p-1 rounded-sm z-20" aria-label="Close storage manager">
+                    <XIcon className="w-6 h-6" />
+                </button>
+                <h3 className="text-xl font-black italic tracking-tighter text-white uppercase mb-4 flex items-center gap-2" style={{fontFamily: 'Koulen'}}>
+                    <DatabaseIcon className="w-5 h-5 text-red-400" />
+                    Storage
+                </h3>
+
+                <div className="mb-4">
+                    {estimate ? (
+                        <>
+                            <div className="flex justify-between text-[10px] font-mono uppercase text-gray-400 mb-1">
+                                <span>{formatBytes(estimate.usage)} used</span>
+                                <span>{formatBytes(estimate.quota)} available to this app</span>
+                            </div>
+                            <div className="h-2 bg-[#111] border border-[#222]">
+                                <div className={`h-full ${ratio >= STORAGE_WARNING_RATIO ? 'bg-red-500' : 'bg-[#54A970]'}`} style={{ width: `${Math.min(100, ratio * 100)}%` }} />
+                            </div>
+                            {ratio >= STORAGE_WARNING_RATIO && (
+                                <p className="mt-2 text-xs text-red-400 font-mono">Storage is almost full. New results may fail to save.</p>
+                            )}
+                        </>
+                    ) : (
+                        <p className="text-xs text-gray-500 font-mono">This browser does not report a storage quota.</p>
+                    )}
+                </div>
+
+                <div className="flex flex-wrap gap-2 mb-4">
+                    <button onClick={handleCollect} disabled={isBusy} className="px-3 py-2 text-[10px] font-bold uppercase tracking-widest border border-[#54A970] text-[#54A970] hover:bg-[#54A970] hover:text-black transition-colors disabled:opacity-30">
+                        Collect Garbage{report && report.orphanedBytes > 0 ? ` (${formatBytes(report.orphanedBytes)})` : ''}
+                    </button>
+                    <button onClick={handlePrune} disabled={isBusy || prunableCount === 0} className="px-3 py-2 text-[10px] font-bold uppercase tracking-widest border border-[#DB24E3] text-[#DB24E3] hover:bg-[#DB24E3] hover:text-black transition-colors disabled:opacity-30" title="Keep only the current branch and starred results in the open project">
+                        Prune Branches ({prunableCount})
+                    </button>
+                </div>
+
+                {message && <p className="mb-3 text-xs text-gray-300 font-mono">{message}</p>}
+
+                <div className="flex-1 overflow-y-auto custom-scrollbar">
+                    <CollapsibleSection title="Projects">
+                        <ul className="divide-y divide-[#1A1A1A]">
+                            {report?.projects.map(project => (
+                                <li key={project.id} className="py-2 flex justify-between gap-3 text-xs font-mono">
+                                    <span className={`truncate ${project.id === activeProjectId ? 'text-red-300' : 'text-white'}`}>{project.name}</span>
+                                    <span className="text-gray-500 flex-shrink-0">{project.nodeCount} entries • {formatBytes(project.bytes)}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </CollapsibleSection>
+                    <CollapsibleSection title={`Assets (${report?.assets.length ?? 0})`}>
+                        <ul className="divide-y divide-[#1A1A1A]">
+                            {report?.assets.slice(0, ASSET_LIST_LIMIT).map(asset => (
+                                <li key={asset.hash} className="py-2 flex justify-between gap-3 text-xs font-mono">
+                                    <span className="truncate text-gray-300" title={asset.hash}>
+                                        {asset.type || 'unknown'} • {asset.projectIds.length === 0
+                                            ? <span className="text-red-400">orphaned</span>
+                                            : asset.projectIds.map(id => projectNames.get(id) ?? id).join(', ')}
+                                    </span>
+                                    <span className="text-gray-500 flex-shrink-0">{formatBytes(asset.size)}</span>
+                                </li>
+                            ))}
+                        </ul>
+                        {report && report.assets.length > ASSET_LIST_LIMIT && (
+                            <p className="pt-2 text-[10px] text-gray-600 font-mono uppercase">Showing the {ASSET_LIST_LIMIT} largest assets.</p>
+                        )}
+                    </CollapsibleSection>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -7,6 +7,7 @@ import React, { useState, useCallback, useEffect } from 'react';
 import { StyleExtractorIcon, CopyIcon, SendIcon, AlertIcon, CheckIcon } from './icons';
 import { extractStyleFromImage } from '../services/geminiService';
 import { PanelScanner } from './Spinner';
+import { GenerationError, FileAccessError } from '../services/errors';
 
 interface StyleExtractorPanelProps {
   isLoading: boolean;
@@ -49,7 +50,13 @@ export const StyleExtractorPanel: React.FC<StyleExtractorPanelProps> = ({
       }
     } catch (e) {
       console.error('Style extraction failed:', e);
-      setError("Failed to extract style. The service may be unavailable or the image format is not supported.");
+      if (e instanceof FileAccessError) {
+        setError("The browser lost access to this image. Please re-upload it and try again.");
+      } else if (e instanceof GenerationError && e.retryable) {
+        setError(`${e.title}: ${e.message}`);
+      } else {
+        setError("Failed to extract style. The service may be unavailable or the image format is not supported.");
+      }
     } finally {
       setIsExtracting(false);
     }
@@ -4,11 +4,12 @@
 */
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { SettingsIcon, XIcon } from './icons';
+import { SettingsIcon, XIcon, DatabaseIcon } from './icons';
 
 interface SystemConfigWidgetProps {
   onSoftFix: () => void;
   onHardFix: () => void;
+  onOpenStorage: () => void;
 }
 
 interface Position {
@@ -18,7 +19,8 @@ interface Position {
 
 export const SystemConfigWidget: React.FC<SystemConfigWidgetProps> = ({ 
   onSoftFix, 
-  onHardFix 
+  onHardFix,
+  onOpenStorage
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [position, setPosition] = useState<Position>(() => {
@@ -364,6 +366,24 @@ export const SystemConfigWidget: React.FC<SystemConfigWidgetProps> = ({
         </p>
         
         <div className="space-y-3">
+          <button
+            onClick={() => handleButtonClick(onOpenStorage)}
+            className="w-full text-left p-3 bg-gradient-to-r from-gray-900 to-gray-800 hover:from-blue-900/50 hover:to-blue-800/50 border border-gray-700 hover:border-blue-500/50 rounded transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-transparent group"
+            aria-label="Open storage manager"
+          >
+            <div className="flex items-start gap-3">
+              <DatabaseIcon className="w-4 h-4 mt-0.5 text-blue-400" aria-hidden="true" />
+              <div className="flex-1">
+                <h4 className="font-bold text-xs text-blue-400 uppercase mb-1">
+                  Storage Manager
+                </h4>
+                <p className="text-[10px] text-gray-400 leading-tight">
+                  See usage per project, free orphaned files and prune old branches.
+                </p>
+              </div>
+            </div>
+          </button>
+
           <button
             onClick={() => handleButtonClick(onSoftFix)}
             className="w-full text-left p-3 bg-gradient-to-r from-gray-900 to-gray-800 hover:from-green-900/50 hover:to-green-800/50 border border-gray-700 hover:border-green-500/50 rounded transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 focus:ring-offset-transparent group"
@@ -0,0 +1,261 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { PanelScanner } from './Spinner';
+import { GenerationRequest } from '../App';
+import { HistoryTree, HistoryNode, getNode, getCurrentNode } from '../utils/historyTree';
+import { getVideoDuration } from '../utils/videoFrames';
+import { TimelineClip, MAX_CROSSFADE, MIN_CLIP_LENGTH, getEffectiveCrossfade, getTimelineDuration } from '../utils/videoTimeline';
+import { isVideoNode } from './HistoryThumbnail';
+import { ChevronIcon, PlayIcon, XIcon } from './icons';
+
+interface TimelinePanelProps {
+  tree: HistoryTree;
+  onRequest: (request: GenerationRequest) => void;
+  isLoading: boolean;
+}
+
+// A clip as held in the panel; the id keys the list, since one entry can be added twice.
+interface TimelineSlot extends TimelineClip {
+  id: string;
+  duration: number;
+}
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(1)}s`;
+
+// Only clips held in memory can be decoded; remote video URLs are playback-only.
+const isEditableClip = (node: HistoryNode | null): node is HistoryNode & { media: File } =>
+  !!node && node.media instanceof File && isVideoNode(node);
+
+const ClipPreview: React.FC<{ file: File; start: number; end: number; onTime: (time: number) => void }> = ({ file, start, end, onTime }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  // Jump to the in point whenever it moves, so the preview shows the trimmed clip.
+  useEffect(() => {
+    const el = videoRef.current;
+    if (el && el.readyState > 0) el.currentTime = start;
+  }, [start]);
+
+  const handleTimeUpdate = () => {
+    const el = videoRef.current;
+    if (!el) return;
+    if (el.currentTime > end) {
+      el.pause();
+      el.currentTime = end;
+    }
+    onTime(el.currentTime);
+  };
+
+  return url ? (
+    <video
+      ref={videoRef}
+      src={url}
+      controls
+      muted
+      playsInline
+      onLoadedMetadata={(e) => { e.currentTarget.currentTime = start; }}
+      onTimeUpdate={handleTimeUpdate}
+      onSeeked={handleTimeUpdate}
+      className="w-full max-h-48 bg-black"
+    />
+  ) : null;
+};
+
+export const TimelinePanel: React.FC<TimelinePanelProps> = ({ tree, onRequest, isLoading }) => {
+  const [clips, setClips] = useState<TimelineSlot[]>([]);
+  const [crossfade, setCrossfade] = useState(0.5);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [playhead, setPlayhead] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const current = getCurrentNode(tree);
+  // Clips whose entry was pruned from history drop out of the edit.
+  const liveClips = useMemo(() => clips.filter(clip => isEditableClip(getNode(tree, clip.nodeId))), [clips, tree]);
+  const selected = liveClips.find(clip => clip.id === selectedId) ?? null;
+  const selectedNode = selected ? getNode(tree, selected.nodeId) : null;
+
+  const spec = useMemo(() => ({
+    clips: liveClips.map(({ nodeId, start, end }) => ({ nodeId, start, end })),
+    crossfade,
+  }), [liveClips, crossfade]);
+  const totalDuration = getTimelineDuration(spec);
+  const effectiveCrossfade = getEffectiveCrossfade(spec);
+
+  const handleAddCurrent = async () => {
+    if (!isEditableClip(current)) return;
+    setError(null);
+    try {
+      const duration = await getVideoDuration(current.media);
+      const slot: TimelineSlot = {
+        id: `clip-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        nodeId: current.id,
+        start: 0,
+        end: duration,
+        duration,
+      };
+      setClips(prev => [...prev, slot]);
+      setSelectedId(slot.id);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const update = (id: string, patch: Partial<TimelineSlot>) => {
+    setClips(prev => prev.map(clip => (clip.id === id ? { ...clip, ...patch } : clip)));
+  };
+
+  const setStart = (clip: TimelineSlot, value: number) => update(clip.id, { start: Math.max(0, Math.min(value, clip.end - MIN_CLIP_LENGTH)) });
+  const setEnd = (clip: TimelineSlot, value: number) => update(clip.id, { end: Math.min(clip.duration, Math.max(value, clip.start + MIN_CLIP_LENGTH)) });
+
+  const move = (index: number, delta: number) => {
+    setClips(prev => {
+      const next = [...prev];
+      const target = index + delta;
+      if (target < 0 || target >= next.length) return prev;
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleGrabFrame = () => {
+    if (!selected) return;
+    onRequest({ type: 'timeline', frameGrab: { nodeId: selected.nodeId, time: playhead } });
+  };
+
+  const handleExport = () => {
+    if (isLoading || liveClips.length === 0) return;
+    onRequest({ type: 'timeline', timeline: spec });
+  };
+
+  return (
+    <div className="flex flex-col h-full relative bg-[#050505]">
+      {isLoading && <PanelScanner />}
+      <div className="absolute top-0 left-0 w-full h-[1px] bg-gradient-to-r from-[#DB24E3] to-[#54A970] z-20 opacity-50"></div>
+
+      <div className="sticky top-0 z-30 p-4 sm:p-6 border-b border-[#1A1A1A] bg-[#050505]/95 backdrop-blur-md shadow-xl">
+        <div className="flex justify-between items-center pb-2 border-b-2 border-[#DB24E3]/30">
+          <h3 className="text-xl font-black italic tracking-tighter text-white uppercase" style={{fontFamily: 'Koulen'}}>
+            Timeline
+          </h3>
+          <button
+            onClick={handleExport}
+            disabled={isLoading || liveClips.length === 0}
+            className="px-4 py-2 text-[10px] font-bold uppercase tracking-widest border border-[#54A970] text-[#54A970] hover:bg-[#54A970] hover:text-black transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            Export
+          </button>
+        </div>
+        <p className="mt-2 text-gray-500 text-[10px] font-bold uppercase tracking-widest">
+          Trim and join clips into one video. Export plays the edit through once, in real time.
+        </p>
+      </div>
+
+      <div className="p-4 sm:p-6 overflow-y-auto custom-scrollbar flex flex-col gap-4">
+        <button
+          onClick={handleAddCurrent}
+          disabled={isLoading || !isEditableClip(current)}
+          className="py-2 text-[10px] font-bold uppercase tracking-widest border border-[#222] text-gray-400 hover:text-white hover:border-gray-500 transition-colors disabled:opacity-30 disabled:cursor-not-allowed flex items-center justify-center gap-1"
+        >
+          <PlayIcon className="w-4 h-4" /> Add Current Clip
+        </button>
+        {error && <p className="text-xs font-mono text-red-500">{error}</p>}
+
+        {liveClips.length === 0 && (
+          <p className="text-xs font-mono text-gray-600 text-center py-6 border border-dashed border-[#222]">
+            Select a video in history, then add it here.
+          </p>
+        )}
+
+        {liveClips.map((clip, i) => (
+          <div
+            key={clip.id}
+            className={`bg-[#000000] border p-2 flex flex-col gap-2 ${clip.id === selectedId ? 'border-[#DB24E3]' : 'border-[#222]'}`}
+          >
+            <div className="flex items-center gap-2">
+              <button onClick={() => setSelectedId(clip.id)} className="flex-1 text-left text-xs font-mono text-gray-300 hover:text-white">
+                <span className="text-gray-500 mr-2">{i + 1}</span>
+                {formatSeconds(clip.start)} – {formatSeconds(clip.end)}
+                <span className="text-gray-500"> ({formatSeconds(clip.end - clip.start)})</span>
+              </button>
+              <button onClick={() => move(clips.indexOf(clip), -1)} disabled={isLoading || i === 0} className="text-gray-500 hover:text-white p-1 disabled:opacity-30" aria-label="Move clip earlier">
+                <ChevronIcon className="w-4 h-4 rotate-180" />
+              </button>
+              <button onClick={() => move(clips.indexOf(clip), 1)} disabled={isLoading || i === liveClips.length - 1} className="text-gray-500 hover:text-white p-1 disabled:opacity-30" aria-label="Move clip later">
+                <ChevronIcon className="w-4 h-4" />
+              </button>
+              <button onClick={() => setClips(prev => prev.filter(c => c.id !== clip.id))} disabled={isLoading} className="text-gray-500 hover:text-white p-1" aria-label="Remove clip">
+                <XIcon className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-2 text-[10px] font-bold uppercase tracking-widest text-gray-400">
+              <label className="flex flex-col gap-1">
+                In
+                <input type="range" min={0} max={clip.duration} step={0.1} value={clip.start} onChange={(e) => setStart(clip, Number(e.target.value))} disabled={isLoading} className="w-full accent-[#DB24E3]" />
+              </label>
+              <label className="flex flex-col gap-1">
+                Out
+                <input type="range" min={0} max={clip.duration} step={0.1} value={clip.end} onChange={(e) => setEnd(clip, Number(e.target.value))} disabled={isLoading} className="w-full accent-[#DB24E3]" />
+              </label>
+            </div>
+          </div>
+        ))}
+
+        {selected && isEditableClip(selectedNode) && (
+          <div className="flex flex-col gap-2">
+            <ClipPreview file={selectedNode.media} start={selected.start} end={selected.end} onTime={setPlayhead} />
+            <div className="flex gap-2">
+              <button onClick={() => setStart(selected, playhead)} disabled={isLoading} className="flex-1 py-2 text-[10px] font-bold uppercase tracking-widest border border-[#222] text-gray-400 hover:text-white transition-colors disabled:opacity-30">
+                Set In
+              </button>
+              <button onClick={() => setEnd(selected, playhead)} disabled={isLoading} className="flex-1 py-2 text-[10px] font-bold uppercase tracking-widest border border-[#222] text-gray-400 hover:text-white transition-colors disabled:opacity-30">
+                Set Out
+              </button>
+              <button onClick={handleGrabFrame} disabled={isLoading} className="flex-1 py-2 text-[10px] font-bold uppercase tracking-widest border border-[#DB24E3] text-[#DB24E3] hover:bg-[#DB24E3] hover:text-black transition-colors disabled:opacity-30">
+                Grab Frame
+              </button>
+            </div>
+            <p className="text-[10px] font-mono text-gray-500">Playhead {formatSeconds(playhead)}. Grabbed frames land in history as images.</p>
+          </div>
+        )}
+
+        {liveClips.length > 1 && (
+          <div>
+            <div className="flex justify-between text-[10px] font-bold uppercase tracking-widest text-gray-400 mb-1">
+              <span>Crossfade</span>
+              <span className="text-[#DB24E3]">{formatSeconds(effectiveCrossfade)}</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={MAX_CROSSFADE}
+              step={0.1}
+              value={crossfade}
+              onChange={(e) => setCrossfade(Number(e.target.value))}
+              disabled={isLoading}
+              className="w-full accent-[#DB24E3]"
+            />
+            {effectiveCrossfade < crossfade && (
+              <p className="mt-1 text-[10px] font-mono text-yellow-500">Limited to half the shortest clip.</p>
+            )}
+          </div>
+        )}
+
+        {liveClips.length > 0 && (
+          <div className="bg-[#000000] border border-[#222] p-3 text-xs font-mono text-gray-400">
+            {liveClips.length} clip{liveClips.length === 1 ? '' : 's'} → {formatSeconds(totalDuration)}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -484,14 +484,11 @@ const TypographicPanel: React.FC<TypographicPanelProps> = ({
   }, [selectedPreset, userInput, selectedBackground, preparePrompt]);
 
   const handleGenerate = useCallback(() => {
-    if (hasImage && !window.confirm("This will start a new session and clear your current image and history. Are you sure?")) {
-      return;
-    }
     if (!selectedPreset || !userInput.trim()) return;
     
     const finalPrompt = buildFinalPrompt(false);
     onRequest({ type: 'typography', prompt: finalPrompt, forceNew: true, aspectRatio });
-  }, [hasImage, selectedPreset, userInput, buildFinalPrompt, onRequest, aspectRatio]);
+  }, [selectedPreset, userInput, buildFinalPrompt, onRequest, aspectRatio]);
   
   const handleApply = useCallback(() => {
     if (!selectedPreset || !userInput.trim() || !hasImage) return;
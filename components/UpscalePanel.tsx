@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import { PanelScanner } from './Spinner';
+import { GenerationRequest } from '../App';
+import { useImageSize } from '../hooks/useImageSize';
+import { UpscaleFactor, UpscaleMethod, UPSCALE_FACTORS, canUpscale, getUpscaledSize, planUpscaleTiles } from '../utils/upscale';
+
+interface UpscalePanelProps {
+  onRequest: (request: GenerationRequest) => void;
+  isLoading: boolean;
+  currentImageFile: File | null;
+}
+
+const useOnline = () => {
+  const [online, setOnline] = useState(navigator.onLine);
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+  return online;
+};
+
+export const UpscalePanel: React.FC<UpscalePanelProps> = ({ onRequest, isLoading, currentImageFile }) => {
+  const [factor, setFactor] = useState<UpscaleFactor>(2);
+  const [method, setMethod] = useState<UpscaleMethod>('ai');
+  const size = useImageSize(currentImageFile);
+  const online = useOnline();
+
+  const fits = !!size && canUpscale(size.width, size.height, factor);
+  const target = size ? getUpscaledSize(size.width, size.height, factor) : null;
+  const tileCount = size ? planUpscaleTiles(size.width, size.height, factor).tiles.length : 0;
+  const canApply = !isLoading && !!currentImageFile && fits;
+
+  const toggleClass = (active: boolean) =>
+    `flex-1 py-2 text-[10px] font-bold uppercase tracking-widest border transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${active ? 'border-[#DB24E3] text-white bg-[#DB24E3]/20' : 'border-[#222] text-gray-400 hover:text-white'}`;
+
+  return (
+    <div className="flex flex-col h-full relative bg-[#050505]">
+      {isLoading && <PanelScanner />}
+      <div className="absolute top-0 left-0 w-full h-[1px] bg-gradient-to-r from-[#DB24E3] to-[#54A970] z-20 opacity-50"></div>
+
+      <div className="sticky top-0 z-30 p-4 sm:p-6 border-b border-[#1A1A1A] bg-[#050505]/95 backdrop-blur-md shadow-xl">
+        <div className="flex justify-between items-center pb-2 border-b-2 border-[#DB24E3]/30">
+          <h3 className="text-xl font-black italic tracking-tighter text-white uppercase" style={{fontFamily: 'Koulen'}}>
+            Upscale
+          </h3>
+          <button
+            onClick={() => canApply && onRequest({ type: 'upscale', upscale: { factor, method } })}
+            disabled={!canApply}
+            className="px-4 py-2 text-[10px] font-bold uppercase tracking-widest border border-[#54A970] text-[#54A970] hover:bg-[#54A970] hover:text-black transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            Upscale
+          </button>
+        </div>
+        <p className="mt-2 text-gray-500 text-[10px] font-bold uppercase tracking-widest">
+          Raises resolution while keeping the picture unchanged.
+        </p>
+      </div>
+
+      <div className="p-4 sm:p-6 overflow-y-auto custom-scrollbar flex flex-col gap-5">
+        <div>
+          <h4 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-2">Factor</h4>
+          <div className="flex gap-2">
+            {UPSCALE_FACTORS.map(f => (
+              <button
+                key={f}
+                onClick={() => setFactor(f)}
+                disabled={isLoading || (!!size && !canUpscale(size.width, size.height, f))}
+                className={toggleClass(factor === f)}
+              >
+                {f}x
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-2">Method</h4>
+          <div className="flex gap-2">
+            <button onClick={() => setMethod('ai')} disabled={isLoading} className={toggleClass(method === 'ai')}>AI Tiles</button>
+            <button onClick={() => setMethod('local')} disabled={isLoading} className={toggleClass(method === 'local')}>Local Lanczos</button>
+          </div>
+          <p className="mt-2 text-[10px] font-mono text-gray-500">
+            {method === 'ai'
+              ? 'Each overlapping tile is re-rendered by the model, then blended back together. Adds real detail; uses one generation per tile.'
+              : 'Sharp mathematical resample, computed on this device. Works offline and never alters content.'}
+          </p>
+          {method === 'ai' && !online && (
+            <p className="mt-2 text-[10px] font-bold uppercase tracking-widest text-yellow-500">
+              Offline: this will run as Local Lanczos.
+            </p>
+          )}
+        </div>
+
+        {size && target && (
+          <div className="bg-[#000000] border border-[#222] p-3 text-xs font-mono text-gray-400 flex flex-col gap-1">
+            <span>{size.width} × {size.height} → <span className={fits ? 'text-white' : 'text-red-500'}>{target.width} × {target.height} px</span></span>
+            {method === 'ai' && <span>{tileCount} tile{tileCount === 1 ? '' : 's'}</span>}
+            {!fits && <span className="text-red-500">Too large for this device; choose 2x or crop first.</span>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -3,10 +3,12 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { BoltIcon, PlayIcon, InfinityIcon, ShieldOffIcon, ZapIcon, SparklesIcon } from './icons';
 import { GenerationRequest } from '../App';
-import { refineImagePrompt } from '../services/geminiService';
+import { refineImagePrompt, getVideoCapabilities } from '../services/geminiService';
+import { resolveVideoSettings } from '../services/videoSettings';
+import type { VideoResolution } from '../services/imageProvider';
 
 const formatTime = (seconds: number) => {
   const minutes = Math.floor(seconds / 60).toString().padStart(2, '0');
@@ -44,6 +46,9 @@ export const VideoPanel: React.FC<VideoPanelProps> = ({
   const [videoDuration, setVideoDuration] = useState(5);
   const [videoFps, setVideoFps] = useState(60);
   const [motionStrength, setMotionStrength] = useState(0.8);
+  const [resolution, setResolution] = useState<VideoResolution>('720p');
+  const [negativePrompt, setNegativePrompt] = useState('');
+  const [localFallback, setLocalFallback] = useState(true);
   const [isRefining, setIsRefining] = useState(false);
   const [elapsedTime, setElapsedTime] = useState(0);
   const [currentLoadingMessage, setCurrentLoadingMessage] = useState(loadingMessages[0]);
@@ -127,11 +132,26 @@ export const VideoPanel: React.FC<VideoPanelProps> = ({
         duration: videoDuration,
         fps: videoFps,
         motionStrength: motionStrength,
-        seed: Date.now(),
+        resolution,
+        negativePrompt: negativePrompt.trim() || undefined,
+        localFallback,
+        // Video models take an unsigned 32-bit seed.
+        seed: Math.floor(Math.random() * 2 ** 32),
       });
       setShowConfirmation(false);
     }
-  }, [prompt, hasImage, showConfirmation, onRequest, aspectRatio, videoDuration, videoFps, motionStrength]);
+  }, [prompt, hasImage, showConfirmation, onRequest, aspectRatio, videoDuration, videoFps, motionStrength, resolution, negativePrompt, localFallback]);
+
+  // What the current model will actually render, so clamped values are visible before generating.
+  const videoCapabilities = useMemo(() => getVideoCapabilities(), []);
+  const { adjustments } = useMemo(() => resolveVideoSettings({
+    aspectRatio,
+    durationSeconds: videoDuration,
+    fps: videoFps,
+    resolution,
+    motionStrength,
+    negativePrompt,
+  }, videoCapabilities), [videoCapabilities, aspectRatio, videoDuration, videoFps, resolution, motionStrength, negativePrompt]);
 
   const handleUnrestrictedMode = useCallback(() => {
     setMotionStrength(1.0);
@@ -391,6 +411,70 @@ export const VideoPanel: React.FC<VideoPanelProps> = ({
               </select>
             </div>
           </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-mono uppercase text-gray-400 mb-2">
+                Resolution
+              </label>
+              <div className="flex gap-1">
+                {(['720p', '1080p'] as VideoResolution[]).map(res => (
+                  <button
+                    key={res}
+                    type="button"
+                    onClick={() => setResolution(res)}
+                    className={`flex-1 py-2 text-xs font-mono font-bold uppercase rounded-sm transition-all ${resolution === res ? 'bg-gradient-to-r from-red-600 to-yellow-600 text-white border border-red-500' : 'bg-[#0A0A0A] border border-[#333] text-gray-400 hover:text-white hover:border-red-500/50'}`}
+                    disabled={isLoading}
+                    aria-label={`${res} resolution`}
+                  >
+                    {res}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-xs font-mono uppercase text-gray-400 mb-2">
+                Negative Prompt
+              </label>
+              <input
+                type="text"
+                value={negativePrompt}
+                onChange={(e) => setNegativePrompt(e.target.value)}
+                maxLength={500}
+                placeholder="What to avoid, e.g. 'blur, text, watermark'"
+                className="w-full h-[42px] bg-[#0A0A0A] border border-[#333] text-white text-xs font-mono p-2 outline-none focus:border-red-500 transition-colors rounded-sm placeholder-gray-600"
+                disabled={isLoading}
+                aria-label="Negative prompt"
+              />
+            </div>
+          </div>
+
+          {hasImage && (
+            <label className="flex items-start gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={localFallback}
+                onChange={(e) => setLocalFallback(e.target.checked)}
+                disabled={isLoading}
+                className="mt-0.5 accent-red-500"
+              />
+              <span className="text-xs font-mono text-gray-400">
+                <span className="uppercase text-gray-300">Local fallback</span> — if the video model is out of quota or offline, animate the image on this device with a pan, zoom and parallax move instead.
+              </span>
+            </label>
+          )}
+
+          {adjustments.length > 0 && (
+            <div className="p-3 bg-yellow-900/10 border border-yellow-500/30 rounded-sm" role="status">
+              <p className="text-[10px] font-mono font-bold uppercase tracking-widest text-yellow-400 mb-1">
+                Adjusted to fit the video model
+              </p>
+              <ul className="text-xs font-mono text-yellow-200/80 space-y-0.5">
+                {adjustments.map(line => <li key={line}>{line}</li>)}
+              </ul>
+            </div>
+          )}
         </div>
       </div>
 
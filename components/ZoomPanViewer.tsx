@@ -3,8 +3,9 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useLayoutEffect, useMemo, useCallback, createContext, useContext } from 'react';
 import { DragIcon } from './icons';
+import { Viewport, Point, Size, clampZoom, getFitRect, getCssTransform, getScreenScale, clientToScreen, clientToImage, zoomAt } from '../utils/viewport';
 
 interface ZoomPanViewerProps {
     src: string;
@@ -13,11 +14,28 @@ interface ZoomPanViewerProps {
     children?: React.ReactNode; 
 }
 
+export interface ViewerViewport {
+    viewport: Viewport;
+    // Screen pixels per image pixel at the current zoom.
+    scale: number;
+    // Maps pointer event coordinates to image pixels.
+    clientToImage: (clientX: number, clientY: number) => Point;
+}
+
+const ViewportContext = createContext<ViewerViewport | null>(null);
+
+// The enclosing viewer's image mapping, or null outside a viewer or before the media has loaded.
+export const useViewerViewport = () => useContext(ViewportContext);
+
 export const ZoomPanViewer: React.FC<ZoomPanViewerProps> = ({ src, mimeType, className, children }) => {
     const [scale, setScale] = useState(1);
     const [position, setPosition] = useState({ x: 0, y: 0 });
     const [isDragging, setIsDragging] = useState(false);
     const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
+    const [containerSize, setContainerSize] = useState<Size>({ width: 0, height: 0 });
+    // Keyed by src so a stale size never applies to the next image.
+    const [loadedMedia, setLoadedMedia] = useState<{ src: string; size: Size } | null>(null);
+    const mediaSize = loadedMedia?.src === src ? loadedMedia.size : null;
     
     // Pinch Zoom State
     const [initialPinchDist, setInitialPinchDist] = useState<number | null>(null);
@@ -30,13 +48,51 @@ export const ZoomPanViewer: React.FC<ZoomPanViewerProps> = ({ src, mimeType, cla
                     src?.toLowerCase().includes('.mp4') || 
                     src?.toLowerCase().includes('googlevideo.com');
 
+    useLayoutEffect(() => {
+        const el = containerRef.current;
+        if (!el) return;
+        const observer = new ResizeObserver(([entry]) => {
+            setContainerSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+        });
+        observer.observe(el);
+        return () => observer.disconnect();
+    }, []);
+
+    const viewport = useMemo<Viewport | null>(() => mediaSize && containerSize.width > 0
+        ? { container: containerSize, image: mediaSize, zoom: scale, pan: position }
+        : null, [containerSize, mediaSize, scale, position]);
+
+    // The viewer's top-left corner in client coordinates.
+    const getOrigin = useCallback((): Point => {
+        const rect = containerRef.current?.getBoundingClientRect();
+        return { x: rect?.left ?? 0, y: rect?.top ?? 0 };
+    }, []);
+
+    // Pointer position inside the viewer, in screen pixels.
+    const toScreen = useCallback((clientX: number, clientY: number): Point =>
+        clientToScreen(getOrigin(), { x: clientX, y: clientY }), [getOrigin]);
+
+    const viewerViewport = useMemo<ViewerViewport | null>(() => viewport && {
+        viewport,
+        scale: getScreenScale(viewport),
+        clientToImage: (clientX, clientY) => clientToImage(viewport, getOrigin(), { x: clientX, y: clientY }),
+    }, [viewport, getOrigin]);
+
+    const applyZoom = (zoom: number, anchor: Point) => {
+        if (!viewport) {
+            setScale(clampZoom(zoom));
+            return;
+        }
+        const next = zoomAt(viewport, zoom, anchor);
+        setScale(next.zoom);
+        setPosition(next.pan);
+    };
+
     // --- MOUSE HANDLERS ---
 
     const handleWheel = (e: React.WheelEvent) => {
         const delta = -Math.sign(e.deltaY) * 0.2;
-        const newScale = Math.max(1, Math.min(8, scale + delta));
-        setScale(newScale);
-        if (newScale === 1) setPosition({ x: 0, y: 0 });
+        applyZoom(scale + delta, toScreen(e.clientX, e.clientY));
     };
 
     const handleMouseDown = (e: React.MouseEvent) => {
@@ -92,9 +148,11 @@ export const ZoomPanViewer: React.FC<ZoomPanViewerProps> = ({ src, mimeType, cla
         } else if (e.touches.length === 2 && initialPinchDist) {
             const dist = getDistance(e.touches);
             const ratio = dist / initialPinchDist;
-            const newScale = Math.max(1, Math.min(8, initialScale * ratio));
-            setScale(newScale);
-            if (newScale === 1) setPosition({ x: 0, y: 0 });
+            const midpoint = toScreen(
+                (e.touches[0].clientX + e.touches[1].clientX) / 2,
+                (e.touches[0].clientY + e.touches[1].clientY) / 2,
+            );
+            applyZoom(initialScale * ratio, midpoint);
         }
     };
 
@@ -114,6 +172,9 @@ export const ZoomPanViewer: React.FC<ZoomPanViewerProps> = ({ src, mimeType, cla
         setPosition({ x: 0, y: 0 });
     }, [src]);
 
+    // The media box follows the viewport model exactly, so overlays inside it line up with the image.
+    const fitRect = viewport && getFitRect(viewport);
+
     return (
         <div 
             ref={containerRef}
@@ -140,13 +201,15 @@ export const ZoomPanViewer: React.FC<ZoomPanViewerProps> = ({ src, mimeType, cla
              
              {/* Transformed Container */}
              <div 
-                className="relative transition-transform duration-100 ease-out will-change-transform flex items-center justify-center"
-                style={{
-                    transform: `scale(${scale}) translate(${position.x / scale}px, ${position.y / scale}px)`,
+                className="absolute transition-transform duration-100 ease-out will-change-transform"
+                style={viewport && fitRect ? {
+                    left: fitRect.x,
+                    top: fitRect.y,
+                    width: fitRect.width,
+                    height: fitRect.height,
+                    transform: getCssTransform(viewport),
                     transformOrigin: 'center center',
-                    width: '100%',
-                    height: '100%'
-                }}
+                } : { visibility: 'hidden' }}
              >
                  {isVideo ? (
                      <video
@@ -157,22 +220,26 @@ export const ZoomPanViewer: React.FC<ZoomPanViewerProps> = ({ src, mimeType, cla
                         loop
                         muted // Muted to allow autoplay policy compliance
                         playsInline
-                        className="max-w-full max-h-full object-contain shadow-2xl border border-[#333]"
+                        className="block w-full h-full object-contain shadow-2xl border border-[#333]"
                         draggable={false}
+                        onLoadedMetadata={(e) => setLoadedMedia({ src, size: { width: e.currentTarget.videoWidth, height: e.currentTarget.videoHeight } })}
                      />
                  ) : (
                     <>
                         <img 
                             src={src} 
                             alt="Viewer" 
-                            className="block max-w-full max-h-full object-contain select-none pointer-events-none" 
+                            className="block w-full h-full object-contain select-none pointer-events-none" 
                             draggable={false}
+                            onLoad={(e) => setLoadedMedia({ src, size: { width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight } })}
                         />
                         {/* Overlays (like Mask Canvas) - Positioned over the image */}
                          {children && (
-                             <div className="absolute inset-0 w-full h-full pointer-events-auto">
-                                 {children}
-                             </div>
+                             <ViewportContext.Provider value={viewerViewport}>
+                                 <div className="absolute inset-0 w-full h-full pointer-events-auto">
+                                     {children}
+                                 </div>
+                             </ViewportContext.Provider>
                          )}
                     </>
                  )}
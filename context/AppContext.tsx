@@ -3,24 +3,82 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { createContext, useState, ReactNode } from 'react';
+import React, { createContext, useState, useMemo, useCallback, useSyncExternalStore, ReactNode } from 'react';
+import { createJobQueue, Job, JobQueue } from '../services/jobQueue';
+import type { GenerationOutcome } from '../App';
+
+const CONCURRENCY_STORAGE_KEY = 'pixshop-job-concurrency';
+
+// A generation job resolves to null when the request produced nothing.
+export type GenerationJob = Job<GenerationOutcome | null>;
+type GenerationQueue = JobQueue<GenerationOutcome | null>;
 
 interface AppContextType {
+    // Blocking operations only (session restore, uploads); generations run as jobs.
     isLoading: boolean;
     setIsLoading: (loading: boolean) => void;
+    jobs: GenerationJob[];
+    enqueueJob: GenerationQueue['enqueue'];
+    cancelJob: (id: string) => void;
+    dismissJob: (id: string) => void;
+    markJobApplied: (id: string) => void;
+    jobConcurrency: number;
+    setJobConcurrency: (concurrency: number) => void;
 }
 
 export const AppContext = createContext<AppContextType>({
     isLoading: false,
     setIsLoading: () => {},
+    jobs: [],
+    enqueueJob: () => { throw new Error('AppProvider is missing'); },
+    cancelJob: () => {},
+    dismissJob: () => {},
+    markJobApplied: () => {},
+    jobConcurrency: 1,
+    setJobConcurrency: () => {},
 });
 
+const loadConcurrency = (): number => {
+    try {
+        const saved = Number(localStorage.getItem(CONCURRENCY_STORAGE_KEY));
+        if (saved >= 1) return saved;
+    } catch (e) {
+        console.warn('Failed to load job concurrency:', e);
+    }
+    return 2;
+};
+
 export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     const [isLoading, setIsLoading] = useState(false);
+    const queue = useMemo(() => createJobQueue<GenerationOutcome | null>(loadConcurrency()), []);
+    const jobs = useSyncExternalStore(queue.subscribe, queue.getSnapshot);
+    const [jobConcurrency, setConcurrencyState] = useState(queue.getConcurrency());
+
+    const setJobConcurrency = useCallback((concurrency: number) => {
+        queue.setConcurrency(concurrency);
+        setConcurrencyState(queue.getConcurrency());
+        try {
+            localStorage.setItem(CONCURRENCY_STORAGE_KEY, String(queue.getConcurrency()));
+        } catch (e) {
+            console.warn('Failed to save job concurrency:', e);
+        }
+    }, [queue]);
+
+    const value = useMemo(() => ({
+        isLoading,
+        setIsLoading,
+        jobs,
+        enqueueJob: queue.enqueue,
+        cancelJob: queue.cancel,
+        dismissJob: queue.dismiss,
+        markJobApplied: queue.markApplied,
+        jobConcurrency,
+        setJobConcurrency,
+    }), [isLoading, jobs, queue, jobConcurrency, setJobConcurrency]);
 
     return (
-        <AppContext.Provider value={{ isLoading, setIsLoading }}>
+        <AppContext.Provider value={value}>
             {children}
         </AppContext.Provider>
     );
-};
\ No newline at end of file
+};
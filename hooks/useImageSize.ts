@@ -0,0 +1,24 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useEffect } from 'react';
+
+// Natural pixel size of an image file, or null until it has been decoded.
+export const useImageSize = (file: File | null): { width: number; height: number } | null => {
+    const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+    useEffect(() => {
+        setSize(null);
+        if (!file) return;
+        const url = URL.createObjectURL(file);
+        const img = new Image();
+        img.onload = () => setSize({ width: img.naturalWidth, height: img.naturalHeight });
+        img.src = url;
+        return () => {
+            img.onload = null;
+            URL.revokeObjectURL(url);
+        };
+    }, [file]);
+    return size;
+};
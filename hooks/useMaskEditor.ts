@@ -0,0 +1,239 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { MaskTool, MaskMode, MaskShape, drawMaskShape, drawMaskImage, decodeMaskImage, clearMask, invertMask, growMask, isMaskEmpty, exportMask } from '../utils/mask';
+
+// Mask edits are snapshotted as PNGs, which stay small for mostly flat masks.
+const MAX_UNDO = 30;
+export const MAX_MASK_LAYERS = 6;
+
+// A named region of the mask with the instruction meant for it.
+export interface MaskLayer {
+    id: string;
+    name: string;
+    instruction: string;
+    canvas: HTMLCanvasElement;
+    isEmpty: boolean;
+}
+
+export interface MaskEditor {
+    // The active layer's mask, at the image's natural size; MaskCanvas mounts every layer for display.
+    canvas: HTMLCanvasElement;
+    size: { width: number; height: number } | null;
+    layers: MaskLayer[];
+    activeLayerId: string;
+    selectLayer: (id: string) => void;
+    addLayer: () => void;
+    removeLayer: (id: string) => void;
+    updateLayer: (id: string, changes: Partial<Pick<MaskLayer, 'name' | 'instruction'>>) => void;
+    tool: MaskTool;
+    setTool: (tool: MaskTool) => void;
+    mode: MaskMode;
+    setMode: (mode: MaskMode) => void;
+    // On-screen pixels, so the brush feels the same at any image size or zoom.
+    brushSize: number;
+    setBrushSize: (size: number) => void;
+    feather: number;
+    setFeather: (feather: number) => void;
+    // Whether the active layer is empty.
+    isEmpty: boolean;
+    canUndo: boolean;
+    canRedo: boolean;
+    // Everything below edits the active layer.
+    // Multi-step edits (a brush stroke) call begin once, draw repeatedly, then end.
+    beginEdit: () => void;
+    draw: (shape: MaskShape, mode?: MaskMode) => void;
+    endEdit: () => void;
+    // One-shot edits, each a single undo step.
+    apply: (shape: MaskShape, mode?: MaskMode) => void;
+    clear: () => void;
+    invert: () => void;
+    grow: (amount: number) => void;
+    // Merges a mask image (white = selected) such as a segmentation result; one undo step.
+    load: (source: string, mode?: MaskMode) => Promise<void>;
+    // Undo and redo span all layers, switching to the layer they change.
+    undo: () => void;
+    redo: () => void;
+    // PNG data URL of a layer (the active one by default) with feathering
+    // applied, or null when nothing is masked.
+    exportMask: (layerId?: string) => string | null;
+}
+
+interface Snapshot {
+    layerId: string;
+    image: Promise<Blob | null>;
+}
+
+const snapshot = (layer: MaskLayer): Snapshot => ({
+    layerId: layer.id,
+    image: new Promise(resolve => layer.canvas.toBlob(resolve, 'image/png')),
+});
+
+const restore = async (canvas: HTMLCanvasElement, pending: Promise<Blob | null>) => {
+    const blob = await pending;
+    clearMask(canvas);
+    if (!blob) return;
+    const bitmap = await createImageBitmap(blob);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+    bitmap.close();
+};
+
+let nextLayerId = 0;
+
+const createLayer = (name: string, width: number, height: number): MaskLayer => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return { id: `mask-${nextLayerId++}`, name, instruction: '', canvas, isEmpty: true };
+};
+
+/**
+ * Mask editing state for a tool that needs a mask. The layers are reset to a
+ * single empty one whenever `resetKey` or the image size changes.
+ */
+export const useMaskEditor = (size: { width: number; height: number } | null, resetKey?: string | null): MaskEditor => {
+    const width = size?.width ?? 0;
+    const height = size?.height ?? 0;
+
+    const [layers, setLayers] = useState<MaskLayer[]>(() => [createLayer('Region 1', width, height)]);
+    const [activeLayerId, setActiveLayerId] = useState(() => layers[0].id);
+    const [tool, setTool] = useState<MaskTool>('brush');
+    const [mode, setMode] = useState<MaskMode>('add');
+    const [brushSize, setBrushSize] = useState(40);
+    const [feather, setFeather] = useState(0);
+    // Bumped on every committed change so dependants re-read the stacks.
+    const [revision, setRevision] = useState(0);
+    const undoStack = useRef<Snapshot[]>([]);
+    const redoStack = useRef<Snapshot[]>([]);
+    // Restores decode asynchronously; running them in order keeps rapid undos consistent.
+    const restoreQueue = useRef<Promise<void>>(Promise.resolve());
+    // Bumped on every reset so slow loads for a previous image are dropped.
+    const epoch = useRef(0);
+    // Names keep counting up so a removed region's name is not reused.
+    const layerCount = useRef(1);
+    // Restores run after the render that queued them and need the latest layers.
+    const layersRef = useRef(layers);
+    layersRef.current = layers;
+
+    const active = layers.find(layer => layer.id === activeLayerId) ?? layers[0];
+    const { canvas } = active;
+
+    useEffect(() => {
+        const first = createLayer('Region 1', width, height);
+        layerCount.current = 1;
+        epoch.current++;
+        undoStack.current = [];
+        redoStack.current = [];
+        setLayers([first]);
+        setActiveLayerId(first.id);
+        setRevision(r => r + 1);
+    }, [width, height, resetKey]);
+
+    const commitLayer = useCallback((layerId: string) => {
+        setLayers(prev => prev.map(layer => layer.id === layerId ? { ...layer, isEmpty: isMaskEmpty(layer.canvas) } : layer));
+        setRevision(r => r + 1);
+    }, []);
+
+    const commit = useCallback(() => commitLayer(active.id), [commitLayer, active.id]);
+
+    const beginEdit = useCallback(() => {
+        // toBlob copies the bitmap synchronously, so later drawing cannot leak into the snapshot.
+        undoStack.current = [...undoStack.current, snapshot(active)].slice(-MAX_UNDO);
+        redoStack.current = [];
+    }, [active]);
+
+    const draw = useCallback((shape: MaskShape, drawMode?: MaskMode) => drawMaskShape(canvas, shape, drawMode ?? mode), [canvas, mode]);
+
+    const edit = useCallback((change: () => void) => {
+        beginEdit();
+        change();
+        commit();
+    }, [beginEdit, commit]);
+
+    // Moves one snapshot from `from` to its layer, saving the layer's current state onto `to`.
+    const step = useCallback((from: typeof undoStack, to: typeof undoStack) => {
+        const target = from.current[from.current.length - 1];
+        if (!target) return;
+        from.current = from.current.slice(0, -1);
+        setActiveLayerId(target.layerId);
+        restoreQueue.current = restoreQueue.current.then(async () => {
+            const layer = layersRef.current.find(l => l.id === target.layerId);
+            if (!layer) return;
+            to.current = [...to.current, snapshot(layer)];
+            await restore(layer.canvas, target.image);
+            commitLayer(layer.id);
+        }).catch(e => console.error("Could not restore the mask:", e));
+        setRevision(r => r + 1);
+    }, [commitLayer]);
+
+    const undo = useCallback(() => step(undoStack, redoStack), [step]);
+    const redo = useCallback(() => step(redoStack, undoStack), [step]);
+
+    const load = useCallback(async (source: string, loadMode?: MaskMode) => {
+        const started = epoch.current;
+        const bitmap = await decodeMaskImage(source);
+        if (epoch.current === started) edit(() => drawMaskImage(canvas, bitmap, loadMode ?? mode));
+        bitmap.close();
+    }, [canvas, edit, mode]);
+
+    const addLayer = useCallback(() => {
+        if (layersRef.current.length >= MAX_MASK_LAYERS) return;
+        const layer = createLayer(`Region ${++layerCount.current}`, width, height);
+        setLayers(prev => [...prev, layer]);
+        setActiveLayerId(layer.id);
+    }, [width, height]);
+
+    const removeLayer = useCallback((id: string) => {
+        const remaining = layersRef.current.filter(layer => layer.id !== id);
+        if (remaining.length === 0) return;
+        undoStack.current = undoStack.current.filter(s => s.layerId !== id);
+        redoStack.current = redoStack.current.filter(s => s.layerId !== id);
+        setLayers(remaining);
+        setActiveLayerId(current => current === id ? remaining[remaining.length - 1].id : current);
+        setRevision(r => r + 1);
+    }, []);
+
+    const updateLayer = useCallback((id: string, changes: Partial<Pick<MaskLayer, 'name' | 'instruction'>>) => {
+        setLayers(prev => prev.map(layer => layer.id === id ? { ...layer, ...changes } : layer));
+    }, []);
+
+    return useMemo(() => ({
+        canvas,
+        size,
+        layers,
+        activeLayerId: active.id,
+        selectLayer: setActiveLayerId,
+        addLayer,
+        removeLayer,
+        updateLayer,
+        tool,
+        setTool,
+        mode,
+        setMode,
+        brushSize,
+        setBrushSize,
+        feather,
+        setFeather,
+        isEmpty: active.isEmpty,
+        canUndo: undoStack.current.length > 0,
+        canRedo: redoStack.current.length > 0,
+        beginEdit,
+        draw,
+        endEdit: commit,
+        apply: (shape, shapeMode) => edit(() => drawMaskShape(canvas, shape, shapeMode ?? mode)),
+        clear: () => edit(() => clearMask(canvas)),
+        invert: () => edit(() => invertMask(canvas)),
+        grow: (amount) => edit(() => growMask(canvas, amount)),
+        load,
+        undo,
+        redo,
+        exportMask: (layerId) => {
+            const layer = layerId ? layers.find(l => l.id === layerId) : active;
+            return !layer || isMaskEmpty(layer.canvas) ? null : exportMask(layer.canvas, feather);
+        },
+    // revision stands in for the undo/redo stacks, which live in refs.
+    }), [canvas, size, layers, active, addLayer, removeLayer, updateLayer, tool, mode, brushSize, feather, revision, beginEdit, draw, commit, edit, load, undo, redo]);
+};
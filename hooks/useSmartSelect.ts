@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import type { MaskEditor } from './useMaskEditor';
+import type { Point } from '../utils/mask';
+import { generateSegmentationMask, SegmentTarget } from '../services/geminiService';
+import { CancelledError, getErrorMessage } from '../services/errors';
+
+export interface SmartSelect {
+    isSelecting: boolean;
+    error: string | null;
+    // Adds the model's selection to the mask.
+    select: (target: SegmentTarget) => void;
+    // Click-to-select at a point in mask pixels; adds or subtracts per the editor's mode.
+    selectAt: (point: Point) => void;
+}
+
+/**
+ * AI selections for `editor`, segmented from `image`. Starting a new selection
+ * or switching images cancels the one in flight.
+ */
+export const useSmartSelect = (editor: MaskEditor, image: File | null): SmartSelect => {
+    const [isSelecting, setIsSelecting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const controller = useRef<AbortController | null>(null);
+    const { load, size, mode } = editor;
+
+    useEffect(() => {
+        setError(null);
+        return () => controller.current?.abort();
+    }, [image]);
+
+    const run = useCallback(async (target: SegmentTarget, loadMode: 'add' | 'subtract') => {
+        if (!image) return;
+        controller.current?.abort();
+        const current = new AbortController();
+        controller.current = current;
+        setIsSelecting(true);
+        setError(null);
+        try {
+            const mask = await generateSegmentationMask(image, target, { signal: current.signal });
+            if (!current.signal.aborted) await load(mask, loadMode);
+        } catch (e) {
+            if (!(e instanceof CancelledError)) {
+                console.error("Smart selection failed:", e);
+                setError(getErrorMessage(e));
+            }
+        } finally {
+            if (controller.current === current) {
+                controller.current = null;
+                setIsSelecting(false);
+            }
+        }
+    }, [image, load]);
+
+    const select = useCallback((target: SegmentTarget) => { run(target, 'add'); }, [run]);
+
+    const selectAt = useCallback((point: Point) => {
+        if (!size) return;
+        run({ x: point.x / size.width, y: point.y / size.height }, mode);
+    }, [run, size, mode]);
+
+    return useMemo(() => ({ isSelecting, error, select, selectAt }), [isSelecting, error, select, selectAt]);
+};
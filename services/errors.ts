@@ -0,0 +1,198 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+interface GenerationErrorOptions {
+    status?: number;
+    retryAfterMs?: number;
+    cause?: unknown;
+}
+
+// Base class for every error surfaced by the generation services.
+export class GenerationError extends Error {
+    readonly title: string = 'Application Error';
+    readonly retryable: boolean = false;
+    readonly status?: number;
+    readonly retryAfterMs?: number;
+    readonly cause?: unknown;
+
+    constructor(message: string, options: GenerationErrorOptions = {}) {
+        super(message);
+        this.name = new.target.name;
+        this.status = options.status;
+        this.retryAfterMs = options.retryAfterMs;
+        this.cause = options.cause;
+    }
+}
+
+export class QuotaError extends GenerationError {
+    readonly title = 'Quota Exceeded';
+    readonly retryable = true;
+    constructor(options: GenerationErrorOptions = {}) {
+        super("You have made too many requests in a short period. Please wait a minute and try again.", { ...options, status: options.status ?? 429 });
+    }
+}
+
+export class ServiceUnavailableError extends GenerationError {
+    readonly title = 'Service Unavailable';
+    readonly retryable = true;
+    constructor(options: GenerationErrorOptions = {}) {
+        super("The AI servers are currently overloaded. Please try again shortly.", { ...options, status: options.status ?? 503 });
+    }
+}
+
+export class NetworkError extends GenerationError {
+    readonly title = 'Network Error';
+    readonly retryable = true;
+    constructor(options: GenerationErrorOptions = {}) {
+        super("The connection to the AI service failed. Check your network and try again.", options);
+    }
+}
+
+export class EngineAccessError extends GenerationError {
+    readonly title = 'Engine Access Error';
+    constructor(message = "Could not connect to the premium model. The service may be temporarily unavailable.", options: GenerationErrorOptions = {}) {
+        super(message, options);
+    }
+}
+
+export class SafetyBlockError extends GenerationError {
+    readonly title = 'Content Blocked';
+    readonly blockReason?: string;
+    constructor(blockReason?: string, options: GenerationErrorOptions = {}) {
+        super("The model refused to generate the content due to safety policies. Please modify your prompt and try again.", options);
+        this.blockReason = blockReason;
+    }
+}
+
+export class TextInsteadOfImageError extends GenerationError {
+    readonly title = 'Generation Error';
+    readonly modelText: string;
+    constructor(modelText: string, options: GenerationErrorOptions = {}) {
+        super("The model returned text instead of an image. Please try again.", options);
+        this.modelText = modelText;
+    }
+}
+
+export class FileAccessError extends GenerationError {
+    readonly title = 'Session Expired';
+    constructor(options: GenerationErrorOptions = {}) {
+        super("The browser lost access to this image. Please re-upload the file to continue.", options);
+    }
+}
+
+export class UnsupportedAspectRatioError extends GenerationError {
+    readonly title = 'Configuration Error';
+    readonly aspectRatio?: string;
+    constructor(aspectRatio?: string, options: GenerationErrorOptions = {}) {
+        super(aspectRatio ? `Aspect ratio ${aspectRatio} is not supported by this model.` : "The selected aspect ratio is not supported by this model.", options);
+        this.aspectRatio = aspectRatio;
+    }
+}
+
+export class CancelledError extends GenerationError {
+    readonly title = 'Cancelled';
+    constructor(options: GenerationErrorOptions = {}) {
+        super("The generation was cancelled.", options);
+    }
+}
+
+// Helper to reliably extract error message string
+export const getErrorMessage = (error: any): string => {
+    if (error instanceof Error) return error.message;
+    if (typeof error === 'string') return error;
+
+    if (error && typeof error === 'object') {
+         if ('message' in error && typeof (error as any).message === 'string') {
+             return (error as any).message;
+         }
+
+         if ('isTrusted' in error && (error as any).isTrusted === true) {
+             return "The operation failed due to a network error or file access issue (potentially blocked by CORS or AdBlock).";
+         }
+
+         try {
+             const json = JSON.stringify(error);
+             if (json.includes('"isTrusted":true') || json === '{}') {
+                 return "The operation failed due to a network or file access error.";
+             }
+             return json;
+         } catch (e) {
+             return "An unknown error object was encountered.";
+         }
+    }
+    return String(error);
+};
+
+// Gemini RPC errors carry `"retryDelay": "34s"` in their details; HTTP errors may carry Retry-After.
+const parseRetryAfterMs = (rawMsg: string): number | undefined => {
+    const match = rawMsg.match(/retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s/i) || rawMsg.match(/retry-after"?\s*:\s*"?(\d+)/i);
+    return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+};
+
+const isHttpStatus = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 400 && value <= 599;
+
+// Only explicit status markers count: `[429 ...]`, `status: 503`, `"code": 429`. A bare
+// number in free text ("max 512 tokens", "image 450px") is not a status.
+const STATUS_PATTERNS = [
+    /\[\s*([45]\d\d)\b/,
+    /\bstatus(?:\s*code)?"?\s*[:=]\s*"?([45]\d\d)\b/i,
+    /"code"\s*:\s*([45]\d\d)\b/,
+    /\bHTTP(?:\/[\d.]+)?\s+([45]\d\d)\b/,
+];
+
+// SDK errors carry the status on the object (ApiError.status, RPC `code`); the message is a fallback.
+const parseStatus = (err: any, rawMsg: string): number | undefined => {
+    if (err && typeof err === 'object') {
+        if (isHttpStatus(err.status)) return err.status;
+        if (isHttpStatus(err.code)) return err.code;
+        if (err.error && typeof err.error === 'object' && isHttpStatus(err.error.code)) return err.error.code;
+    }
+    for (const pattern of STATUS_PATTERNS) {
+        const match = rawMsg.match(pattern);
+        if (match) return Number(match[1]);
+    }
+    return undefined;
+};
+
+/**
+ * Maps any raw backend error onto the typed hierarchy. This is the only place
+ * that inspects error message text; everything downstream branches on type.
+ */
+export const classifyError = (err: any): GenerationError => {
+    if (err instanceof GenerationError) return err;
+    if (err && typeof err === 'object' && err.name === 'AbortError') return new CancelledError({ cause: err });
+
+    const rawMsg = getErrorMessage(err);
+    const status = parseStatus(err, rawMsg);
+    const options: GenerationErrorOptions = { status, cause: err, retryAfterMs: parseRetryAfterMs(rawMsg) };
+
+    if (rawMsg.includes("KEY_SELECTION_REQUIRED")) {
+        return new EngineAccessError(rawMsg, options); // Pass through the specific key error
+    }
+    if (status === 429 || rawMsg.includes('RESOURCE_EXHAUSTED')) {
+        return new QuotaError(options);
+    }
+    if (status === 503 || status === 500 || rawMsg.includes('overloaded')) {
+        return new ServiceUnavailableError(options);
+    }
+    if (status === 403 || rawMsg.includes('API_KEY') || rawMsg.includes('API Key')) {
+        return new EngineAccessError(undefined, options);
+    }
+    if (rawMsg.includes('candidate') || rawMsg.includes('Safety') || rawMsg.toLowerCase().includes('content blocked')) {
+        return new SafetyBlockError(undefined, options);
+    }
+    if (rawMsg.includes('permission problems') || rawMsg.includes('could not be read')) {
+        return new FileAccessError(options);
+    }
+    if (rawMsg.includes('Aspect ratio') || rawMsg.includes('aspect_ratio')) {
+        return new UnsupportedAspectRatioError(undefined, options);
+    }
+    if (rawMsg.includes('fetch failed') || rawMsg.includes('Failed to fetch') || rawMsg.includes('network error')) {
+        return new NetworkError(options);
+    }
+
+    return new GenerationError(rawMsg || "An unexpected connection error occurred.", options);
+};
@@ -0,0 +1,320 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GoogleGenAI, GenerateContentResponse, HarmCategory, HarmBlockThreshold } from "@google/genai";
+import type { ImageProvider, ReferenceImage } from "./imageProvider";
+import { EngineAccessError, FileAccessError, SafetyBlockError, TextInsteadOfImageError } from "./errors";
+import { sleep, throwIfAborted } from "../utils/abort";
+import { createMaskCanvas, decodeMaskImage } from "../utils/mask";
+
+const API_KEY = process.env.API_KEY;
+
+export const hasApiKey = !!API_KEY;
+
+if (!API_KEY) {
+    console.error("CRITICAL: Missing API_KEY environment variable.");
+}
+
+// Create a single, shared GenAI client instance on first use, so the app can
+// still boot (e.g. on the mock provider) when no key is configured.
+let client: GoogleGenAI | null = null;
+const getClient = (): GoogleGenAI => {
+    if (!API_KEY) throw new EngineAccessError("No API key is configured. Set API_KEY in .env.local, or IMAGE_PROVIDER=mock to use the offline mock.");
+    if (!client) client = new GoogleGenAI({ apiKey: API_KEY });
+    return client;
+};
+
+const MODELS = {
+    image: 'gemini-2.5-flash-image',
+    text: 'gemini-3-flash-preview',
+    vision: 'gemini-3-pro-image-preview',
+    video: 'veo-3.1-fast-generate-preview',
+};
+
+const safetySettings = [
+    {
+        category: HarmCategory.HARM_CATEGORY_HARASSMENT,
+        threshold: HarmBlockThreshold.BLOCK_NONE,
+    },
+    {
+        category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+        threshold: HarmBlockThreshold.BLOCK_NONE,
+    },
+    {
+        category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+        threshold: HarmBlockThreshold.BLOCK_NONE,
+    },
+    {
+        category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+        threshold: HarmBlockThreshold.BLOCK_NONE,
+    },
+];
+
+// Helper function to convert a File object to a Gemini API Part
+export const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string; data: string; } }> => {
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(file);
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(new FileAccessError({ cause: reader.error }));
+    });
+
+    const arr = dataUrl.split(',');
+    if (arr.length < 2) throw new Error("Invalid data URL");
+    const mimeMatch = arr[0].match(/:(.*?);/);
+    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
+
+    const mimeType = mimeMatch[1];
+    const data = arr[1];
+    return { inlineData: { mimeType, data } };
+};
+
+// Helper to convert base64 data URL to Gemini Part (for Masks/Canvas)
+export const base64ToPart = (base64String: string): { inlineData: { mimeType: string; data: string; } } => {
+    const arr = base64String.split(',');
+    const mimeMatch = arr[0].match(/:(.*?);/);
+    const mimeType = mimeMatch ? mimeMatch[1] : 'image/png';
+    const data = arr[1];
+    return { inlineData: { mimeType, data } };
+}
+
+const referencesToParts = (references: ReferenceImage[]) => Promise.all(references.map(ref => fileToPart(ref.file)));
+
+export const handleApiResponse = (response: GenerateContentResponse, context: string): string => {
+    if (response.promptFeedback?.blockReason) {
+        throw new SafetyBlockError(response.promptFeedback.blockReason);
+    }
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData) {
+            const { mimeType, data } = part.inlineData;
+            console.log(`Received image data (${mimeType}) for ${context}`);
+            return `data:${mimeType};base64,${data}`;
+        }
+    }
+    if (response.text) {
+        throw new TextInsteadOfImageError(response.text.substring(0, 200));
+    }
+    throw new Error(`The AI model completed the request but returned no image data.`);
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onloadend = () => {
+        resolve(reader.result as string);
+    };
+    reader.onerror = (error) => {
+        reject(error);
+    };
+});
+
+// Gemini segmentation output: a box in 0-1000 units ([y0, x0, y1, x1]) and a
+// grayscale probability PNG covering just that box.
+interface Segment {
+    box_2d: [number, number, number, number];
+    mask: string;
+    label?: string;
+}
+
+const SEGMENT_THRESHOLD = 127;
+
+const isSegment = (value: unknown): value is Segment => {
+    if (typeof value !== 'object' || value === null) return false;
+    const { box_2d, mask, label } = value as Record<string, unknown>;
+    return Array.isArray(box_2d) && box_2d.length === 4 && box_2d.every(n => typeof n === 'number' && Number.isFinite(n))
+        && typeof mask === 'string' && (label === undefined || typeof label === 'string');
+};
+
+const parseSegments = (text: string): Segment[] => {
+    const json = text.replace(/^\s*```(?:json)?/, '').replace(/```\s*$/, '');
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new Error("The model returned a segmentation that could not be read.");
+    }
+    return Array.isArray(parsed) ? parsed.filter(isSegment) : [];
+};
+
+// Thresholds each segment's probability map and pastes it into a full-size mask.
+const renderSegments = async (segments: Segment[], width: number, height: number): Promise<string> => {
+    const { canvas, ctx } = createMaskCanvas(width, height);
+    for (const { box_2d: [y0, x0, y1, x1], mask } of segments) {
+        const left = Math.floor(x0 / 1000 * width);
+        const top = Math.floor(y0 / 1000 * height);
+        const boxWidth = Math.ceil(x1 / 1000 * width) - left;
+        const boxHeight = Math.ceil(y1 / 1000 * height) - top;
+        if (boxWidth < 1 || boxHeight < 1) continue;
+
+        const probabilities = await decodeMaskImage(mask.startsWith('data:') ? mask : `data:image/png;base64,${mask}`);
+        const patch = createMaskCanvas(boxWidth, boxHeight);
+        patch.ctx.drawImage(probabilities, 0, 0, boxWidth, boxHeight);
+        probabilities.close();
+        const image = patch.ctx.getImageData(0, 0, boxWidth, boxHeight);
+        const { data } = image;
+        for (let i = 0; i < data.length; i += 4) {
+            data[i + 3] = data[i] > SEGMENT_THRESHOLD ? 255 : 0;
+            data[i] = data[i + 1] = data[i + 2] = 255;
+        }
+        patch.ctx.putImageData(image, 0, 0);
+        ctx.drawImage(patch.canvas, left, top);
+    }
+    return canvas.toDataURL('image/png');
+};
+
+export const geminiProvider: ImageProvider = {
+    id: 'gemini',
+    label: 'Google Gemini',
+    models: MODELS,
+    // Veo 3.1 renders 24 fps clips of 4, 6 or 8 seconds; 1080p needs the full 8.
+    videoCapabilities: {
+        durations: [4, 6, 8],
+        fps: [24],
+        resolutions: ['720p', '1080p'],
+        aspectRatios: ['16:9', '9:16'],
+        resolutionDurations: { '1080p': [8] },
+        negativePrompt: true,
+        seed: true,
+        lastFrame: true,
+    },
+
+    textToImage: async ({ prompt, aspectRatio = '1:1', systemInstruction, context, signal, seed, references = [] }) => {
+        const config: any = {
+            safetySettings,
+            imageConfig: { aspectRatio },
+            abortSignal: signal,
+        };
+        if (systemInstruction) config.systemInstruction = systemInstruction;
+        if (seed !== undefined) config.seed = seed;
+
+        const res = await getClient().models.generateContent({
+            model: MODELS.image,
+            contents: { parts: [{ text: prompt }, ...await referencesToParts(references)] },
+            config,
+        });
+        return handleApiResponse(res, context);
+    },
+
+    imageToImage: async ({ source, prompt, systemInstruction, aspectRatio, context, signal, seed, references = [] }) => {
+        const imagePart = await fileToPart(source);
+        const imageConfig: { aspectRatio?: string } = {};
+        if (aspectRatio) imageConfig.aspectRatio = aspectRatio;
+
+        const config: any = { systemInstruction, safetySettings, abortSignal: signal };
+        if (Object.keys(imageConfig).length > 0) config.imageConfig = imageConfig;
+        if (seed !== undefined) config.seed = seed;
+
+        const res = await getClient().models.generateContent({
+            model: MODELS.image,
+            contents: { parts: [{ text: prompt }, imagePart, ...await referencesToParts(references)] },
+            config,
+        });
+        return handleApiResponse(res, context);
+    },
+
+    maskedEdit: async ({ source, maskBase64, instruction, systemInstruction, context, signal, seed }) => {
+        const imagePart = await fileToPart(source);
+        const maskPart = base64ToPart(maskBase64);
+
+        const res = await getClient().models.generateContent({
+            model: MODELS.image,
+            contents: { parts: [{ text: instruction }, imagePart, maskPart] },
+            config: { systemInstruction, safetySettings, abortSignal: signal, seed },
+        });
+        return handleApiResponse(res, context);
+    },
+
+    describe: async ({ prompt, image, signal }) => {
+        if (!image) {
+            const response = await getClient().models.generateContent({
+                model: MODELS.text,
+                contents: prompt,
+                config: { abortSignal: signal },
+            });
+            return response.text ?? '';
+        }
+        const imagePart = await fileToPart(image);
+        const response = await getClient().models.generateContent({
+            model: MODELS.vision,
+            contents: { parts: [{ text: prompt }, imagePart] },
+            config: { abortSignal: signal },
+        });
+        return response.text ?? '';
+    },
+
+    segment: async ({ image, point, signal }) => {
+        const target = point
+            ? `the single object at point [${Math.round(point.y * 1000)}, ${Math.round(point.x * 1000)}] (y, x on a 0-1000 scale)`
+            : 'the main subject or subjects';
+        const [imagePart, bitmap] = await Promise.all([fileToPart(image), createImageBitmap(image)]);
+        const { width, height } = bitmap;
+        bitmap.close();
+
+        const response = await getClient().models.generateContent({
+            model: MODELS.text,
+            contents: { parts: [
+                { text: `Give the segmentation mask for ${target}. Output a JSON list of segmentation masks where each entry contains the 2D bounding box in the key "box_2d", the segmentation mask in key "mask", and the text label in the key "label".` },
+                imagePart,
+            ] },
+            config: { responseMimeType: 'application/json', abortSignal: signal },
+        });
+        const segments = parseSegments(response.text ?? '');
+        if (segments.length === 0) throw new Error("The model could not find anything to select there.");
+        return renderSegments(segments, width, height);
+    },
+
+    generateVideo: async ({ prompt, aspectRatio, image, lastFrame, signal, seed, durationSeconds, fps, resolution = '720p', negativePrompt }) => {
+        const payload: any = {
+            model: MODELS.video,
+            prompt: prompt,
+            config: {
+                numberOfVideos: 1,
+                resolution,
+                aspectRatio: aspectRatio,
+                abortSignal: signal,
+            }
+        };
+        if (durationSeconds !== undefined) payload.config.durationSeconds = durationSeconds;
+        if (fps !== undefined) payload.config.fps = fps;
+        if (negativePrompt) payload.config.negativePrompt = negativePrompt;
+        if (seed !== undefined) payload.config.seed = seed;
+
+        if (image) {
+            const imagePart = await fileToPart(image);
+            payload.image = {
+                imageBytes: imagePart.inlineData.data,
+                mimeType: imagePart.inlineData.mimeType
+            };
+        }
+        if (image && lastFrame) {
+            const lastPart = await fileToPart(lastFrame);
+            payload.config.lastFrame = {
+                imageBytes: lastPart.inlineData.data,
+                mimeType: lastPart.inlineData.mimeType
+            };
+        }
+
+        let operation = await getClient().models.generateVideos(payload);
+
+        // The render keeps running server-side after an abort; we only stop waiting for it.
+        while (!operation.done) {
+            console.log('Polling for video generation status...');
+            await sleep(10000, signal);
+            operation = await getClient().operations.getVideosOperation({ operation: operation, config: { abortSignal: signal } });
+        }
+        throwIfAborted(signal);
+
+        const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
+        if (!downloadLink) {
+            throw new Error("Video generation completed but no download link was found.");
+        }
+
+        const videoResponse = await fetch(`${downloadLink}&key=${API_KEY}`, { signal });
+        if (!videoResponse.ok) {
+            throw new Error(`Failed to download video: ${videoResponse.statusText}`);
+        }
+        return blobToDataUrl(await videoResponse.blob());
+    },
+};
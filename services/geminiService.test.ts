@@ -0,0 +1,302 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { refineImagePrompt, generateImage, generateFilteredImage, generateVideo } from './geminiService';
+import { mockProvider, configureMockProvider, configureMockProviderFromQuery, getMockProviderConfig, resetMockProvider, MockFailure } from './mockProvider';
+import { classifyError, GenerationError, QuotaError, ServiceUnavailableError, SafetyBlockError, TextInsteadOfImageError, CancelledError } from './errors';
+
+// The recorder has its own tests; here it just plays three frames and wraps the last one.
+vi.mock('../utils/canvasRecorder', () => ({
+    recordCanvas: async (canvas: HTMLCanvasElement, _durationMs: number, _fps: number, drawFrame: (t: number) => void) => {
+        [0, 0.5, 1].forEach(drawFrame);
+        return new Blob([canvas.toDataURL()], { type: 'video/webm' });
+    },
+}));
+
+// Drives the mock's injected failures through retryWithBackoff, handleApiResponse
+// and classifyError by way of a public service call.
+const run = async (options: { signal?: AbortSignal } = {}) => {
+    const pending = refineImagePrompt('a lighthouse at dusk', { provider: 'mock', ...options });
+    // Settle the outcome before flushing the backoff timers so a rejection is never unhandled.
+    const settled = pending.then(value => ({ value, error: null }), (error: unknown) => ({ value: null, error }));
+    await vi.runAllTimersAsync();
+    return settled;
+};
+
+const FAILURE_TYPES: [Exclude<MockFailure, 'none'>, new (...args: any[]) => GenerationError, boolean][] = [
+    ['quota', QuotaError, true],
+    ['unavailable', ServiceUnavailableError, true],
+    ['safety', SafetyBlockError, false],
+    ['text', TextInsteadOfImageError, false],
+];
+
+describe('mock failure injection', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        configureMockProvider({ latencyMs: 0 });
+    });
+
+    afterEach(() => {
+        resetMockProvider();
+        vi.restoreAllMocks();
+        vi.useRealTimers();
+    });
+
+    it('succeeds when no failure is injected', async () => {
+        const { value, error } = await run();
+        expect(error).toBeNull();
+        expect(value).toContain('a lighthouse at dusk');
+    });
+
+    for (const [failure, ErrorType, retryable] of FAILURE_TYPES) {
+        it(`surfaces a persistent '${failure}' failure as ${ErrorType.name}`, async () => {
+            const describeSpy = vi.spyOn(mockProvider, 'describe');
+            configureMockProvider({ failure, failureCount: Infinity });
+            const { error } = await run();
+            expect(error).toBeInstanceOf(ErrorType);
+            expect((error as GenerationError).retryable).toBe(retryable);
+            // Retryable errors get the first attempt plus three retries; the rest fail at once.
+            expect(describeSpy).toHaveBeenCalledTimes(retryable ? 4 : 1);
+        });
+    }
+
+    it.each(['quota', 'unavailable'] as const)("recovers from transient '%s' failures by retrying", async (failure) => {
+        const describeSpy = vi.spyOn(mockProvider, 'describe');
+        configureMockProvider({ failure, failureCount: 2 });
+        const { value, error } = await run();
+        expect(error).toBeNull();
+        expect(value).toContain('a lighthouse at dusk');
+        expect(describeSpy).toHaveBeenCalledTimes(3);
+    });
+
+    it('stops retrying when the call is cancelled', async () => {
+        configureMockProvider({ failure: 'quota', failureCount: Infinity });
+        const controller = new AbortController();
+        const pending = run({ signal: controller.signal });
+        controller.abort();
+        const { error } = await pending;
+        expect(error).toBeInstanceOf(CancelledError);
+    });
+});
+
+// Just enough of the DOM for the mock provider to draw in node. Each canvas logs the
+// calls made on its 2D context, and toDataURL encodes that log, so two results are
+// equal exactly when the same picture was drawn.
+const describeArg = (value: unknown): string =>
+    value instanceof FakeCanvas ? 'canvas' : value instanceof FakeImage ? 'image' : typeof value === 'object' ? 'object' : JSON.stringify(value);
+
+class FakeCanvas {
+    width = 0;
+    height = 0;
+    readonly calls: string[] = [];
+    private readonly ctx = new Proxy({}, {
+        get: (_, key) => (...args: unknown[]) => {
+            this.calls.push(`${String(key)}(${args.map(describeArg).join(', ')})`);
+            return key === 'createLinearGradient' ? { addColorStop: () => {} } : undefined;
+        },
+        set: (_, key, value) => {
+            this.calls.push(`${String(key)} = ${describeArg(value)}`);
+            return true;
+        },
+    });
+    getContext() { return this.ctx; }
+    toDataURL(type = 'image/png') {
+        return `data:${type};base64,${btoa(JSON.stringify({ width: this.width, height: this.height, calls: this.calls }))}`;
+    }
+}
+
+class FakeImage {
+    naturalWidth = 320;
+    naturalHeight = 200;
+    onload: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+    set src(_: string) {
+        Promise.resolve().then(() => this.onload?.());
+    }
+}
+
+class FakeFileReader {
+    result: string | null = null;
+    onloadend: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+    readAsDataURL(blob: Blob) {
+        blob.text().then(text => {
+            this.result = `data:${blob.type};base64,${btoa(text)}`;
+            this.onloadend?.();
+        });
+    }
+}
+
+// What a mock data URL drew: its size and the text captioned onto it.
+const decode = (dataUrl: string) => {
+    const [header, data] = dataUrl.split(',');
+    const payload = atob(data);
+    // Video frames arrive wrapped in a second data URL.
+    const image = header.startsWith('data:video/') ? atob(payload.split(',')[1]) : payload;
+    const { width, height, calls } = JSON.parse(image) as { width: number; height: number; calls: string[] };
+    const text = calls.filter(call => call.startsWith('fillText(')).join('\n');
+    return { width, height, text };
+};
+
+describe('mock image and video generation', () => {
+    const source = new File([new Uint8Array([1, 2, 3])], 'source.png', { type: 'image/png' });
+
+    const settle = async <T>(pending: Promise<T>) => {
+        const settled = pending.then(value => ({ value, error: null }), (error: unknown) => ({ value: null, error }));
+        await vi.runAllTimersAsync();
+        return settled;
+    };
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.stubGlobal('document', { createElement: () => new FakeCanvas() });
+        vi.stubGlobal('Image', FakeImage);
+        vi.stubGlobal('FileReader', FakeFileReader);
+        configureMockProvider({ latencyMs: 0 });
+    });
+
+    afterEach(() => {
+        resetMockProvider();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+        vi.useRealTimers();
+    });
+
+    it('renders a PNG data URL at the requested aspect ratio', async () => {
+        const { value, error } = await settle(generateImage('a lighthouse at dusk', '16:9', false, undefined, { provider: 'mock', seed: 7 }));
+        expect(error).toBeNull();
+        expect(value).toMatch(/^data:image\/png;base64,/);
+        const { width, height, text } = decode(value!);
+        expect({ width, height }).toEqual({ width: 768, height: 432 });
+        expect(text).toContain('MOCK generateImage');
+        expect(text).toContain('seed: 7');
+        expect(text).toContain('a lighthouse at dusk');
+    });
+
+    it('draws the same image for the same seed and a different one for another', async () => {
+        const draw = (seed?: number) => settle(generateImage('a lighthouse at dusk', '1:1', false, undefined, { provider: 'mock', seed }));
+        const [first, again, other, unseeded, unseededAgain] = [await draw(7), await draw(7), await draw(8), await draw(), await draw()];
+        expect(again.value).toBe(first.value);
+        expect(other.value).not.toBe(first.value);
+        // Without a seed the prompt picks one, so the result is still repeatable.
+        expect(unseededAgain.value).toBe(unseeded.value);
+    });
+
+    it('edits the source image at its own size', async () => {
+        const edit = (seed: number) => settle(generateFilteredImage(source, 'make it snow', undefined, { provider: 'mock', seed }));
+        const { value, error } = await edit(3);
+        expect(error).toBeNull();
+        expect(value).toMatch(/^data:image\/png;base64,/);
+        const { width, height, text } = decode(value!);
+        expect({ width, height }).toEqual({ width: 320, height: 200 });
+        expect(text).toContain('MOCK generateFilteredImage');
+        expect(text).toContain('seed: 3');
+        expect((await edit(3)).value).toBe(value);
+        expect((await edit(4)).value).not.toBe(value);
+    });
+
+    it('records a video data URL captioned with its settings', async () => {
+        const render = (seed: number) => settle(generateVideo('waves rolling in', { aspectRatio: '16:9', durationSeconds: 4, fps: 24, seed }, {}, { provider: 'mock' }));
+        const { value, error } = await render(11);
+        expect(error).toBeNull();
+        expect(value).toMatch(/^data:video\/webm;base64,/);
+        const { width, height, text } = decode(value!);
+        expect({ width, height }).toEqual({ width: 640, height: 360 });
+        expect(text).toContain('seed: 11  t=1.00');
+        expect(text).toContain('4s @ 24 fps, 720p');
+        expect((await render(11)).value).toBe(value);
+        expect((await render(12)).value).not.toBe(value);
+    });
+
+    const calls: [string, () => Promise<string>][] = [
+        ['generateImage', () => generateImage('a lighthouse', '1:1', false, undefined, { provider: 'mock' })],
+        ['generateImageModification', () => generateFilteredImage(source, 'make it snow', undefined, { provider: 'mock' })],
+        ['generateVideo', () => generateVideo('waves', {}, {}, { provider: 'mock' })],
+    ];
+
+    for (const [name, call] of calls) {
+        for (const [failure, ErrorType] of FAILURE_TYPES) {
+            it(`${name} surfaces an injected '${failure}' failure as ${ErrorType.name}`, async () => {
+                configureMockProvider({ failure, failureCount: Infinity });
+                const { error } = await settle(call());
+                expect(error).toBeInstanceOf(ErrorType);
+            });
+        }
+    }
+
+    it('retries a transient image failure and returns the image', async () => {
+        configureMockProvider({ failure: 'unavailable', failureCount: 1 });
+        const { value, error } = await settle(generateImage('a lighthouse', '1:1', false, undefined, { provider: 'mock', seed: 7 }));
+        expect(error).toBeNull();
+        expect(decode(value!).text).toContain('seed: 7');
+    });
+});
+
+describe('classifyError on raw mock failures', () => {
+    it('maps the mock transport errors by status', () => {
+        expect(classifyError(new Error('[429 Too Many Requests] RESOURCE_EXHAUSTED: mock quota exceeded'))).toBeInstanceOf(QuotaError);
+        expect(classifyError(new Error('[503 Service Unavailable] The model is overloaded. Please try again later.'))).toBeInstanceOf(ServiceUnavailableError);
+    });
+
+    it('reads the status from the error object before the message', () => {
+        const sdkError = Object.assign(new Error('Request failed'), { status: 429 });
+        expect(classifyError(sdkError)).toBeInstanceOf(QuotaError);
+        expect(classifyError({ message: 'Backend error', code: 503 }).status).toBe(503);
+        expect(classifyError({ error: { code: 500, message: 'Internal' } }).status).toBe(500);
+    });
+
+    it.each([
+        ['status: 503', 503],
+        ['got status code=429 from upstream', 429],
+        ['{"error":{"code":500,"message":"Internal"}}', 500],
+        ['HTTP 503 from the proxy', 503],
+    ])('reads an explicit status from "%s"', (message, status) => {
+        expect(classifyError(new Error(message)).status).toBe(status);
+    });
+
+    it.each([
+        'Prompt is too long: max 512 tokens',
+        'The image 450px wide is below the minimum',
+        'Request 404 of the batch timed out',
+    ])('does not treat a number in free text as a status: "%s"', (message) => {
+        const error = classifyError(new Error(message));
+        expect(error.status).toBeUndefined();
+        expect(error).not.toBeInstanceOf(QuotaError);
+        expect(error).not.toBeInstanceOf(ServiceUnavailableError);
+    });
+
+    it('passes typed errors through unchanged', () => {
+        const error = new SafetyBlockError('SAFETY');
+        expect(classifyError(error)).toBe(error);
+    });
+});
+
+describe('configureMockProviderFromQuery', () => {
+    afterEach(() => {
+        resetMockProvider();
+        vi.restoreAllMocks();
+    });
+
+    it('reads failure, count and latency from the query', () => {
+        configureMockProviderFromQuery('?mockFailure=safety&mockFailures=2&mockLatency=0');
+        expect(getMockProviderConfig()).toMatchObject({ failure: 'safety', failureCount: 2, latencyMs: 0 });
+    });
+
+    it('ignores and reports invalid values', () => {
+        const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+        configureMockProviderFromQuery('?mockFailure=meteor&mockFailures=-1&mockLatency=soon');
+        expect(getMockProviderConfig()).toMatchObject({ failure: 'none', failureCount: Infinity, latencyMs: 600 });
+        expect(errorSpy).toHaveBeenCalledTimes(3);
+    });
+
+    it('leaves the config alone without mock parameters', () => {
+        configureMockProviderFromQuery('?project=abc');
+        expect(getMockProviderConfig().failure).toBe('none');
+    });
+});
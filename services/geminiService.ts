@@ -3,36 +3,51 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { GoogleGenAI, GenerateContentResponse, HarmCategory, HarmBlockThreshold } from "@google/genai";
 import { injectAntiCensor } from "../utils/antiCensor";
+import { getProvider, registerProvider, setDefaultProvider, isProviderId, PROVIDER_IDS, ProviderId, ImageProvider, ProviderModels, ReferenceImage, ReferenceRole, VideoCapabilities } from "./imageProvider";
+import { VideoSettings, resolveVideoSettings, describeMotion } from "./videoSettings";
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider, configureMockProviderFromQuery } from "./mockProvider";
+import { classifyError, getErrorMessage, GenerationError, UnsupportedAspectRatioError, CancelledError } from "./errors";
+import { sleep, throwIfAborted } from "../utils/abort";
+import { invertMaskImage, mergeMaskImages } from "../utils/mask";
+import { compositeMaskedResult } from "../utils/composite";
+
+registerProvider(geminiProvider);
+registerProvider(mockProvider);
+
+// IMAGE_PROVIDER picks the backend. The offline mock only runs when asked for
+// by name; a missing API key surfaces as an error on the first call instead.
+const configuredProvider = process.env.IMAGE_PROVIDER;
+if (configuredProvider) {
+    if (isProviderId(configuredProvider)) setDefaultProvider(configuredProvider);
+    else console.error(`IMAGE_PROVIDER="${configuredProvider}" is not a known provider (expected ${PROVIDER_IDS.join(' or ')}). Using gemini.`);
+}
 
-const API_KEY = process.env.API_KEY;
-
-if (!API_KEY) {
-    console.error("CRITICAL: Missing API_KEY environment variable.");
+// Failure injection for the mock, e.g. ?mockFailure=quota&mockFailures=2&mockLatency=0.
+if (typeof window !== 'undefined') configureMockProviderFromQuery(window.location.search);
+
+// Per-call options shared by every generation entry point.
+export interface ServiceOptions {
+    provider?: ProviderId;
+    signal?: AbortSignal;
+    // Fixed seed for image calls; omitted means the backend picks one.
+    seed?: number;
+    // Reports completion as a 0..1 fraction for calls made of several steps.
+    onProgress?: (progress: number) => void;
+    // Receives the backend, model and protocol a generation actually used.
+    onTrace?: (trace: GenerationTrace) => void;
+    // Extra conditioning images for generateImage and generateImageModification.
+    references?: ReferenceImage[];
 }
 
-// Create a single, shared GenAI client instance.
-const ai = new GoogleGenAI({ apiKey: API_KEY! });
-
-const safetySettings = [
-    {
-        category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-        threshold: HarmBlockThreshold.BLOCK_NONE,
-    },
-    {
-        category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-        threshold: HarmBlockThreshold.BLOCK_NONE,
-    },
-    {
-        category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-        threshold: HarmBlockThreshold.BLOCK_NONE,
-    },
-    {
-        category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-        threshold: HarmBlockThreshold.BLOCK_NONE,
-    },
-];
+export interface GenerationTrace {
+    // 'local' marks edits computed in the browser without calling a provider.
+    provider: ProviderId | 'local';
+    model: string;
+    protocol: string;
+    context: string;
+}
 
 // --- SYSTEM PROTOCOLS ---
 
@@ -77,143 +92,74 @@ const INPAINTING_PROTOCOL = `You are a context-aware patching and reconstruction
 - **Final Output:** Your output must be only the edited image.`;
 const NEURAL_CANVAS_PROTOCOL = `You are a rapid visual ideation engine. Your function is to generate very fast, low-detail, stylistic previews in under 2 seconds. Do not focus on high fidelity. Prioritize speed and capturing the core essence of the prompt. Your output must be only the generated image.`;
 
-// Helper to reliably extract error message string
-const getErrorMessage = (error: any): string => {
-    if (error instanceof Error) return error.message;
-    if (typeof error === 'string') return error;
-    
-    if (error && typeof error === 'object') {
-         if ('message' in error && typeof (error as any).message === 'string') {
-             return (error as any).message;
-         }
-         
-         if ('isTrusted' in error && (error as any).isTrusted === true) {
-             return "The operation failed due to a network error or file access issue (potentially blocked by CORS or AdBlock).";
-         }
-         
-         try {
-             const json = JSON.stringify(error);
-             if (json.includes('"isTrusted":true') || json === '{}') {
-                 return "The operation failed due to a network or file access error.";
-             }
-             return json;
-         } catch (e) {
-             return "An unknown error object was encountered.";
-         }
-    }
-    return String(error);
+const PROTOCOL_NAMES = new Map<string, string>([
+    [PHOTO_EDITOR_PROTOCOL, 'PHOTO_EDITOR'],
+    [ARTIST_PROTOCOL, 'ARTIST'],
+    [GRAPHIC_DESIGNER_PROTOCOL, 'GRAPHIC_DESIGNER'],
+    [TYPOGRAPHER_PROTOCOL, 'TYPOGRAPHER'],
+    [INPAINTING_PROTOCOL, 'INPAINTING'],
+    [NEURAL_CANVAS_PROTOCOL, 'NEURAL_CANVAS'],
+]);
+
+const trace = (options: ServiceOptions, provider: ImageProvider, kind: keyof ProviderModels, systemInstruction: string | undefined, context: string) => {
+    options.onTrace?.({
+        provider: provider.id,
+        model: provider.models[kind],
+        protocol: (systemInstruction && PROTOCOL_NAMES.get(systemInstruction)) || 'NONE',
+        context,
+    });
 };
 
-// Helper to format raw errors into user-friendly messages
-const friendlyError = (err: any): Error => {
-    const rawMsg = getErrorMessage(err);
-
-    if (rawMsg.includes("KEY_SELECTION_REQUIRED")) {
-        return new Error(rawMsg); // Pass through the specific key error
-    }
-    
-    if (rawMsg.includes('429')) {
-        return new Error("Quota Exceeded: You have made too many requests in a short period. Please wait a minute and try again.");
-    }
-    if (rawMsg.includes('503') || rawMsg.includes('500') || rawMsg.includes('overloaded')) {
-        return new Error("Service Unavailable: The AI servers are currently overloaded. Please try again shortly.");
-    }
-    if (rawMsg.includes('API_KEY') || rawMsg.includes('403')) {
-        return new Error("Engine Access Error: Could not connect to the premium model. The service may be temporarily unavailable.");
-    }
-    if (rawMsg.includes('candidate') || rawMsg.includes('Safety') || rawMsg.includes('SAFETY_BLOCK') || rawMsg.toLowerCase().includes('content blocked')) {
-        return new Error("The model refused to generate the content due to safety policies. Please modify your prompt and try again.");
-    }
-    if (rawMsg.includes('Model Feedback')) {
-         return new Error("Generation Error: The model returned text instead of an image. Please try again.");
-    }
-    if (rawMsg.includes('permission problems') || rawMsg.includes('could not be read') || rawMsg.includes('Failed to read file')) {
-        return new Error("Session Expired: The browser lost access to this image. Please re-upload the file to continue.");
-    }
-    if (rawMsg.includes('Aspect ratio')) {
-        return new Error("Configuration Error: Aspect Ratio not supported by this model. Retrying with standard settings...");
-    }
-    
-    return err instanceof Error ? err : new Error(rawMsg || "An unexpected connection error occurred.");
-};
+// Normalizes any thrown value into the typed GenerationError hierarchy.
+const friendlyError = (err: any): GenerationError => classifyError(err);
 
-// Retry logic with exponential backoff
+// Retry logic with exponential backoff. Only errors typed as retryable are retried,
+// and a server-provided retry-after delay takes precedence over the backoff.
+// Aborting the signal stops both the in-flight attempt and any pending backoff, and a
+// result that lands after cancellation is discarded.
 const retryWithBackoff = async <T>(
     fn: () => Promise<T>,
+    signal?: AbortSignal,
     retries = 3,
     delay = 1000,
     factor = 2
 ): Promise<T> => {
+    throwIfAborted(signal);
     try {
-        return await fn();
+        const result = await fn();
+        throwIfAborted(signal);
+        return result;
     } catch (error: any) {
-        if (retries <= 0) throw error;
-        
-        const msg = getErrorMessage(error);
-        const isRetryable = msg.includes('503') || msg.includes('500') || msg.includes('overloaded') || msg.includes('429') || msg.includes('fetch failed');
-        
-        if (!isRetryable) throw error;
-
-        console.warn(`API call failed: "${msg}". Retrying in ${delay}ms... (${retries} retries left)`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-        return retryWithBackoff(fn, retries - 1, delay * factor, factor);
-    }
-};
+        const classified = signal?.aborted ? new CancelledError({ cause: error }) : classifyError(error);
+        if (retries <= 0 || !classified.retryable) throw classified;
 
-// Helper function to convert a File object to a Gemini API Part
-const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string; data: string; } }> => {
-    const dataUrl = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = () => reject(new Error(`Failed to read file: ${reader.error?.message || 'Unknown I/O Error'}`));
-    });
-    
-    const arr = dataUrl.split(',');
-    if (arr.length < 2) throw new Error("Invalid data URL");
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
-    
-    const mimeType = mimeMatch[1];
-    const data = arr[1];
-    return { inlineData: { mimeType, data } };
+        const wait = Math.max(delay, classified.retryAfterMs ?? 0);
+        console.warn(`API call failed: "${getErrorMessage(classified.cause ?? classified)}". Retrying in ${wait}ms... (${retries} retries left)`);
+        await sleep(wait, signal);
+        return retryWithBackoff(fn, signal, retries - 1, delay * factor, factor);
+    }
 };
 
-// Helper to convert base64 data URL to Gemini Part (for Masks/Canvas)
-const base64ToPart = (base64String: string): { inlineData: { mimeType: string; data: string; } } => {
-    const arr = base64String.split(',');
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    const mimeType = mimeMatch ? mimeMatch[1] : 'image/png';
-    const data = arr[1];
-    return { inlineData: { mimeType, data } };
-}
-
-const handleApiResponse = (response: GenerateContentResponse, context: string): string => {
-    if (response.promptFeedback?.blockReason) {
-        throw new Error(`SAFETY_BLOCK: ${response.promptFeedback.blockReason}`);
-    }
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData) {
-            const { mimeType, data } = part.inlineData;
-            console.log(`Received image data (${mimeType}) for ${context}`);
-            return `data:${mimeType};base64,${data}`;
+// Some models reject particular aspect ratios outright; retry once with the model's default framing.
+const withAspectRatioFallback = async <T>(aspectRatio: string | undefined, run: (aspectRatio?: string) => Promise<T>): Promise<T> => {
+    try {
+        return await run(aspectRatio);
+    } catch (e) {
+        if (aspectRatio && classifyError(e) instanceof UnsupportedAspectRatioError) {
+            console.warn(`Aspect ratio ${aspectRatio} was rejected. Retrying with standard settings...`);
+            return run(undefined);
         }
+        throw e;
     }
-    if (response.text) {
-        throw new Error(`Model Feedback: ${response.text.substring(0, 200)}...`);
-    }
-    throw new Error(`The AI model completed the request but returned no image data.`);
 };
 
-export const refineImagePrompt = async (prompt: string): Promise<string> => {
+export const refineImagePrompt = async (prompt: string, options: ServiceOptions = {}): Promise<string> => {
     try {
-        const result = await retryWithBackoff(async () => {
-            const response = await ai.models.generateContent({
-                model: 'gemini-3-flash-preview',
-                contents: `Refine this user's image generation prompt to be more vivid, detailed, and evocative for an AI image generator. Original prompt: "${prompt}"`,
-            });
-            return response.text ?? '';
-        });
+        const provider = getProvider(options.provider);
+        const result = await retryWithBackoff(() => provider.describe({
+            prompt: `Refine this user's image generation prompt to be more vivid, detailed, and evocative for an AI image generator. Original prompt: "${prompt}"`,
+            signal: options.signal,
+        }), options.signal);
         if (!result) throw new Error("Prompt refinement returned an empty response.");
         return result.replace(/"/g, '');
     } catch (e) {
@@ -221,16 +167,14 @@ export const refineImagePrompt = async (prompt: string): Promise<string> => {
     }
 };
 
-export const describeImageForPrompt = async (imageFile: File): Promise<string> => {
+export const describeImageForPrompt = async (imageFile: File, options: ServiceOptions = {}): Promise<string> => {
     try {
-        const imagePart = await fileToPart(imageFile);
-        const result = await retryWithBackoff(async () => {
-            const response = await ai.models.generateContent({
-                model: 'gemini-3-pro-image-preview',
-                contents: { parts: [{ text: "Describe this image in vivid detail for an image generation prompt. Focus on the subject, style, lighting, and composition." }, imagePart] },
-            });
-            return response.text ?? '';
-        });
+        const provider = getProvider(options.provider);
+        const result = await retryWithBackoff(() => provider.describe({
+            prompt: "Describe this image in vivid detail for an image generation prompt. Focus on the subject, style, lighting, and composition.",
+            image: imageFile,
+            signal: options.signal,
+        }), options.signal);
         if (!result) throw new Error("Image description returned an empty response.");
         return result;
     } catch (e) {
@@ -238,19 +182,14 @@ export const describeImageForPrompt = async (imageFile: File): Promise<string> =
     }
 };
 
-export const extractStyleFromImage = async (imageFile: File): Promise<string> => {
+export const extractStyleFromImage = async (imageFile: File, options: ServiceOptions = {}): Promise<string> => {
     try {
-        const imagePart = await fileToPart(imageFile);
-        const result = await retryWithBackoff(async () => {
-            const response = await ai.models.generateContent({
-                model: 'gemini-3-pro-image-preview',
-                contents: { parts: [
-                    { text: "Analyze this image's visual style in extreme detail. Describe its lighting, color palette, composition, camera properties (like lens and film type), texture, and overall mood. Formulate this analysis as a detailed, reusable prompt for an AI image generator." }, 
-                    imagePart
-                ] },
-            });
-            return response.text ?? '';
-        });
+        const provider = getProvider(options.provider);
+        const result = await retryWithBackoff(() => provider.describe({
+            prompt: "Analyze this image's visual style in extreme detail. Describe its lighting, color palette, composition, camera properties (like lens and film type), texture, and overall mood. Formulate this analysis as a detailed, reusable prompt for an AI image generator.",
+            image: imageFile,
+            signal: options.signal,
+        }), options.signal);
         if (!result) throw new Error("Style extraction returned an empty response.");
         return result;
     } catch (e) {
@@ -258,31 +197,67 @@ export const extractStyleFromImage = async (imageFile: File): Promise<string> =>
     }
 };
 
+// 'subject' and 'background' split the image along the main subject's outline;
+// a point (0..1 fractions of the image size) picks the object under it.
+export type SegmentTarget = 'subject' | 'background' | { x: number; y: number };
+
+// Returns a mask in the editor's format: white over the selection, transparent elsewhere.
+export const generateSegmentationMask = async (imageFile: File, target: SegmentTarget, options: ServiceOptions = {}): Promise<string> => {
+    try {
+        const provider = getProvider(options.provider);
+        trace(options, provider, 'text', undefined, 'generateSegmentationMask');
+        const mask = await retryWithBackoff(() => provider.segment({
+            image: imageFile,
+            point: typeof target === 'object' ? target : undefined,
+            signal: options.signal,
+        }), options.signal);
+        return target === 'background' ? await invertMaskImage(mask) : mask;
+    } catch (e) {
+        throw friendlyError(e);
+    }
+};
+
+const REFERENCE_GUIDANCE: Record<ReferenceRole, string> = {
+    style: 'match its artistic style, medium, brushwork, texture and lighting treatment; ignore its content',
+    subject: 'preserve the identity and defining features of its main subject',
+    composition: 'follow its layout, framing, camera angle and placement of elements; ignore its style and colors',
+    palette: 'adopt its color palette and grading; ignore everything else about it',
+};
+
+const describeWeight = (weight: number) => weight >= 0.75 ? 'strongly' : weight >= 0.4 ? 'moderately' : 'subtly';
+
+// Tells the model what each attached reference image is for. Appended to the
+// prompt; the images themselves follow the prompt (and source) in this order.
+const buildReferenceInstruction = (references: ReferenceImage[], hasSource: boolean): string => {
+    if (references.length === 0) return '';
+    const lines = references.map((ref, i) =>
+        `- Reference ${i + 1} (${ref.role.toUpperCase()}, weight ${Math.round(ref.weight * 100)}%): ${describeWeight(ref.weight)} ${REFERENCE_GUIDANCE[ref.role]}.`);
+    const position = hasSource ? 'after the source image' : 'after this prompt';
+    return `\n\nReference images: ${references.length} image${references.length > 1 ? 's are' : ' is'} attached ${position}, in this order. Use each only for its stated role and never reproduce a reference wholesale.\n${lines.join('\n')}`;
+};
+
 const generateImageModification = async (
     sourceFile: File,
     prompt: string,
     systemInstruction: string,
     context: string,
-    aspectRatio?: string
+    aspectRatio?: string,
+    options: ServiceOptions = {}
 ): Promise<string> => {
     try {
-        const modelName = 'gemini-2.5-flash-image';
-        const imagePart = await fileToPart(sourceFile);
-        const imageConfig: { aspectRatio?: string } = {};
-        if (aspectRatio) imageConfig.aspectRatio = aspectRatio;
-
-        const config: any = { systemInstruction, safetySettings };
-        if (Object.keys(imageConfig).length > 0) config.imageConfig = imageConfig;
-
-        const result = await retryWithBackoff(async () => {
-            const res = await ai.models.generateContent({
-                model: modelName,
-                contents: { parts: [{ text: prompt }, imagePart] },
-                config,
-            });
-            return handleApiResponse(res, context);
-        });
-        return result;
+        const provider = getProvider(options.provider);
+        trace(options, provider, 'image', systemInstruction, context);
+        const references = options.references ?? [];
+        return await withAspectRatioFallback(aspectRatio, (ratio) => retryWithBackoff(() => provider.imageToImage({
+            source: sourceFile,
+            prompt: prompt + buildReferenceInstruction(references, true),
+            references,
+            systemInstruction,
+            aspectRatio: ratio,
+            context,
+            signal: options.signal,
+            seed: options.seed,
+        }), options.signal));
     } catch (e) {
         throw friendlyError(e);
     }
@@ -293,167 +268,183 @@ export const generateImage = async (
     aspectRatio: string = '1:1',
     isChaos: boolean = false,
     systemInstruction?: string,
+    options: ServiceOptions = {}
 ): Promise<string> => {
     try {
-        const modelName = 'gemini-2.5-flash-image';
+        const provider = getProvider(options.provider);
         const chaosPrompt = isChaos ? ', chaotic, unpredictable, random elements, maximalist' : '';
-        const finalPrompt = prompt + chaosPrompt;
-        
-        const config: any = {
-            safetySettings,
-            imageConfig: { aspectRatio },
-        };
-        if (systemInstruction) config.systemInstruction = systemInstruction;
-
-        const result = await retryWithBackoff(async () => {
-            const res = await ai.models.generateContent({
-                model: modelName,
-                contents: { parts: [{ text: finalPrompt }] },
-                config,
-            });
-            return handleApiResponse(res, 'generateImage');
-        });
-        return result;
+        const references = options.references ?? [];
+        const finalPrompt = prompt + chaosPrompt + buildReferenceInstruction(references, false);
+        trace(options, provider, 'image', systemInstruction, 'generateImage');
+
+        return await withAspectRatioFallback(aspectRatio, (ratio) => retryWithBackoff(() => provider.textToImage({
+            prompt: finalPrompt,
+            references,
+            aspectRatio: ratio,
+            systemInstruction,
+            context: 'generateImage',
+            signal: options.signal,
+            seed: options.seed,
+        }), options.signal));
     } catch (e) {
         throw friendlyError(e);
     }
 };
 
-export const generateRealtimePreview = async (prompt: string): Promise<string> => {
+export const generateRealtimePreview = async (prompt: string, options: ServiceOptions = {}): Promise<string> => {
     try {
-        const modelName = 'gemini-2.5-flash-image';
-        
-        const config: any = {
-            safetySettings,
-            imageConfig: { aspectRatio: '1:1' },
+        const provider = getProvider(options.provider);
+        return await retryWithBackoff(() => provider.textToImage({
+            prompt,
+            aspectRatio: '1:1',
             systemInstruction: NEURAL_CANVAS_PROTOCOL,
-        };
-
-        const result = await retryWithBackoff(async () => {
-            const res = await ai.models.generateContent({
-                model: modelName,
-                contents: { parts: [{ text: prompt }] },
-                config,
-            });
-            return handleApiResponse(res, 'generateRealtimePreview');
-        }, 1, 500); // Only retry once for previews to keep it fast
-        return result;
+            context: 'generateRealtimePreview',
+            signal: options.signal,
+        }), options.signal, 1, 500); // Only retry once for previews to keep it fast
     } catch (e) {
         console.error("Neural Canvas preview failed:", getErrorMessage(e));
         return '';
     }
 };
 
+export const getVideoCapabilities = (provider?: ProviderId): VideoCapabilities => getProvider(provider).videoCapabilities;
+
+// Settings are snapped to what the provider's model supports first; callers
+// that want to show the user what changed run resolveVideoSettings themselves.
+// `frames.last` pins the clip's final frame and needs a `frames.first` to start from.
 export const generateVideo = async (
     prompt: string,
-    aspectRatio: string = '16:9',
-    imageFile: File | null = null
+    requested: VideoSettings = {},
+    frames: { first?: File | null; last?: File | null } = {},
+    options: ServiceOptions = {}
 ): Promise<string> => {
     try {
-        const modelName = 'veo-3.1-fast-generate-preview';
-
-        const payload: any = {
-            model: modelName,
-            prompt: prompt,
-            config: {
-                numberOfVideos: 1,
-                resolution: '720p',
-                aspectRatio: aspectRatio
-            }
-        };
-
-        if (imageFile) {
-            const imagePart = await fileToPart(imageFile);
-            payload.image = {
-                imageBytes: imagePart.inlineData.data,
-                mimeType: imagePart.inlineData.mimeType
-            };
-        }
-
-        let operation = await ai.models.generateVideos(payload);
-
-        while (!operation.done) {
-            console.log('Polling for video generation status...');
-            await new Promise(resolve => setTimeout(resolve, 10000));
-            operation = await ai.operations.getVideosOperation({ operation: operation });
-        }
-
-        const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-        if (!downloadLink) {
-            throw new Error("Video generation completed but no download link was found.");
+        const provider = getProvider(options.provider);
+        const { settings, adjustments } = resolveVideoSettings({ ...requested, seed: requested.seed ?? options.seed }, provider.videoCapabilities);
+        let lastFrame = frames.last ?? null;
+        if (lastFrame && !frames.first) throw new Error("An end frame needs a start frame to animate from.");
+        if (lastFrame && !provider.videoCapabilities.lastFrame) {
+            adjustments.push('End frame ignored (not supported by this model)');
+            lastFrame = null;
         }
-
-        const videoResponse = await fetch(`${downloadLink}&key=${API_KEY}`);
-        if (!videoResponse.ok) {
-            throw new Error(`Failed to download video: ${videoResponse.statusText}`);
-        }
-        const videoBlob = await videoResponse.blob();
-
-        return new Promise<string>((resolve, reject) => {
-            const reader = new FileReader();
-            reader.readAsDataURL(videoBlob);
-            reader.onloadend = () => {
-                resolve(reader.result as string);
-            };
-            reader.onerror = (error) => {
-                reject(error);
-            };
+        if (adjustments.length > 0) console.warn(`Video settings adjusted for ${provider.models.video}: ${adjustments.join('; ')}`);
+        trace(options, provider, 'video', undefined, 'generateVideo');
+        const result = await provider.generateVideo({
+            prompt: `${prompt}\n\n${describeMotion(settings.motionStrength)}`,
+            aspectRatio: settings.aspectRatio,
+            image: frames.first ?? null,
+            lastFrame,
+            durationSeconds: settings.durationSeconds,
+            fps: settings.fps,
+            resolution: settings.resolution,
+            negativePrompt: settings.negativePrompt,
+            seed: settings.seed,
+            signal: options.signal,
         });
+        throwIfAborted(options.signal);
+        return result;
     } catch (e) {
         throw friendlyError(e);
     }
 };
 
-export const generateFilteredImage = (source: File, prompt: string, aspectRatio?: string): Promise<string> => 
-    generateImageModification(source, prompt, PHOTO_EDITOR_PROTOCOL, 'generateFilteredImage', aspectRatio);
+export const generateFilteredImage = (source: File, prompt: string, aspectRatio?: string, options?: ServiceOptions): Promise<string> => 
+    generateImageModification(source, prompt, PHOTO_EDITOR_PROTOCOL, 'generateFilteredImage', aspectRatio, options);
 
-export const generateAdjustedImage = (source: File, prompt: string, aspectRatio?: string): Promise<string> => 
-    generateImageModification(source, prompt, PHOTO_EDITOR_PROTOCOL, 'generateAdjustedImage', aspectRatio);
+export const generateAdjustedImage = (source: File, prompt: string, aspectRatio?: string, options?: ServiceOptions): Promise<string> => 
+    generateImageModification(source, prompt, PHOTO_EDITOR_PROTOCOL, 'generateAdjustedImage', aspectRatio, options);
 
-export const generateTypographicImage = (source: File, prompt: string, aspectRatio?: string): Promise<string> => 
-    generateImageModification(source, prompt, TYPOGRAPHER_PROTOCOL, 'generateTypographicImage', aspectRatio);
+export const generateTypographicImage = (source: File, prompt: string, aspectRatio?: string, options?: ServiceOptions): Promise<string> => 
+    generateImageModification(source, prompt, TYPOGRAPHER_PROTOCOL, 'generateTypographicImage', aspectRatio, options);
 
-export const generateTypographicTextToImage = (prompt: string, aspectRatio?: string): Promise<string> => 
-    generateImage(prompt, aspectRatio, false, TYPOGRAPHER_PROTOCOL);
+export const generateTypographicTextToImage = (prompt: string, aspectRatio?: string, options?: ServiceOptions): Promise<string> => 
+    generateImage(prompt, aspectRatio, false, TYPOGRAPHER_PROTOCOL, options);
 
-export const generateVectorArtImage = (source: File, prompt: string, aspectRatio?: string): Promise<string> => 
-    generateImageModification(source, prompt, GRAPHIC_DESIGNER_PROTOCOL, 'generateVectorArtImage', aspectRatio);
+export const generateVectorArtImage = (source: File, prompt: string, aspectRatio?: string, options?: ServiceOptions): Promise<string> => 
+    generateImageModification(source, prompt, GRAPHIC_DESIGNER_PROTOCOL, 'generateVectorArtImage', aspectRatio, options);
 
-export const generateVectorTextToImage = (prompt: string, aspectRatio: string = '1:1'): Promise<string> =>
-    generateImage(prompt, aspectRatio, false, GRAPHIC_DESIGNER_PROTOCOL);
+export const generateVectorTextToImage = (prompt: string, aspectRatio: string = '1:1', options?: ServiceOptions): Promise<string> =>
+    generateImage(prompt, aspectRatio, false, GRAPHIC_DESIGNER_PROTOCOL, options);
 
-export const generateFluxTextToImage = (prompt: string, aspectRatio: string = '1:1', isChaos: boolean = false): Promise<string> => 
-    generateImage(prompt, aspectRatio, isChaos, ARTIST_PROTOCOL);
+export const generateFluxTextToImage = (prompt: string, aspectRatio: string = '1:1', isChaos: boolean = false, options?: ServiceOptions): Promise<string> => 
+    generateImage(prompt, aspectRatio, isChaos, ARTIST_PROTOCOL, options);
 
-export const generateFluxImage = (source: File, prompt: string, aspectRatio: string = '1:1', isChaos: boolean = false): Promise<string> => 
-    generateImageModification(source, prompt + (isChaos ? ', chaotic, unpredictable, random elements, maximalist' : ''), ARTIST_PROTOCOL, 'generateFluxImage', aspectRatio);
+export const generateFluxImage = (source: File, prompt: string, aspectRatio: string = '1:1', isChaos: boolean = false, options?: ServiceOptions): Promise<string> => 
+    generateImageModification(source, prompt + (isChaos ? ', chaotic, unpredictable, random elements, maximalist' : ''), ARTIST_PROTOCOL, 'generateFluxImage', aspectRatio, options);
 
-export const generateBatchImages = async (prompt: string, batchSize: number, aspectRatio: string = '1:1', isChaos: boolean = false): Promise<string[]> => {
+// One tile of a tiled upscale; see utils/upscale.ts for how tiles are cut and reassembled.
+export const generateUpscaledTile = (tile: File, options?: ServiceOptions): Promise<string> =>
+    generateImageModification(tile, 'Re-render this image at the highest possible resolution. Restore fine texture, crisp edges and natural detail, and remove blur, noise and compression artifacts. This is a tile cut from a larger image: do not change its content, framing, colors or lighting, and do not add borders.', PHOTO_EDITOR_PROTOCOL, 'generateUpscaledTile', undefined, options);
+
+export const generateBatchImages = async (prompt: string, batchSize: number, aspectRatio: string = '1:1', isChaos: boolean = false, options?: ServiceOptions): Promise<string[]> => {
     try {
-        const promises = Array.from({ length: batchSize }).map(() => generateFluxTextToImage(prompt, aspectRatio, isChaos));
+        let completed = 0;
+        const promises = Array.from({ length: batchSize }).map(async (_, i) => {
+            // Offset a fixed seed per image so the batch still contains distinct variants.
+            const seed = options?.seed !== undefined ? options.seed + i : undefined;
+            const result = await generateFluxTextToImage(prompt, aspectRatio, isChaos, { ...options, seed });
+            options?.onProgress?.(++completed / batchSize);
+            return result;
+        });
         return await Promise.all(promises);
     } catch (e) {
         throw friendlyError(e);
     }
 };
 
-export const generateInpaintedImage = async (sourceFile: File, maskBase64: string, instruction: string): Promise<string> => {
+const generateMaskedEdit = async (sourceFile: File, maskBase64: string, instruction: string, context: string, options: ServiceOptions): Promise<string> => {
     try {
-        const modelName = 'gemini-2.5-flash-image';
-        const imagePart = await fileToPart(sourceFile);
-        const maskPart = base64ToPart(maskBase64);
+        const provider = getProvider(options.provider);
         const finalInstruction = injectAntiCensor(instruction);
+        trace(options, provider, 'image', INPAINTING_PROTOCOL, context);
+
+        const result = await retryWithBackoff(() => provider.maskedEdit({
+            source: sourceFile,
+            maskBase64,
+            instruction: finalInstruction,
+            systemInstruction: INPAINTING_PROTOCOL,
+            context,
+            signal: options.signal,
+            seed: options.seed,
+        }), options.signal);
+        // The model repaints the whole frame; keep the source's own pixels outside the mask.
+        return await compositeMaskedResult(sourceFile, result, maskBase64);
+    } catch (e) {
+        throw friendlyError(e);
+    }
+};
 
-        const result = await retryWithBackoff(async () => {
-            const res = await ai.models.generateContent({
-                model: modelName,
-                contents: { parts: [{ text: finalInstruction }, imagePart, maskPart] },
-                config: { systemInstruction: INPAINTING_PROTOCOL, safetySettings },
-            });
-            return handleApiResponse(res, 'generateInpaintedImage');
+export const generateInpaintedImage = (sourceFile: File, maskBase64: string, instruction: string, options: ServiceOptions = {}): Promise<string> =>
+    generateMaskedEdit(sourceFile, maskBase64, instruction, 'generateInpaintedImage', options);
+
+// `paddedFile` and `maskBase64` come from prepareOutpaint: the original on a larger canvas with the new border masked.
+export const generateExpandedImage = (paddedFile: File, maskBase64: string, instruction: string, options: ServiceOptions = {}): Promise<string> =>
+    generateMaskedEdit(paddedFile, maskBase64, instruction, 'generateExpandedImage', options);
+
+// One area of a multi-region inpaint: its own mask and its own instruction.
+export interface InpaintRegion {
+    name: string;
+    prompt: string;
+    maskBase64: string;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Applies every region's instruction in a single call: the masks are merged
+// and the instruction tells the model where each edit belongs.
+export const generateRegionalInpaint = async (sourceFile: File, regions: InpaintRegion[], options: ServiceOptions = {}): Promise<string> => {
+    try {
+        const { mask, bounds } = await mergeMaskImages(regions.map(region => region.maskBase64));
+        const steps = regions.map((region, i) => {
+            const box = bounds[i];
+            const where = box
+                ? `the masked area spanning ${percent(box.x)}-${percent(box.x + box.width)} across and ${percent(box.y)}-${percent(box.y + box.height)} down the image`
+                : 'its masked area';
+            return `${i + 1}. "${region.name}" (${where}): ${region.prompt}`;
         });
-        return result;
+        const instruction = `The mask covers ${regions.length} separate regions. Apply each instruction only within its own region and keep the regions independent:\n${steps.join('\n')}`;
+        return await generateMaskedEdit(sourceFile, mask, instruction, 'generateRegionalInpaint', options);
     } catch (e) {
         throw friendlyError(e);
     }
-};
\ No newline at end of file
+};
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Identifiers of the generation backends the app knows about.
+export const PROVIDER_IDS = ['gemini', 'mock'] as const;
+export type ProviderId = typeof PROVIDER_IDS[number];
+
+export const isProviderId = (value: string): value is ProviderId => (PROVIDER_IDS as readonly string[]).includes(value);
+
+// Model ids a provider uses for each kind of call (recorded for diagnostics).
+export interface ProviderModels {
+    image: string;
+    text: string;
+    vision: string;
+    video: string;
+}
+
+// Every call can be cancelled; providers must stop work and reject with CancelledError.
+interface CancellableParams {
+    signal?: AbortSignal;
+}
+
+// Image calls accept a seed so a stored recipe can be replayed or re-rolled.
+interface SeededParams extends CancellableParams {
+    seed?: number;
+}
+
+export const REFERENCE_ROLES = ['style', 'subject', 'composition', 'palette'] as const;
+export type ReferenceRole = typeof REFERENCE_ROLES[number];
+
+// An extra conditioning image. Weight runs from 0 (barely) to 1 (strictly).
+export interface ReferenceImage {
+    file: File;
+    role: ReferenceRole;
+    weight: number;
+}
+
+// Providers send references after the prompt (and source image), in order;
+// the prompt already tells the model what each one is for.
+interface ReferencedParams extends SeededParams {
+    references?: ReferenceImage[];
+}
+
+export interface TextToImageParams extends ReferencedParams {
+    prompt: string;
+    aspectRatio?: string;
+    systemInstruction?: string;
+    context: string;
+}
+
+export interface ImageToImageParams extends ReferencedParams {
+    source: File;
+    prompt: string;
+    systemInstruction: string;
+    aspectRatio?: string;
+    context: string;
+}
+
+export interface MaskedEditParams extends SeededParams {
+    source: File;
+    maskBase64: string;
+    instruction: string;
+    systemInstruction: string;
+    context: string;
+}
+
+export interface DescribeParams extends CancellableParams {
+    prompt: string;
+    image?: File;
+}
+
+export interface SegmentParams extends CancellableParams {
+    image: File;
+    // Object to select, as 0..1 fractions of the image size; omitted means the main subject.
+    point?: { x: number; y: number };
+}
+
+export type VideoResolution = '720p' | '1080p';
+
+export interface VideoParams extends SeededParams {
+    prompt: string;
+    aspectRatio: string;
+    image?: File | null;
+    // End keyframe; only sent when `image` is set and the model supports it.
+    lastFrame?: File | null;
+    durationSeconds?: number;
+    fps?: number;
+    resolution?: VideoResolution;
+    negativePrompt?: string;
+}
+
+// What a provider's video model accepts. Requests are snapped to these values
+// by resolveVideoSettings before they reach the provider.
+export interface VideoCapabilities {
+    durations: number[];
+    fps: number[];
+    resolutions: VideoResolution[];
+    aspectRatios: string[];
+    // Resolutions that are only available at some durations.
+    resolutionDurations?: Partial<Record<VideoResolution, number[]>>;
+    negativePrompt: boolean;
+    seed: boolean;
+    // Whether a clip can be pinned to an end keyframe as well as a start frame.
+    lastFrame: boolean;
+}
+
+/**
+ * A generation backend. Every method returns a data URL (or plain text for
+ * `describe`) and throws raw backend errors; retrying and user-facing error
+ * formatting are handled by geminiService. `segment` returns a PNG mask at
+ * the image's size: opaque white over the selection, transparent elsewhere.
+ */
+export interface ImageProvider {
+    id: ProviderId;
+    label: string;
+    models: ProviderModels;
+    videoCapabilities: VideoCapabilities;
+    textToImage: (params: TextToImageParams) => Promise<string>;
+    imageToImage: (params: ImageToImageParams) => Promise<string>;
+    maskedEdit: (params: MaskedEditParams) => Promise<string>;
+    describe: (params: DescribeParams) => Promise<string>;
+    segment: (params: SegmentParams) => Promise<string>;
+    generateVideo: (params: VideoParams) => Promise<string>;
+}
+
+const providers = new Map<ProviderId, ImageProvider>();
+let defaultProviderId: ProviderId = 'gemini';
+
+export const registerProvider = (provider: ImageProvider): void => {
+    providers.set(provider.id, provider);
+};
+
+export const listProviders = (): ImageProvider[] => Array.from(providers.values());
+
+export const getDefaultProviderId = (): ProviderId => defaultProviderId;
+
+export const setDefaultProvider = (id: ProviderId): void => {
+    if (!providers.has(id)) throw new Error(`Unknown image provider: ${id}`);
+    defaultProviderId = id;
+};
+
+// Resolve a provider by id, falling back to the current default.
+export const getProvider = (id?: ProviderId): ImageProvider => {
+    const provider = providers.get(id ?? defaultProviderId);
+    if (!provider) throw new Error(`Unknown image provider: ${id ?? defaultProviderId}`);
+    return provider;
+};
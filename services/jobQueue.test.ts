@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createJobQueue, JobContext, MAX_SETTLED_JOBS } from './jobQueue';
+import { CancelledError } from './errors';
+
+const finish = async (queue: ReturnType<typeof createJobQueue>, result: unknown) => {
+    const { id, done } = queue.enqueue('job', async () => result);
+    await done;
+    // Let the queue's finally handler run.
+    await Promise.resolve();
+    return id;
+};
+
+// A job that runs until the test settles it, exposing its abort signal.
+const controllable = () => {
+    let resolve!: (value: string) => void;
+    let context!: JobContext;
+    const run = (ctx: JobContext) => {
+        context = ctx;
+        return new Promise<string>((res, rej) => {
+            resolve = res;
+            ctx.signal.addEventListener('abort', () => rej(new CancelledError()));
+        });
+    };
+    return { run, resolve: (value: string) => resolve(value), signal: () => context.signal };
+};
+
+const flush = async () => {
+    for (let i = 0; i < 5; i++) await Promise.resolve();
+};
+
+const statuses = (queue: ReturnType<typeof createJobQueue>) => queue.getSnapshot().map(job => job.status);
+
+describe('createJobQueue', () => {
+    it('records the project a job was started in', () => {
+        const queue = createJobQueue();
+        queue.enqueue('job', () => new Promise(() => {}), { projectId: 'project-a' });
+        expect(queue.getSnapshot()[0].projectId).toBe('project-a');
+    });
+
+    it('runs no more jobs at once than the concurrency limit', () => {
+        const queue = createJobQueue(2);
+        for (let i = 0; i < 4; i++) queue.enqueue(`job ${i}`, controllable().run);
+        expect(statuses(queue)).toEqual(['running', 'running', 'queued', 'queued']);
+    });
+
+    it('starts a queued job once a running one frees its slot', async () => {
+        const queue = createJobQueue(1);
+        const first = controllable();
+        const second = controllable();
+        const a = queue.enqueue('first', first.run);
+        const b = queue.enqueue('second', second.run);
+        expect(statuses(queue)).toEqual(['running', 'queued']);
+
+        first.resolve('one');
+        await expect(a.done).resolves.toBe('one');
+        await flush();
+        expect(statuses(queue)).toEqual(['succeeded', 'running']);
+
+        second.resolve('two');
+        await expect(b.done).resolves.toBe('two');
+    });
+
+    it('starts waiting jobs when the limit is raised', () => {
+        const queue = createJobQueue(1);
+        queue.enqueue('first', controllable().run);
+        queue.enqueue('second', controllable().run);
+        queue.setConcurrency(2);
+        expect(statuses(queue)).toEqual(['running', 'running']);
+    });
+
+    it('cancels a running job by aborting it and frees its slot', async () => {
+        const queue = createJobQueue(1);
+        const running = controllable();
+        const { id, done } = queue.enqueue('running', running.run);
+        queue.enqueue('waiting', controllable().run);
+
+        queue.cancel(id);
+        expect(running.signal().aborted).toBe(true);
+        await expect(done).rejects.toBeInstanceOf(CancelledError);
+        await flush();
+        expect(statuses(queue)).toEqual(['cancelled', 'running']);
+    });
+
+    it('cancels a queued job without ever running it', async () => {
+        const queue = createJobQueue(1);
+        queue.enqueue('running', controllable().run);
+        let started = false;
+        const { id, done } = queue.enqueue('queued', async () => {
+            started = true;
+            return 'never';
+        });
+
+        queue.cancel(id);
+        await expect(done).rejects.toBeInstanceOf(CancelledError);
+        expect(statuses(queue)).toEqual(['running', 'cancelled']);
+        expect(started).toBe(false);
+    });
+
+    it('drops a job result once it has been applied', async () => {
+        const queue = createJobQueue();
+        const id = await finish(queue, 'data:image/png;base64,AAAA');
+        expect(queue.getSnapshot()[0].result).toBe('data:image/png;base64,AAAA');
+
+        queue.markApplied(id);
+        const [job] = queue.getSnapshot();
+        expect(job.applied).toBe(true);
+        expect(job.result).toBeUndefined();
+    });
+
+    it('keeps only the most recent settled jobs', async () => {
+        const queue = createJobQueue();
+        const ids: string[] = [];
+        for (let i = 0; i < MAX_SETTLED_JOBS + 3; i++) {
+            const id = await finish(queue, i);
+            queue.markApplied(id);
+            ids.push(id);
+        }
+        expect(queue.getSnapshot().map(job => job.id)).toEqual(ids.slice(-MAX_SETTLED_JOBS));
+    });
+
+    it('never drops a result that has not been applied', async () => {
+        const queue = createJobQueue();
+        const pending = await finish(queue, 'keep me');
+        for (let i = 0; i < MAX_SETTLED_JOBS + 3; i++) queue.markApplied(await finish(queue, i));
+        const job = queue.getSnapshot().find(j => j.id === pending);
+        expect(job?.result).toBe('keep me');
+        expect(queue.getSnapshot()).toHaveLength(MAX_SETTLED_JOBS + 1);
+    });
+});
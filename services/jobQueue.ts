@@ -0,0 +1,186 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CancelledError } from "./errors";
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface Job<T = unknown> {
+    id: string;
+    label: string;
+    status: JobStatus;
+    // 0..1 once the runner reports progress, null while indeterminate.
+    progress: number | null;
+    createdAt: number;
+    startedAt?: number;
+    finishedAt?: number;
+    result?: T;
+    error?: Error;
+    // Set once the result has been delivered (e.g. added to history), at
+    // which point the queue drops its copy of the result.
+    applied?: boolean;
+    // The project the job was started in; its result belongs to that project only.
+    projectId?: string;
+}
+
+export interface JobContext {
+    signal: AbortSignal;
+    setProgress: (progress: number) => void;
+}
+
+export type JobRunner<T> = (context: JobContext) => Promise<T>;
+
+export interface EnqueueOptions {
+    projectId?: string;
+}
+
+export interface JobQueue<T = unknown> {
+    enqueue: (label: string, run: JobRunner<T>, options?: EnqueueOptions) => { id: string; done: Promise<T> };
+    cancel: (id: string) => void;
+    dismiss: (id: string) => void;
+    markApplied: (id: string) => void;
+    setConcurrency: (concurrency: number) => void;
+    getConcurrency: () => number;
+    getSnapshot: () => Job<T>[];
+    subscribe: (listener: () => void) => () => void;
+}
+
+interface Entry<T> {
+    job: Job<T>;
+    run: JobRunner<T>;
+    controller: AbortController;
+    resolve: (value: T) => void;
+    reject: (reason: Error) => void;
+}
+
+const isFinished = (status: JobStatus) => status === 'succeeded' || status === 'failed' || status === 'cancelled';
+
+// Finished jobs with nothing left to apply are kept for reference up to this
+// many; older ones are dropped. Unapplied results stay until applied or dismissed.
+export const MAX_SETTLED_JOBS = 10;
+
+const isSettled = (job: Job<unknown>) => isFinished(job.status) && (job.status !== 'succeeded' || !!job.applied);
+
+/**
+ * A small in-memory job queue. Jobs run in FIFO order with at most
+ * `concurrency` running at once; the job list is exposed as an immutable
+ * snapshot so React can subscribe with useSyncExternalStore.
+ */
+export const createJobQueue = <T = unknown>(initialConcurrency = 2): JobQueue<T> => {
+    const entries: Entry<T>[] = [];
+    const listeners = new Set<() => void>();
+    let concurrency = Math.max(1, initialConcurrency);
+    let snapshot: Job<T>[] = [];
+    let nextId = 1;
+
+    // Drops the settled jobs that finished longest ago.
+    const prune = () => {
+        const settled = entries.filter(e => isSettled(e.job)).sort((a, b) => (a.job.finishedAt ?? 0) - (b.job.finishedAt ?? 0));
+        settled.slice(0, Math.max(0, settled.length - MAX_SETTLED_JOBS)).forEach(stale => entries.splice(entries.indexOf(stale), 1));
+    };
+
+    const emit = () => {
+        snapshot = entries.map(e => e.job);
+        listeners.forEach(listener => listener());
+    };
+
+    const update = (entry: Entry<T>, patch: Partial<Job<T>>) => {
+        entry.job = { ...entry.job, ...patch };
+        // Pruning never runs inside pump's loop: only a finish or an apply settles a job.
+        if (isSettled(entry.job)) prune();
+        emit();
+    };
+
+    const pump = () => {
+        let running = entries.filter(e => e.job.status === 'running').length;
+        for (const entry of entries) {
+            if (running >= concurrency) break;
+            if (entry.job.status !== 'queued') continue;
+            running++;
+            start(entry);
+        }
+    };
+
+    const start = (entry: Entry<T>) => {
+        update(entry, { status: 'running', startedAt: Date.now() });
+        const { signal } = entry.controller;
+        entry.run({
+            signal,
+            setProgress: (progress) => {
+                if (entry.job.status === 'running') update(entry, { progress: Math.max(0, Math.min(1, progress)) });
+            },
+        }).then(result => {
+            if (signal.aborted) throw new CancelledError();
+            update(entry, { status: 'succeeded', progress: 1, result, finishedAt: Date.now() });
+            entry.resolve(result);
+        }).catch((error: Error) => {
+            const cancelled = signal.aborted || error instanceof CancelledError;
+            update(entry, { status: cancelled ? 'cancelled' : 'failed', error, finishedAt: Date.now() });
+            entry.reject(error);
+        }).finally(pump);
+    };
+
+    return {
+        enqueue: (label, run, options = {}) => {
+            const id = `job-${Date.now()}-${nextId++}`;
+            let resolve!: (value: T) => void;
+            let reject!: (reason: Error) => void;
+            const done = new Promise<T>((res, rej) => {
+                resolve = res;
+                reject = rej;
+            });
+            entries.push({
+                job: { id, label, status: 'queued', progress: null, createdAt: Date.now(), projectId: options.projectId },
+                run,
+                controller: new AbortController(),
+                resolve,
+                reject,
+            });
+            emit();
+            pump();
+            return { id, done };
+        },
+
+        cancel: (id) => {
+            const entry = entries.find(e => e.job.id === id);
+            if (!entry || isFinished(entry.job.status)) return;
+            entry.controller.abort();
+            if (entry.job.status === 'queued') {
+                const error = new CancelledError();
+                update(entry, { status: 'cancelled', error, finishedAt: Date.now() });
+                entry.reject(error);
+            }
+        },
+
+        dismiss: (id) => {
+            const index = entries.findIndex(e => e.job.id === id);
+            if (index === -1 || !isFinished(entries[index].job.status)) return;
+            entries.splice(index, 1);
+            emit();
+        },
+
+        markApplied: (id) => {
+            const entry = entries.find(e => e.job.id === id);
+            if (entry) update(entry, { applied: true, result: undefined });
+        },
+
+        setConcurrency: (value) => {
+            concurrency = Math.max(1, Math.floor(value));
+            emit();
+            pump();
+        },
+
+        getConcurrency: () => concurrency,
+
+        getSnapshot: () => snapshot,
+
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+    };
+};
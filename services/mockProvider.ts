@@ -0,0 +1,303 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GenerateContentResponse, BlockedReason } from "@google/genai";
+import type { ImageProvider, ReferenceImage } from "./imageProvider";
+import { handleApiResponse, blobToDataUrl } from "./geminiProvider";
+import { FileAccessError } from "./errors";
+import { sleep, throwIfAborted } from "../utils/abort";
+import { recordCanvas } from "../utils/canvasRecorder";
+import { createCanvas, loadImage as loadSourceImage } from "../utils/canvas";
+
+// Offline stand-in backend. Renders synthetic canvases that encode the prompt
+// and seed, so every generation path can run without network access.
+
+export const MOCK_FAILURES = ['none', 'quota', 'unavailable', 'safety', 'text'] as const;
+export type MockFailure = typeof MOCK_FAILURES[number];
+
+export interface MockProviderConfig {
+    latencyMs: number;
+    failure: MockFailure;
+    // How many calls fail before the provider recovers. Infinity = always fail.
+    failureCount: number;
+    videoDurationMs: number;
+}
+
+const DEFAULT_CONFIG: MockProviderConfig = {
+    latencyMs: 600,
+    failure: 'none',
+    failureCount: Infinity,
+    videoDurationMs: 2000,
+};
+
+let config: MockProviderConfig = { ...DEFAULT_CONFIG };
+let failuresRemaining = config.failureCount;
+
+export const configureMockProvider = (overrides: Partial<MockProviderConfig>): void => {
+    config = { ...config, ...overrides };
+    failuresRemaining = config.failureCount;
+};
+
+export const resetMockProvider = (): void => configureMockProvider(DEFAULT_CONFIG);
+
+export const getMockProviderConfig = (): MockProviderConfig => ({ ...config });
+
+const isMockFailure = (value: string): value is MockFailure => (MOCK_FAILURES as readonly string[]).includes(value);
+
+/**
+ * Reads failure injection from a URL query, so error paths can be exercised in
+ * the running app: `mockFailure` (one of MOCK_FAILURES), `mockFailures` (how
+ * many calls fail before recovering) and `mockLatency` (ms). Unknown values are
+ * reported and ignored.
+ */
+export const configureMockProviderFromQuery = (search: string): void => {
+    const params = new URLSearchParams(search);
+    const overrides: Partial<MockProviderConfig> = {};
+    const failure = params.get('mockFailure');
+    if (failure !== null) {
+        if (isMockFailure(failure)) overrides.failure = failure;
+        else console.error(`mockFailure="${failure}" is not one of ${MOCK_FAILURES.join(', ')}.`);
+    }
+    const count = params.get('mockFailures');
+    if (count !== null) {
+        const parsed = Number(count);
+        if (Number.isInteger(parsed) && parsed >= 0) overrides.failureCount = parsed;
+        else console.error(`mockFailures="${count}" must be a whole number.`);
+    }
+    const latency = params.get('mockLatency');
+    if (latency !== null) {
+        const parsed = Number(latency);
+        if (Number.isFinite(parsed) && parsed >= 0) overrides.latencyMs = parsed;
+        else console.error(`mockLatency="${latency}" must be a number of milliseconds.`);
+    }
+    if (Object.keys(overrides).length > 0) configureMockProvider(overrides);
+};
+
+// FNV-1a string hash, used to derive a stable seed from the prompt when none is given.
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+// Mulberry32 PRNG: same seed, same sequence.
+const createRandom = (seed: number) => {
+    let state = seed;
+    return () => {
+        state = (state + 0x6D2B79F5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const dimensionsFor = (aspectRatio: string = '1:1', longSide = 768): { width: number; height: number } => {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    if (!w || !h) return { width: longSide, height: longSide };
+    return w >= h
+        ? { width: longSide, height: Math.round(longSide * h / w) }
+        : { width: Math.round(longSide * w / h), height: longSide };
+};
+
+// A source the browser can no longer read surfaces the way the real providers report it.
+const loadImage = (source: File | string): Promise<HTMLImageElement> =>
+    loadSourceImage(source).catch(e => { throw new FileAccessError({ cause: e }); });
+
+const drawPattern = (ctx: CanvasRenderingContext2D, width: number, height: number, seed: number, alpha = 1) => {
+    const random = createRandom(seed);
+    const hue = Math.floor(random() * 360);
+    ctx.save();
+    ctx.globalAlpha = alpha;
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${hue}, 70%, 35%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 120) % 360}, 70%, 15%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+    for (let i = 0; i < 24; i++) {
+        ctx.fillStyle = `hsla(${(hue + random() * 180) % 360}, 80%, ${40 + random() * 30}%, 0.6)`;
+        ctx.beginPath();
+        ctx.arc(random() * width, random() * height, 10 + random() * Math.min(width, height) / 5, 0, Math.PI * 2);
+        ctx.fill();
+    }
+    ctx.restore();
+};
+
+const drawCaption = (ctx: CanvasRenderingContext2D, width: number, height: number, lines: string[]) => {
+    ctx.save();
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.65)';
+    const boxHeight = 18 + lines.length * 18;
+    ctx.fillRect(0, height - boxHeight, width, boxHeight);
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = '14px monospace';
+    lines.forEach((line, i) => ctx.fillText(line.substring(0, 90), 10, height - boxHeight + 22 + i * 18));
+    ctx.restore();
+};
+
+// Shared preamble for every call: simulated latency, then any injected failure.
+// Transport failures throw; response-level failures return a fake
+// GenerateContentResponse so they travel through handleApiResponse.
+const simulateCall = async (signal?: AbortSignal): Promise<GenerateContentResponse | null> => {
+    await sleep(config.latencyMs, signal);
+    if (config.failure === 'none' || failuresRemaining <= 0) return null;
+    failuresRemaining--;
+
+    switch (config.failure) {
+        case 'quota':
+            throw new Error('[429 Too Many Requests] RESOURCE_EXHAUSTED: mock quota exceeded');
+        case 'unavailable':
+            throw new Error('[503 Service Unavailable] The model is overloaded. Please try again later.');
+        case 'safety': {
+            const response = new GenerateContentResponse();
+            response.promptFeedback = { blockReason: BlockedReason.SAFETY };
+            return response;
+        }
+        case 'text': {
+            const response = new GenerateContentResponse();
+            response.candidates = [{ content: { role: 'model', parts: [{ text: 'I cannot create that image, but here is a description instead.' }] } }];
+            return response;
+        }
+    }
+    return null;
+};
+
+const toImageResult = (canvas: HTMLCanvasElement, context: string): string => {
+    const dataUrl = canvas.toDataURL('image/png');
+    const response = new GenerateContentResponse();
+    response.candidates = [{ content: { role: 'model', parts: [{ inlineData: { mimeType: 'image/png', data: dataUrl.split(',')[1] } }] } }];
+    return handleApiResponse(response, context);
+};
+
+// Lists the references a mock call received, so the plumbing is visible in the result.
+const describeReferences = (references: ReferenceImage[]): string[] =>
+    references.length ? [`refs: ${references.map(r => `${r.role} ${Math.round(r.weight * 100)}%`).join(', ')}`] : [];
+
+export const mockProvider: ImageProvider = {
+    id: 'mock',
+    label: 'Offline Mock',
+    models: {
+        image: 'mock-image-1',
+        text: 'mock-text-1',
+        vision: 'mock-vision-1',
+        video: 'mock-video-1',
+    },
+    // Clips always last config.videoDurationMs; the requested duration is only captioned.
+    videoCapabilities: {
+        durations: [2, 4, 6, 8],
+        fps: [24, 30],
+        resolutions: ['720p'],
+        aspectRatios: ['16:9', '9:16', '1:1', '4:3', '21:9'],
+        negativePrompt: true,
+        seed: true,
+        lastFrame: true,
+    },
+
+    textToImage: async ({ prompt, aspectRatio, context, signal, seed: requestedSeed, references = [] }) => {
+        const failed = await simulateCall(signal);
+        if (failed) return handleApiResponse(failed, context);
+
+        const seed = requestedSeed ?? hashString(prompt);
+        const { width, height } = dimensionsFor(aspectRatio);
+        const { canvas, ctx } = createCanvas(width, height);
+        drawPattern(ctx, width, height, seed);
+        drawCaption(ctx, width, height, [`MOCK ${context}`, `seed: ${seed}`, ...describeReferences(references), prompt]);
+        return toImageResult(canvas, context);
+    },
+
+    imageToImage: async ({ source, prompt, aspectRatio, context, signal, seed: requestedSeed, references = [] }) => {
+        const failed = await simulateCall(signal);
+        if (failed) return handleApiResponse(failed, context);
+
+        const img = await loadImage(source);
+        const seed = requestedSeed ?? hashString(prompt);
+        const { width, height } = aspectRatio
+            ? dimensionsFor(aspectRatio, Math.max(img.naturalWidth, img.naturalHeight))
+            : { width: img.naturalWidth, height: img.naturalHeight };
+        const { canvas, ctx } = createCanvas(width, height);
+        ctx.drawImage(img, 0, 0, width, height);
+        drawPattern(ctx, width, height, seed, 0.35);
+        drawCaption(ctx, width, height, [`MOCK ${context}`, `seed: ${seed}`, ...describeReferences(references), prompt]);
+        return toImageResult(canvas, context);
+    },
+
+    maskedEdit: async ({ source, maskBase64, instruction, context, signal, seed: requestedSeed }) => {
+        const failed = await simulateCall(signal);
+        if (failed) return handleApiResponse(failed, context);
+
+        const [img, mask] = await Promise.all([loadImage(source), loadImage(maskBase64)]);
+        const { naturalWidth: width, naturalHeight: height } = img;
+        const seed = requestedSeed ?? hashString(instruction);
+
+        // Paint the synthetic pattern only where the mask is set.
+        const patch = createCanvas(width, height);
+        drawPattern(patch.ctx, width, height, seed);
+        patch.ctx.globalCompositeOperation = 'destination-in';
+        patch.ctx.drawImage(mask, 0, 0, width, height);
+
+        const { canvas, ctx } = createCanvas(width, height);
+        ctx.drawImage(img, 0, 0);
+        ctx.drawImage(patch.canvas, 0, 0);
+        drawCaption(ctx, width, height, [`MOCK ${context}`, `seed: ${seed}`]);
+        return toImageResult(canvas, context);
+    },
+
+    describe: async ({ prompt, image, signal }) => {
+        const failed = await simulateCall(signal);
+        if (failed) return handleApiResponse(failed, 'describe');
+
+        const seed = hashString(prompt + (image ? image.name : ''));
+        return image
+            ? `A synthetic mock scene (seed ${seed}) with bold gradients, soft circular light blooms and a centered subject, lit from the upper left.`
+            : `${prompt.replace(/^.*Original prompt: /, '')}, vivid mock detail, seed ${seed}`;
+    },
+
+    // Selects an ellipse: the centred "subject", or an object-sized blob around the point.
+    segment: async ({ image, point, signal }) => {
+        const failed = await simulateCall(signal);
+        if (failed) return handleApiResponse(failed, 'segment');
+
+        const img = await loadImage(image);
+        const { naturalWidth: width, naturalHeight: height } = img;
+        const { canvas, ctx } = createCanvas(width, height);
+        const radius = Math.min(width, height) * 0.15;
+        ctx.fillStyle = '#FFFFFF';
+        ctx.beginPath();
+        if (point) ctx.ellipse(point.x * width, point.y * height, radius, radius, 0, 0, Math.PI * 2);
+        else ctx.ellipse(width / 2, height / 2, width * 0.3, height * 0.4, 0, 0, Math.PI * 2);
+        ctx.fill();
+        return toImageResult(canvas, 'segment');
+    },
+
+    generateVideo: async ({ prompt, aspectRatio, image, lastFrame, signal, seed: requestedSeed, durationSeconds, fps = 30, resolution = '720p' }) => {
+        const failed = await simulateCall(signal);
+        if (failed) return handleApiResponse(failed, 'generateVideo');
+
+        const seed = requestedSeed ?? hashString(prompt);
+        const { width, height } = dimensionsFor(aspectRatio, 640);
+        const { canvas, ctx } = createCanvas(width, height);
+        const still = image ? await loadImage(image) : null;
+        const end = still && lastFrame ? await loadImage(lastFrame) : null;
+
+        const blob = await recordCanvas(canvas, config.videoDurationMs, fps, (t) => {
+            if (still) {
+                const zoom = 1 + t * 0.2;
+                ctx.drawImage(still, -width * (zoom - 1) / 2, -height * (zoom - 1) / 2, width * zoom, height * zoom);
+                if (end) {
+                    // Cross-fade into the end keyframe so the clip lands on it.
+                    ctx.globalAlpha = t;
+                    ctx.drawImage(end, 0, 0, width, height);
+                    ctx.globalAlpha = 1;
+                }
+            } else {
+                drawPattern(ctx, width, height, seed + Math.floor(t * 30));
+            }
+            drawCaption(ctx, width, height, ['MOCK generateVideo', `seed: ${seed}  t=${t.toFixed(2)}`, `${durationSeconds ?? '-'}s @ ${fps} fps, ${resolution}`, prompt]);
+        }, signal);
+        throwIfAborted(signal);
+        return blobToDataUrl(blob);
+    },
+};
@@ -3,19 +3,27 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
+import type { GenerationRequest } from '../App';
+import type { ReferenceImage, ReferenceRole } from './imageProvider';
+import { HistoryNode, HistoryTree, Recipe, createEmptyTree, treeFromLinearHistory } from '../utils/historyTree';
+
 const DB_NAME = 'PixshopDB';
-const DB_VERSION = 1;
-const STORE_NAME = 'history';
+// v1 kept each session as a single record with base64-encoded media.
+// v2 splits projects, history nodes and content-addressed asset blobs.
+const DB_VERSION = 2;
+const LEGACY_STORE = 'history';
+const PROJECTS_STORE = 'projects';
+const NODES_STORE = 'nodes';
+const ASSETS_STORE = 'assets';
+const ACTIVE_PROJECT_KEY = 'pixshop-active-project';
+const THUMBNAIL_SIZE = 160;
 
-// Helper: Blob to Base64
-const blobToBase64 = (blob: Blob): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => resolve(reader.result as string);
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
-  });
-};
+// Fraction of the browser's storage quota at which the app starts warning.
+export const STORAGE_WARNING_RATIO = 0.8;
+
+export const DEFAULT_PROJECT_NAME = 'Untitled Project';
+// Id of the single session saved before the project library existed.
+export const LEGACY_PROJECT_ID = 'current';
 
 // Helper: Base64 to File
 const base64ToFile = (dataurl: string, filename: string, mimeType: string, lastModified: number): File => {
@@ -34,8 +42,68 @@ const base64ToFile = (dataurl: string, filename: string, mimeType: string, lastM
     return new File([u8arr], filename, {type: mimeType, lastModified: lastModified});
 }
 
-// Fix: Define the SerializedFile interface.
-interface SerializedFile {
+// Media of a stored node: either a reference into the asset store, or a remote URL.
+interface StoredMedia {
+    name: string;
+    type: string;
+    lastModified: number;
+    hash?: string;
+    url?: string;
+}
+
+// A recipe's reference image; the file lives in the asset store like node media.
+interface StoredReference {
+    role: ReferenceRole;
+    weight: number;
+    media: StoredMedia;
+}
+
+// Recipes are stored as plain data with their reference images swapped for asset entries.
+type SerializedRecipe = Omit<Recipe, 'request'> & {
+    request: Omit<GenerationRequest, 'references'> & { references?: StoredReference[] };
+};
+
+interface StoredNode {
+    projectId: string;
+    id: string;
+    parentId: string | null;
+    media: StoredMedia;
+    recipe?: SerializedRecipe;
+    createdAt: number;
+}
+
+// Each distinct file is stored once, keyed by the SHA-256 of its bytes, and
+// may be shared by any number of nodes across projects.
+interface StoredAsset {
+    hash: string;
+    blob: Blob;
+    type: string;
+    size: number;
+    createdAt: number;
+}
+
+// Project metadata and navigation state; small enough to rewrite on every save.
+interface StoredProject {
+    id: string;
+    name: string;
+    thumbnail?: string; // Small JPEG data URL of the current image
+    thumbnailNodeId?: string | null;
+    nodeCount: number;
+    currentId: string | null;
+    activeChildIds: Record<string, string>;
+    starredIds?: string[];
+    activeTab: string;
+    hakiEnabled?: boolean;
+    hakiColor?: string;
+    hakiSize?: number;
+    hakiSpeed?: number;
+    isPlatinumTier?: boolean;
+    createdAt: number;
+    timestamp: number;
+}
+
+// v1 storage format, read only by the migration.
+interface LegacySerializedFile {
     name: string;
     type: string;
     lastModified: number;
@@ -43,24 +111,29 @@ interface SerializedFile {
     isUrl?: boolean;
 }
 
-// Internal storage format
-interface StoredAppState {
-    id: string; // 'current'
-    history: SerializedFile[];
-    historyIndex: number;
+interface LegacyAppState {
+    id: string;
+    name?: string;
+    createdAt?: number;
+    // v1 recipes never carried reference images, so they already have the in-memory shape.
+    nodes?: (Omit<StoredNode, 'projectId' | 'media' | 'recipe'> & { media: LegacySerializedFile; recipe?: Recipe })[];
+    currentId?: string | null;
+    activeChildIds?: Record<string, string>;
+    history?: LegacySerializedFile[];
+    historyIndex?: number;
     activeTab: string;
     hakiEnabled?: boolean;
     hakiColor?: string;
     hakiSize?: number;
     hakiSpeed?: number;
-    isPlatinumTier?: boolean; // New Platinum flag
+    isPlatinumTier?: boolean;
     timestamp: number;
 }
 
 // Public Interface used by the App
-interface AppState {
-    history: (File | string)[];
-    historyIndex: number;
+export interface AppState {
+    name: string;
+    historyTree: HistoryTree;
     activeTab: string;
     hakiEnabled?: boolean;
     hakiColor?: string;
@@ -69,19 +142,133 @@ interface AppState {
     isPlatinumTier?: boolean; // New Platinum flag
 }
 
-const openDB = (): Promise<IDBDatabase> => {
+// Library listing entry; built without decoding any stored media.
+export interface ProjectSummary {
+    id: string;
+    name: string;
+    thumbnail?: string;
+    nodeCount: number;
+    createdAt: number;
+    updatedAt: number;
+}
+
+// History nodes are immutable once created, so a node only has to be written
+// the first time a save sees it. These caches remember what is already on disk.
+const savedNodeIds = new Map<string, Set<string>>();
+const blobHashes = new WeakMap<Blob, string>();
+const saveQueues = new Map<string, Promise<void>>();
+
+const hashBlob = async (blob: Blob): Promise<string> => {
+    const cached = blobHashes.get(blob);
+    if (cached) return cached;
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    const hash = Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+    blobHashes.set(blob, hash);
+    return hash;
+};
+
+// Hashes `file` and queues it for the asset store, returning the entry that points at it.
+const storeFile = async (file: File, newAssets: Map<string, StoredAsset>): Promise<StoredMedia> => {
+    const hash = await hashBlob(file);
+    newAssets.set(hash, { hash, blob: file, type: file.type, size: file.size, createdAt: Date.now() });
+    return { name: file.name, type: file.type, lastModified: file.lastModified, hash };
+};
+
+const serializeRecipe = async (recipe: Recipe | undefined, newAssets: Map<string, StoredAsset>): Promise<SerializedRecipe | undefined> => {
+    if (!recipe) return undefined;
+    const { references, ...request } = recipe.request;
+    if (!references?.length) return { ...recipe, request };
+    const stored: StoredReference[] = [];
+    for (const { file, role, weight } of references) stored.push({ role, weight, media: await storeFile(file, newAssets) });
+    return { ...recipe, request: { ...request, references: stored } };
+};
+
+// Every asset a stored node keeps alive: its media and its recipe's reference images.
+const getNodeAssetHashes = (node: StoredNode): string[] =>
+    [node.media.hash, ...(node.recipe?.request.references ?? []).map(ref => ref.media.hash)]
+        .filter((hash): hash is string => !!hash);
+
+const createThumbnail = (file: File): Promise<string | undefined> => new Promise((resolve) => {
+    if (!file.type.startsWith('image/')) {
+        resolve(undefined);
+        return;
+    }
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+        URL.revokeObjectURL(url);
+        const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+        canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+        canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL('image/jpeg', 0.7));
+    };
+    img.onerror = () => {
+        URL.revokeObjectURL(url);
+        resolve(undefined);
+    };
+    img.src = url;
+});
+
+export const createProjectId = (): string => `project-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+
+export const getActiveProjectId = (): string | null => {
+    try {
+        return localStorage.getItem(ACTIVE_PROJECT_KEY);
+    } catch (e) {
+        console.warn('Failed to read active project:', e);
+        return null;
+    }
+};
+
+export const setActiveProjectId = (id: string): void => {
+    try {
+        localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+    } catch (e) {
+        console.warn('Failed to save active project:', e);
+    }
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+const openConnection = (): Promise<IDBDatabase> => {
     return new Promise((resolve, reject) => {
         const request = indexedDB.open(DB_NAME, DB_VERSION);
 
         request.onupgradeneeded = (event) => {
             const db = (event.target as IDBOpenDBRequest).result;
-            if (!db.objectStoreNames.contains(STORE_NAME)) {
-                db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            // The v1 store is left in place; its records are moved out by migrateLegacyProjects
+            // once the connection is open, because hashing cannot run inside an upgrade.
+            if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+                db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(NODES_STORE)) {
+                const nodes = db.createObjectStore(NODES_STORE, { keyPath: ['projectId', 'id'] });
+                nodes.createIndex('projectId', 'projectId');
+            }
+            if (!db.objectStoreNames.contains(ASSETS_STORE)) {
+                db.createObjectStore(ASSETS_STORE, { keyPath: 'hash' });
             }
         };
 
         request.onsuccess = (event) => {
-            resolve((event.target as IDBOpenDBRequest).result);
+            const db = (event.target as IDBOpenDBRequest).result;
+            // Let nukeDatabase (or a newer tab) delete or upgrade the database.
+            db.onversionchange = () => {
+                db.close();
+                dbPromise = null;
+            };
+            resolve(db);
         };
 
         request.onerror = (event) => {
@@ -90,10 +277,198 @@ const openDB = (): Promise<IDBDatabase> => {
     });
 };
 
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// One shared connection per page, migrated from the v1 layout before first use.
+const openDB = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = openConnection().then(async (db) => {
+            await migrateLegacyProjects(db);
+            return db;
+        });
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const deserializeLegacyMedia = (f: LegacySerializedFile): File | string =>
+    f.isUrl ? f.data : base64ToFile(f.data, f.name, f.type, f.lastModified);
+
+// Moves every v1 record into the v2 stores, one project at a time, deleting each
+// legacy record only after its project has been written.
+const migrateLegacyProjects = async (db: IDBDatabase): Promise<void> => {
+    if (!db.objectStoreNames.contains(LEGACY_STORE)) return;
+    const legacyStore = db.transaction(LEGACY_STORE, 'readonly').objectStore(LEGACY_STORE);
+    const records = await requestToPromise(legacyStore.getAll()) as LegacyAppState[];
+
+    for (const record of records) {
+        let historyTree = createEmptyTree();
+        if (record.nodes) {
+            historyTree = {
+                nodes: Object.fromEntries(record.nodes.map(n => [n.id, { ...n, media: deserializeLegacyMedia(n.media) }])),
+                currentId: record.currentId ?? null,
+                activeChildIds: record.activeChildIds ?? {},
+                starredIds: [],
+            };
+        } else if (record.history) {
+            historyTree = treeFromLinearHistory(record.history.map(deserializeLegacyMedia), record.historyIndex ?? 0);
+        }
+
+        await writeProject(db, record.id, {
+            name: record.name ?? DEFAULT_PROJECT_NAME,
+            historyTree,
+            activeTab: record.activeTab,
+            hakiEnabled: record.hakiEnabled,
+            hakiColor: record.hakiColor,
+            hakiSize: record.hakiSize,
+            hakiSpeed: record.hakiSpeed,
+            isPlatinumTier: record.isPlatinumTier,
+        }, record.createdAt ?? record.timestamp);
+
+        const tx = db.transaction(LEGACY_STORE, 'readwrite');
+        tx.objectStore(LEGACY_STORE).delete(record.id);
+        await transactionDone(tx);
+    }
+};
+
+const getStoredNodeIds = async (db: IDBDatabase, projectId: string): Promise<Set<string>> => {
+    const cached = savedNodeIds.get(projectId);
+    if (cached) return cached;
+    const index = db.transaction(NODES_STORE, 'readonly').objectStore(NODES_STORE).index('projectId');
+    const keys = await requestToPromise(index.getAllKeys(IDBKeyRange.only(projectId)));
+    const ids = new Set(keys.map(key => (key as [string, string])[1]));
+    savedNodeIds.set(projectId, ids);
+    return ids;
+};
+
+export interface GarbageCollectionResult {
+    deletedAssets: number;
+    freedBytes: number;
+}
+
+// Deletes assets that no node references any more.
+const deleteUnreferencedAssets = async (db: IDBDatabase): Promise<GarbageCollectionResult> => {
+    const result: GarbageCollectionResult = { deletedAssets: 0, freedBytes: 0 };
+    const tx = db.transaction([NODES_STORE, ASSETS_STORE], 'readwrite');
+    const nodesRequest = tx.objectStore(NODES_STORE).getAll();
+    nodesRequest.onsuccess = () => {
+        const referenced = new Set((nodesRequest.result as StoredNode[]).flatMap(getNodeAssetHashes));
+        const cursorRequest = tx.objectStore(ASSETS_STORE).openCursor();
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            const asset = cursor.value as StoredAsset;
+            if (!referenced.has(asset.hash)) {
+                cursor.delete();
+                result.deletedAssets++;
+                result.freedBytes += asset.size;
+            }
+            cursor.continue();
+        };
+    };
+    await transactionDone(tx);
+    return result;
+};
+
+/**
+ * Writes the difference between `state.historyTree` and what is already stored
+ * for the project: new nodes (and any assets not yet in the store) are added,
+ * nodes missing from the tree are removed, and the project record is replaced.
+ */
+const writeProject = async (db: IDBDatabase, projectId: string, state: AppState, createdAt?: number): Promise<void> => {
+    const { historyTree } = state;
+    const stored = await getStoredNodeIds(db, projectId);
+    const existing = await requestToPromise(
+        db.transaction(PROJECTS_STORE, 'readonly').objectStore(PROJECTS_STORE).get(projectId)
+    ) as StoredProject | undefined;
+
+    const added = Object.values(historyTree.nodes).filter(node => !stored.has(node.id));
+    const removed = [...stored].filter(id => !historyTree.nodes[id]);
+
+    // Everything async happens before the write transaction opens, which would
+    // otherwise auto-commit while we wait on hashing or image decoding.
+    const newNodes: StoredNode[] = [];
+    const newAssets = new Map<string, StoredAsset>();
+    for (const node of added) {
+        const media: StoredMedia = typeof node.media === 'string'
+            ? { name: 'remote-video.mp4', type: 'video/mp4', lastModified: node.createdAt, url: node.media }
+            : await storeFile(node.media, newAssets);
+        const recipe = await serializeRecipe(node.recipe, newAssets);
+        newNodes.push({ projectId, id: node.id, parentId: node.parentId, media, recipe, createdAt: node.createdAt });
+    }
+
+    let thumbnail = existing?.thumbnail;
+    if (existing?.thumbnailNodeId !== historyTree.currentId || !existing) {
+        const currentMedia = historyTree.currentId ? historyTree.nodes[historyTree.currentId]?.media : undefined;
+        thumbnail = currentMedia instanceof File ? await createThumbnail(currentMedia) : undefined;
+    }
+
+    const tx = db.transaction([PROJECTS_STORE, NODES_STORE, ASSETS_STORE], 'readwrite');
+    const assets = tx.objectStore(ASSETS_STORE);
+    newAssets.forEach(asset => {
+        const lookup = assets.getKey(asset.hash);
+        lookup.onsuccess = () => {
+            if (lookup.result === undefined) assets.put(asset);
+        };
+    });
+    const nodes = tx.objectStore(NODES_STORE);
+    newNodes.forEach(node => nodes.put(node));
+    removed.forEach(id => nodes.delete([projectId, id]));
+
+    const project: StoredProject = {
+        id: projectId,
+        name: state.name,
+        thumbnail,
+        thumbnailNodeId: historyTree.currentId,
+        nodeCount: Object.keys(historyTree.nodes).length,
+        currentId: historyTree.currentId,
+        activeChildIds: historyTree.activeChildIds,
+        starredIds: historyTree.starredIds,
+        activeTab: state.activeTab,
+        hakiEnabled: state.hakiEnabled,
+        hakiColor: state.hakiColor,
+        hakiSize: state.hakiSize,
+        hakiSpeed: state.hakiSpeed,
+        isPlatinumTier: state.isPlatinumTier,
+        createdAt: existing?.createdAt ?? createdAt ?? Date.now(),
+        timestamp: Date.now(),
+    };
+    tx.objectStore(PROJECTS_STORE).put(project);
+    await transactionDone(tx);
+
+    newNodes.forEach(node => stored.add(node.id));
+    removed.forEach(id => stored.delete(id));
+    if (removed.length > 0) await deleteUnreferencedAssets(db);
+};
+
+/**
+ * Queues a write of `state` as project `projectId` and rejects if it fails.
+ * Saves for one project run one after another so each delta is computed
+ * against what the previous save actually wrote.
+ */
+export const saveProject = (projectId: string, state: AppState): Promise<void> => {
+    const previous = saveQueues.get(projectId) ?? Promise.resolve();
+    const next = previous.then(async () => {
+        try {
+            const db = await openDB();
+            await writeProject(db, projectId, state);
+        } catch (e) {
+            // Forget what we think is on disk so the next save re-reads it.
+            savedNodeIds.delete(projectId);
+            throw e;
+        }
+    });
+    // The queue itself never rejects, so one failed save does not block the next.
+    saveQueues.set(projectId, next.catch(() => {}));
+    return next;
+};
+
+// Autosave entry point: a failed write is logged rather than thrown.
 export const saveState = async (
-    history: (File | string)[], 
-    historyIndex: number, 
-    activeTab: string, 
+    projectId: string,
+    name: string,
+    historyTree: HistoryTree,
+    activeTab: string,
     hakiEnabled: boolean,
     hakiColor: string = '#DB24E3',
     hakiSize: number = 1,
@@ -101,114 +476,251 @@ export const saveState = async (
     isPlatinumTier: boolean = true // New Platinum flag
 ): Promise<void> => {
     try {
-        // Serialize history items. Files become Base64, strings (URLs) are stored as-is.
-        const serializedHistory: SerializedFile[] = await Promise.all(history.map(async (item) => {
-            if (typeof item === 'string') {
-                return {
-                    name: 'remote-video.mp4',
-                    type: 'video/mp4',
-                    lastModified: Date.now(),
-                    data: item, // Store the URL directly
-                    isUrl: true,
-                };
-            }
-            // It's a File
-            return {
-                name: item.name,
-                type: item.type,
-                lastModified: item.lastModified,
-                data: await blobToBase64(item), // Store as Base64
-                isUrl: false,
-            };
-        }));
-
-        const db = await openDB();
-        const tx = db.transaction(STORE_NAME, 'readwrite');
-        const store = tx.objectStore(STORE_NAME);
-        
-        const state: StoredAppState = {
-            id: 'current',
-            history: serializedHistory,
-            historyIndex,
-            activeTab,
-            hakiEnabled,
-            hakiColor,
-            hakiSize,
-            hakiSpeed,
-            isPlatinumTier, // Save new flag
-            timestamp: Date.now()
-        };
-
-        store.put(state);
-        
-        return new Promise((resolve, reject) => {
-            tx.oncomplete = () => resolve();
-            tx.onerror = () => reject(tx.error);
-        });
+        await saveProject(projectId, { name, historyTree, activeTab, hakiEnabled, hakiColor, hakiSize, hakiSpeed, isPlatinumTier });
     } catch (e) {
         console.error("Failed to save state persistence:", e);
     }
 };
 
-export const loadState = async (): Promise<AppState | null> => {
+export const loadState = async (projectId: string): Promise<AppState | null> => {
     try {
         const db = await openDB();
-        const tx = db.transaction(STORE_NAME, 'readonly');
-        const store = tx.objectStore(STORE_NAME);
-        const request = store.get('current');
-
-        return new Promise((resolve, reject) => {
-            request.onsuccess = () => {
-                const result = request.result as StoredAppState | undefined;
-                if (result) {
-                    // Deserialize based on the isUrl flag.
-                    const history = result.history.map(f => {
-                        if (f.isUrl) {
-                            return f.data; // It's a URL string
-                        }
-                        // It's a File
-                        return base64ToFile(f.data, f.name, f.type, f.lastModified);
-                    });
-
-                    resolve({
-                        history: history,
-                        historyIndex: result.historyIndex,
-                        activeTab: result.activeTab,
-                        hakiEnabled: result.hakiEnabled,
-                        hakiColor: result.hakiColor ?? '#DB24E3',
-                        hakiSize: result.hakiSize ?? 1,
-                        hakiSpeed: result.hakiSpeed ?? 1,
-                        isPlatinumTier: result.isPlatinumTier ?? true // Load new flag, default true
-                    });
-                } else {
-                    resolve(null);
+        // Include whatever an in-flight autosave is about to write.
+        await saveQueues.get(projectId);
+        const tx = db.transaction([PROJECTS_STORE, NODES_STORE, ASSETS_STORE], 'readonly');
+        const project = await requestToPromise(tx.objectStore(PROJECTS_STORE).get(projectId)) as StoredProject | undefined;
+        if (!project) return null;
+
+        const storedNodes = await requestToPromise(
+            tx.objectStore(NODES_STORE).index('projectId').getAll(IDBKeyRange.only(projectId))
+        ) as StoredNode[];
+        const assets = tx.objectStore(ASSETS_STORE);
+
+        // One File per asset, so a reference image shared by many recipes is loaded once.
+        const files = new Map<string, File | null>();
+        const loadFile = async (stored: StoredMedia): Promise<File | null> => {
+            const key = `${stored.hash}:${stored.name}`;
+            if (!files.has(key)) {
+                const asset = await requestToPromise(assets.get(stored.hash!)) as StoredAsset | undefined;
+                let file: File | null = null;
+                if (asset) {
+                    file = new File([asset.blob], stored.name, { type: stored.type, lastModified: stored.lastModified });
+                    blobHashes.set(file, asset.hash);
                 }
-            };
-            request.onerror = () => reject(request.error);
-        });
+                files.set(key, file);
+            }
+            return files.get(key)!;
+        };
+
+        const nodes: Record<string, HistoryNode> = {};
+        for (const stored of storedNodes) {
+            let media: File | string;
+            if (stored.media.url !== undefined) {
+                media = stored.media.url;
+            } else {
+                media = await loadFile(stored.media) ?? new File([], stored.media.name, { type: stored.media.type, lastModified: stored.media.lastModified });
+            }
+            let recipe: Recipe | undefined;
+            if (stored.recipe) {
+                const { references: storedReferences, ...request } = stored.recipe.request;
+                const references: ReferenceImage[] = [];
+                for (const { role, weight, media: refMedia } of storedReferences ?? []) {
+                    const file = await loadFile(refMedia);
+                    if (file) references.push({ file, role, weight });
+                }
+                // A reference whose asset has gone missing makes the recipe unreplayable, as before it was stored.
+                const missing = (storedReferences?.length ?? 0) - references.length;
+                recipe = {
+                    ...stored.recipe,
+                    request: references.length ? { ...request, references } : request,
+                    omittedReferences: missing > 0 ? missing : stored.recipe.omittedReferences,
+                };
+            }
+            nodes[stored.id] = { id: stored.id, parentId: stored.parentId, media, recipe, createdAt: stored.createdAt };
+        }
+        savedNodeIds.set(projectId, new Set(Object.keys(nodes)));
+
+        return {
+            name: project.name,
+            historyTree: {
+                nodes,
+                currentId: project.currentId && nodes[project.currentId] ? project.currentId : null,
+                activeChildIds: project.activeChildIds ?? {},
+                starredIds: (project.starredIds ?? []).filter(id => nodes[id]),
+            },
+            activeTab: project.activeTab,
+            hakiEnabled: project.hakiEnabled,
+            hakiColor: project.hakiColor ?? '#DB24E3',
+            hakiSize: project.hakiSize ?? 1,
+            hakiSpeed: project.hakiSpeed ?? 1,
+            isPlatinumTier: project.isPlatinumTier ?? true // Load new flag, default true
+        };
     } catch (e) {
         console.error("Failed to load state persistence:", e);
         return null;
     }
 };
 
-export const clearState = async (): Promise<void> => {
+export const listProjects = async (): Promise<ProjectSummary[]> => {
     try {
         const db = await openDB();
-        const tx = db.transaction(STORE_NAME, 'readwrite');
-        const store = tx.objectStore(STORE_NAME);
-        store.delete('current');
-        return new Promise((resolve, reject) => {
-            tx.oncomplete = () => resolve();
-            tx.onerror = () => reject(tx.error);
-        });
+        const store = db.transaction(PROJECTS_STORE, 'readonly').objectStore(PROJECTS_STORE);
+        const records = await requestToPromise(store.getAll()) as StoredProject[];
+        return records
+            .map(record => ({
+                id: record.id,
+                name: record.name,
+                thumbnail: record.thumbnail,
+                nodeCount: record.nodeCount,
+                createdAt: record.createdAt,
+                updatedAt: record.timestamp,
+            }))
+            .sort((a, b) => b.updatedAt - a.updatedAt);
+    } catch (e) {
+        console.error("Failed to list projects:", e);
+        return [];
+    }
+};
+
+export const renameProject = async (projectId: string, name: string): Promise<void> => {
+    const db = await openDB();
+    const tx = db.transaction(PROJECTS_STORE, 'readwrite');
+    const store = tx.objectStore(PROJECTS_STORE);
+    const record = await requestToPromise(store.get(projectId)) as StoredProject | undefined;
+    if (record) store.put({ ...record, name });
+    return transactionDone(tx);
+};
+
+// Copies a stored project under a new id and returns that id. Assets are shared, not copied.
+export const duplicateProject = async (projectId: string): Promise<string> => {
+    const db = await openDB();
+    const tx = db.transaction([PROJECTS_STORE, NODES_STORE], 'readwrite');
+    const projects = tx.objectStore(PROJECTS_STORE);
+    const nodes = tx.objectStore(NODES_STORE);
+    const record = await requestToPromise(projects.get(projectId)) as StoredProject | undefined;
+    if (!record) throw new Error("The project to duplicate no longer exists.");
+    const storedNodes = await requestToPromise(nodes.index('projectId').getAll(IDBKeyRange.only(projectId))) as StoredNode[];
+
+    const id = createProjectId();
+    const now = Date.now();
+    projects.put({ ...record, id, name: `${record.name} (Copy)`, createdAt: now, timestamp: now });
+    storedNodes.forEach(node => nodes.put({ ...node, projectId: id }));
+    await transactionDone(tx);
+    return id;
+};
+
+export const deleteProject = async (projectId: string): Promise<void> => {
+    try {
+        const db = await openDB();
+        // Let any in-flight save finish first, or it would re-create the project.
+        await saveQueues.get(projectId);
+        const tx = db.transaction([PROJECTS_STORE, NODES_STORE], 'readwrite');
+        tx.objectStore(PROJECTS_STORE).delete(projectId);
+        const nodes = tx.objectStore(NODES_STORE);
+        const keys = nodes.index('projectId').getAllKeys(IDBKeyRange.only(projectId));
+        keys.onsuccess = () => keys.result.forEach(key => nodes.delete(key));
+        await transactionDone(tx);
+        savedNodeIds.delete(projectId);
+        await deleteUnreferencedAssets(db);
     } catch (e) {
-         console.error("Failed to clear state persistence:", e);
+         console.error("Failed to delete project:", e);
          throw e;
     }
 };
 
+export interface StorageEstimate {
+    usage: number;
+    quota: number;
+}
+
+// What the browser reports for this origin; null where the API is unavailable.
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+    if (!navigator.storage?.estimate) return null;
+    try {
+        const { usage, quota } = await navigator.storage.estimate();
+        return usage !== undefined && quota ? { usage, quota } : null;
+    } catch (e) {
+        console.warn('Failed to estimate storage:', e);
+        return null;
+    }
+};
+
+export interface AssetUsage {
+    hash: string;
+    type: string;
+    size: number;
+    createdAt: number;
+    projectIds: string[];
+}
+
+export interface ProjectUsage {
+    id: string;
+    name: string;
+    nodeCount: number;
+    // Total size of the distinct assets the project references, including shared ones.
+    bytes: number;
+}
+
+export interface StorageReport {
+    estimate: StorageEstimate | null;
+    projects: ProjectUsage[];
+    assets: AssetUsage[];
+    orphanedBytes: number;
+}
+
+/**
+ * Attributes stored bytes to projects and assets. An asset shared by several
+ * projects counts towards each of them, so project totals can exceed the sum.
+ */
+export const getStorageReport = async (): Promise<StorageReport> => {
+    const db = await openDB();
+    const tx = db.transaction([PROJECTS_STORE, NODES_STORE, ASSETS_STORE], 'readonly');
+    const projects = await requestToPromise(tx.objectStore(PROJECTS_STORE).getAll()) as StoredProject[];
+    const nodes = await requestToPromise(tx.objectStore(NODES_STORE).getAll()) as StoredNode[];
+    const assets = await requestToPromise(tx.objectStore(ASSETS_STORE).getAll()) as StoredAsset[];
+
+    const owners = new Map<string, Set<string>>();
+    nodes.forEach(node => getNodeAssetHashes(node).forEach(hash => {
+        if (!owners.has(hash)) owners.set(hash, new Set());
+        owners.get(hash)!.add(node.projectId);
+    }));
+
+    const assetUsage: AssetUsage[] = assets
+        .map(asset => ({
+            hash: asset.hash,
+            type: asset.type,
+            size: asset.size,
+            createdAt: asset.createdAt,
+            projectIds: [...(owners.get(asset.hash) ?? [])],
+        }))
+        .sort((a, b) => b.size - a.size);
+
+    const projectBytes = new Map<string, number>();
+    assetUsage.forEach(asset => asset.projectIds.forEach(id => projectBytes.set(id, (projectBytes.get(id) ?? 0) + asset.size)));
+
+    return {
+        estimate: await getStorageEstimate(),
+        projects: projects
+            .map(project => ({ id: project.id, name: project.name, nodeCount: project.nodeCount, bytes: projectBytes.get(project.id) ?? 0 }))
+            .sort((a, b) => b.bytes - a.bytes),
+        assets: assetUsage,
+        orphanedBytes: assetUsage.filter(a => a.projectIds.length === 0).reduce((sum, a) => sum + a.size, 0),
+    };
+};
+
+export const collectGarbage = async (): Promise<GarbageCollectionResult> => {
+    const db = await openDB();
+    // Pending saves may still add references to assets that look orphaned now.
+    await Promise.all(saveQueues.values());
+    return deleteUnreferencedAssets(db);
+};
+
 export const nukeDatabase = async (): Promise<void> => {
+    savedNodeIds.clear();
+    if (dbPromise) {
+        (await dbPromise.catch(() => null))?.close();
+        dbPromise = null;
+    }
     return new Promise((resolve, reject) => {
         const req = indexedDB.deleteDatabase(DB_NAME);
         req.onsuccess = () => resolve();
@@ -221,4 +733,4 @@ export const nukeDatabase = async (): Promise<void> => {
             resolve(); // Proceed anyway
         };
     });
-};
\ No newline at end of file
+};
@@ -0,0 +1,207 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createZip, readZip } from '../utils/zip';
+import { exportProjectArchive, importProjectArchive, ARCHIVE_FORMAT, ARCHIVE_VERSION } from './sessionArchive';
+import { saveProject, loadState, type AppState } from './persistence';
+import type { Recipe } from '../utils/historyTree';
+
+vi.mock('./persistence', () => ({
+    saveProject: vi.fn(),
+    loadState: vi.fn(),
+    createProjectId: () => 'project-imported',
+    DEFAULT_PROJECT_NAME: 'Untitled Project',
+}));
+
+const save = vi.mocked(saveProject);
+const load = vi.mocked(loadState);
+
+const node = (id: string, parentId: string | null, extra: Record<string, unknown> = {}) => ({
+    id,
+    parentId,
+    createdAt: 1,
+    media: { path: `assets/${id}.png`, name: `${id}.png`, type: 'image/png', lastModified: 1 },
+    ...extra,
+});
+
+const archive = (manifest: unknown, assets: string[] = []): File => {
+    const encoder = new TextEncoder();
+    const entries = [
+        { name: 'manifest.json', data: encoder.encode(JSON.stringify(manifest)) },
+        ...assets.map(id => ({ name: `assets/${id}.png`, data: new Uint8Array([1, 2, 3]) })),
+    ];
+    return new File([createZip(entries)], 'session.pixshop.zip');
+};
+
+const manifest = (nodes: unknown[], tree: Record<string, unknown> = {}) => ({
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: 1,
+    project: { name: 'Imported', activeTab: 'inpaint' },
+    tree: { currentId: 'b', activeChildIds: { a: 'b' }, starredIds: ['b', 'gone'], ...tree },
+    nodes,
+});
+
+const savedState = (): AppState => save.mock.calls[0][1];
+
+describe('importProjectArchive', () => {
+    beforeEach(() => {
+        save.mockReset();
+        save.mockResolvedValue(undefined);
+    });
+
+    it('rebuilds the tree and saves it as a new project', async () => {
+        const id = await importProjectArchive(archive(manifest([node('a', null), node('b', 'a')]), ['a', 'b']));
+        expect(id).toBe('project-imported');
+        const { name, activeTab, historyTree } = savedState();
+        expect(name).toBe('Imported');
+        expect(activeTab).toBe('inpaint');
+        expect(Object.keys(historyTree.nodes)).toEqual(['a', 'b']);
+        expect(historyTree.nodes.b.parentId).toBe('a');
+        expect(historyTree.currentId).toBe('b');
+        expect(historyTree.starredIds).toEqual(['b']);
+    });
+
+    it('turns entries whose parent was not exported into roots', async () => {
+        await importProjectArchive(archive(manifest([node('a', 'missing'), node('b', 'a')]), ['a', 'b']));
+        expect(savedState().historyTree.nodes.a.parentId).toBeNull();
+    });
+
+    it('surfaces a failed save instead of returning an id', async () => {
+        save.mockRejectedValue(new Error('QuotaExceededError'));
+        await expect(importProjectArchive(archive(manifest([node('a', null)]), ['a']))).rejects.toThrow('QuotaExceededError');
+    });
+
+    it.each([
+        ['a non-object entry', [42], /#1 is not an object/],
+        ['an entry without an id', [{ ...node('a', null), id: '' }], /#1 has no id/],
+        ['an entry without media', [{ id: 'a', parentId: null }], /a has no media/],
+        ['media with neither path nor url', [node('a', null, { media: { name: 'a.png', type: 'image/png' } })], /a has no media/],
+        ['a non-string parent', [node('a', null, { parentId: 7 })], /a has an invalid parent/],
+        ['a duplicate id', [node('a', null), node('a', null)], /lists history entry a twice/],
+        ['a parent cycle', [node('a', 'b'), node('b', 'a')], /loops back on itself/],
+        ['an entry that is its own parent', [node('a', 'a')], /loops back on itself/],
+    ])('rejects %s before writing', async (_, nodes, message) => {
+        await expect(importProjectArchive(archive(manifest(nodes), ['a', 'b']))).rejects.toThrow(message);
+        expect(save).not.toHaveBeenCalled();
+    });
+
+    const recipe = {
+        request: { type: 'inpaint', prompt: 'remove the sign', maskBase64: 'data:image/png;base64,AAAA', seed: 7 },
+        protocol: 'TEST',
+        provider: 'gemini',
+        model: 'model',
+        sourceId: null,
+        durationMs: 1200,
+    };
+
+    it('keeps a well-formed recipe', async () => {
+        await importProjectArchive(archive(manifest([node('a', null, { recipe })]), ['a']));
+        expect(savedState().historyTree.nodes.a.recipe).toEqual(recipe);
+    });
+
+    it.each([
+        ['references that are not an array', { ...recipe, request: { ...recipe.request, references: 'ref.png' } }],
+        ['a reference with an unknown role', { ...recipe, request: { ...recipe.request, references: [{ role: 'mood', weight: 1, path: 'assets/r.png', name: 'r.png', type: 'image/png' }] } }],
+        ['a missing duration', { ...recipe, durationMs: undefined }],
+        ['a non-string source', { ...recipe, sourceId: 3 }],
+        ['an unknown provider', { ...recipe, provider: 'elsewhere' }],
+        ['a missing model', { ...recipe, model: undefined }],
+        ['a non-string prompt', { ...recipe, request: { ...recipe.request, prompt: ['remove'] } }],
+        ['a non-string mask', { ...recipe, request: { ...recipe.request, maskBase64: 42 } }],
+        ['regions without masks', { ...recipe, request: { ...recipe.request, regions: [{ name: 'Sky', prompt: 'stars' }] } }],
+        ['a frame grab without a time', { ...recipe, request: { ...recipe.request, frameGrab: { nodeId: 'a' } } }],
+    ])('drops a recipe with %s but keeps the entry', async (_, malformed) => {
+        await importProjectArchive(archive(manifest([node('a', null, { recipe: malformed })]), ['a']));
+        const imported = savedState().historyTree.nodes.a;
+        expect(imported).toBeDefined();
+        expect(imported.recipe).toBeUndefined();
+    });
+
+    it('rejects an archive missing a reference image', async () => {
+        const withReference = { ...recipe, request: { ...recipe.request, references: [{ role: 'style', weight: 1, path: 'assets/r.png', name: 'r.png', type: 'image/png' }] } };
+        await expect(importProjectArchive(archive(manifest([node('a', null, { recipe: withReference })]), ['a']))).rejects.toThrow('missing assets/r.png');
+        expect(save).not.toHaveBeenCalled();
+    });
+
+    it('rejects an archive missing a referenced asset', async () => {
+        await expect(importProjectArchive(archive(manifest([node('a', null)])))).rejects.toThrow('missing assets/a.png');
+        expect(save).not.toHaveBeenCalled();
+    });
+
+    it.each([
+        ['a foreign manifest', { format: 'other' }, /not a Pixshop session/],
+        ['a newer version', { ...manifest([]), version: ARCHIVE_VERSION + 1 }, /newer version/],
+        ['a manifest without nodes', { ...manifest([]), nodes: undefined }, /incomplete/],
+    ])('rejects %s', async (_, value, message) => {
+        await expect(importProjectArchive(archive(value))).rejects.toThrow(message);
+    });
+});
+
+const recipeV1 = {
+    request: { type: 'references', prompt: 'match this style' },
+    protocol: 'TEST',
+    provider: 'gemini',
+    model: 'model',
+    sourceId: null,
+    durationMs: 1,
+};
+
+describe('exportProjectArchive', () => {
+    it('carries reference images so the imported recipe can still be replayed', async () => {
+        const reference = new File([new Uint8Array([9, 8, 7])], 'ref.png', { type: 'image/png', lastModified: 5 });
+        const recipeFor = (prompt: string): Recipe => ({
+            request: { type: 'references', prompt, references: [{ file: reference, role: 'style', weight: 0.5 }] },
+            protocol: 'TEST',
+            provider: 'mock',
+            model: 'mock-model',
+            sourceId: null,
+            durationMs: 1,
+        });
+        const media = (id: string) => new File([new Uint8Array([2])], `${id}.png`, { type: 'image/png' });
+        load.mockResolvedValue({
+            name: 'Styled',
+            activeTab: 'references',
+            historyTree: {
+                nodes: {
+                    a: { id: 'a', parentId: null, createdAt: 1, media: media('a'), recipe: recipeFor('match this style') },
+                    b: { id: 'b', parentId: null, createdAt: 2, media: media('b'), recipe: recipeFor('and again') },
+                },
+                currentId: 'a',
+                activeChildIds: {},
+                starredIds: [],
+            },
+        });
+        save.mockReset();
+        save.mockResolvedValue(undefined);
+
+        const { blob } = await exportProjectArchive('project-1');
+        const entries = await readZip(blob);
+        const manifest = JSON.parse(new TextDecoder().decode(entries.get('manifest.json')));
+        const [archivedA, archivedB] = manifest.nodes.map((n: { recipe: { request: { references: { path: string; role: string; weight: number }[] } } }) => n.recipe.request.references[0]);
+        expect(archivedA).toMatchObject({ role: 'style', weight: 0.5, name: 'ref.png' });
+        // The shared file is stored once.
+        expect(archivedB.path).toBe(archivedA.path);
+        expect([...entries.get(archivedA.path)!]).toEqual([9, 8, 7]);
+
+        await importProjectArchive(new File([blob], 'styled.pixshop.zip'));
+        const restored = savedState().historyTree.nodes.a.recipe;
+        expect(restored?.omittedReferences).toBeUndefined();
+        expect(restored?.request.references).toHaveLength(1);
+        const [{ file, role, weight }] = restored!.request.references!;
+        expect({ role, weight, name: file.name, type: file.type }).toEqual({ role: 'style', weight: 0.5, name: 'ref.png', type: 'image/png' });
+        expect([...new Uint8Array(await file.arrayBuffer())]).toEqual([9, 8, 7]);
+    });
+
+    it('still reads version 1 archives, which carried no reference images', async () => {
+        save.mockReset();
+        save.mockResolvedValue(undefined);
+        const legacy = { ...recipeV1, omittedReferences: 2 };
+        await importProjectArchive(archive({ ...manifest([node('a', null, { recipe: legacy })]), version: 1 }, ['a']));
+        expect(savedState().historyTree.nodes.a.recipe?.omittedReferences).toBe(2);
+    });
+});
+
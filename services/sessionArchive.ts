@@ -0,0 +1,354 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { HistoryNode, HistoryTree, Recipe } from '../utils/historyTree';
+import { createZip, readZip, ZipEntry } from '../utils/zip';
+import { loadState, saveProject, createProjectId, DEFAULT_PROJECT_NAME } from './persistence';
+import { isProviderId, REFERENCE_ROLES, ReferenceImage, ReferenceRole } from './imageProvider';
+import type { GenerationRequest } from '../App';
+
+// A session archive is a ZIP holding manifest.json plus one file per history
+// image or video under assets/. Bump ARCHIVE_VERSION whenever the manifest
+// changes shape, and keep importProjectArchive able to read every older version.
+// v2: recipes carry their reference images as files under assets/.
+export const ARCHIVE_FORMAT = 'pixshop-session';
+export const ARCHIVE_VERSION = 2;
+export const ARCHIVE_EXTENSION = '.pixshop.zip';
+const MANIFEST_PATH = 'manifest.json';
+
+interface ArchiveMedia {
+    // Path of the file inside the archive, or the remote URL of a video that was never downloaded.
+    path?: string;
+    url?: string;
+    name: string;
+    type: string;
+    lastModified: number;
+}
+
+interface ArchiveReference {
+    role: ReferenceRole;
+    weight: number;
+    path: string;
+    name: string;
+    type: string;
+    lastModified?: number;
+}
+
+// Masks travel inside the recipe as PNG data URLs; reference images as archive files.
+type ArchiveRecipe = Omit<Recipe, 'request'> & {
+    request: Omit<GenerationRequest, 'references'> & { references?: ArchiveReference[] };
+};
+
+interface ArchiveNode {
+    id: string;
+    parentId: string | null;
+    createdAt: number;
+    media: ArchiveMedia;
+    recipe?: ArchiveRecipe;
+}
+
+interface ArchiveManifest {
+    format: typeof ARCHIVE_FORMAT;
+    version: number;
+    exportedAt: number;
+    project: {
+        name: string;
+        activeTab: string;
+        hakiEnabled?: boolean;
+        hakiColor?: string;
+        hakiSize?: number;
+        hakiSpeed?: number;
+        isPlatinumTier?: boolean;
+    };
+    tree: {
+        currentId: string | null;
+        activeChildIds: Record<string, string>;
+        starredIds: string[];
+    };
+    nodes: ArchiveNode[];
+}
+
+const extensionFor = (file: File): string => {
+    const fromName = file.name.includes('.') ? file.name.split('.').pop() : '';
+    return (fromName || file.type.split('/')[1] || 'bin').replace(/[^a-z0-9]/gi, '').toLowerCase();
+};
+
+const safeFileName = (name: string) => name.replace(/[^a-z0-9-_ ]/gi, '').trim().replace(/\s+/g, '-') || 'pixshop-session';
+
+// Swaps a recipe's reference images for archive paths, adding each file through `addFile`.
+const portableRecipe = async (recipe: Recipe | undefined, addFile: (file: File, stem: string) => Promise<string>): Promise<ArchiveRecipe | undefined> => {
+    if (!recipe) return undefined;
+    const { references, ...request } = recipe.request;
+    if (!references?.length) return { ...recipe, request };
+    const archived: ArchiveReference[] = [];
+    for (const [i, { file, role, weight }] of references.entries()) {
+        archived.push({ role, weight, path: await addFile(file, `reference-${i}`), name: file.name, type: file.type, lastModified: file.lastModified });
+    }
+    return { ...recipe, request: { ...request, references: archived } };
+};
+
+/** Packs a stored project into an archive, returning the file and a suggested name. */
+export const exportProjectArchive = async (projectId: string): Promise<{ blob: Blob; fileName: string }> => {
+    const state = await loadState(projectId);
+    if (!state) throw new Error("The project to export no longer exists.");
+
+    const encoder = new TextEncoder();
+    const entries: ZipEntry[] = [];
+    const nodes: ArchiveNode[] = [];
+
+    // A reference image shared by several recipes is loaded as one File and archived once.
+    const paths = new Map<File, string>();
+    const addFile = async (file: File, stem: string): Promise<string> => {
+        const existing = paths.get(file);
+        if (existing) return existing;
+        const path = `assets/${stem}.${extensionFor(file)}`;
+        entries.push({ name: path, data: new Uint8Array(await file.arrayBuffer()) });
+        paths.set(file, path);
+        return path;
+    };
+
+    for (const node of Object.values(state.historyTree.nodes)) {
+        let media: ArchiveMedia;
+        if (typeof node.media === 'string') {
+            media = { url: node.media, name: 'remote-video.mp4', type: 'video/mp4', lastModified: node.createdAt };
+        } else {
+            const path = await addFile(node.media, node.id);
+            media = { path, name: node.media.name, type: node.media.type, lastModified: node.media.lastModified };
+        }
+        const recipe = await portableRecipe(node.recipe, (file, stem) => addFile(file, `${node.id}-${stem}`));
+        nodes.push({ id: node.id, parentId: node.parentId, createdAt: node.createdAt, media, recipe });
+    }
+
+    const manifest: ArchiveManifest = {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        exportedAt: Date.now(),
+        project: {
+            name: state.name,
+            activeTab: state.activeTab,
+            hakiEnabled: state.hakiEnabled,
+            hakiColor: state.hakiColor,
+            hakiSize: state.hakiSize,
+            hakiSpeed: state.hakiSpeed,
+            isPlatinumTier: state.isPlatinumTier,
+        },
+        tree: {
+            currentId: state.historyTree.currentId,
+            activeChildIds: state.historyTree.activeChildIds,
+            starredIds: state.historyTree.starredIds,
+        },
+        nodes,
+    };
+    // The manifest goes first so tools that list the archive show it on top.
+    entries.unshift({ name: MANIFEST_PATH, data: encoder.encode(JSON.stringify(manifest, null, 2)) });
+
+    return { blob: createZip(entries), fileName: `${safeFileName(state.name)}${ARCHIVE_EXTENSION}` };
+};
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const parseMedia = (value: unknown, id: string): ArchiveMedia => {
+    if (!isObject(value)) throw new Error(`History entry ${id} has no media.`);
+    const { path, url, name, type, lastModified } = value;
+    if (!(isString(path) && path) && !(isString(url) && url)) throw new Error(`History entry ${id} has no media.`);
+    if (!isString(name) || !isString(type)) throw new Error(`History entry ${id} has invalid media details.`);
+    return {
+        path: isString(path) && path ? path : undefined,
+        url: isString(url) && url ? url : undefined,
+        name,
+        type,
+        lastModified: isNumber(lastModified) ? lastModified : 0,
+    };
+};
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+const isArrayOf = (check: (value: unknown) => boolean) => (value: unknown) => Array.isArray(value) && value.every(check);
+const hasFields = (fields: Record<string, (value: unknown) => boolean>) => (value: unknown) =>
+    isObject(value) && Object.entries(fields).every(([key, check]) => check(value[key]));
+
+// The request fields the recipe drawer and replay read, by the shape they must have when present.
+const REQUEST_FIELDS: Record<string, (value: unknown) => boolean> = {
+    prompt: isString,
+    maskBase64: isString,
+    aspectRatio: isString,
+    negativePrompt: isString,
+    resolution: isString,
+    regionMode: isString,
+    startFrameNodeId: isString,
+    endFrameNodeId: isString,
+    seed: isNumber,
+    batchSize: isNumber,
+    duration: isNumber,
+    fps: isNumber,
+    motionStrength: isNumber,
+    regions: isArrayOf(hasFields({ name: isString, prompt: isString, maskBase64: isString })),
+    shots: isArrayOf(hasFields({ prompt: isString })),
+    frameGrab: hasFields({ nodeId: isString, time: isNumber }),
+    crop: hasFields({ crop: hasFields({ x: isNumber, y: isNumber, width: isNumber, height: isNumber }) }),
+    expand: hasFields({ directions: Array.isArray }),
+    upscale: hasFields({ factor: isNumber, method: isString }),
+    timeline: hasFields({ clips: isArrayOf(hasFields({ nodeId: isString })) }),
+    references: isArrayOf(hasFields({
+        role: value => REFERENCE_ROLES.some(role => role === value),
+        weight: isNumber,
+        path: isString,
+        name: isString,
+        type: isString,
+        lastModified: value => isOptional(value, isNumber),
+    })),
+};
+
+const isArchiveRecipe = (value: unknown): value is ArchiveRecipe => {
+    if (!isObject(value)) return false;
+    const { request, protocol, provider, model, sourceId, durationMs, omittedReferences } = value;
+    return isObject(request) && isString(request.type)
+        && Object.entries(REQUEST_FIELDS).every(([key, check]) => isOptional(request[key], check))
+        && isString(protocol) && isString(provider) && (isProviderId(provider) || provider === 'local') && isString(model)
+        && (sourceId === null || isString(sourceId)) && isNumber(durationMs)
+        && isOptional(omittedReferences, isNumber);
+};
+
+// Recipes are informational; one that does not have the shape the app reads
+// is dropped rather than failing the import.
+const parseRecipe = (value: unknown): ArchiveRecipe | undefined => isArchiveRecipe(value) ? value : undefined;
+
+const parseNode = (value: unknown, index: number): ArchiveNode => {
+    if (!isObject(value)) throw new Error(`History entry #${index + 1} is not an object.`);
+    const { id, parentId, createdAt } = value;
+    if (!isString(id) || !id) throw new Error(`History entry #${index + 1} has no id.`);
+    if (parentId !== null && parentId !== undefined && !isString(parentId)) throw new Error(`History entry ${id} has an invalid parent.`);
+    return {
+        id,
+        parentId: isString(parentId) && parentId ? parentId : null,
+        createdAt: isNumber(createdAt) ? createdAt : 0,
+        media: parseMedia(value.media, id),
+        recipe: parseRecipe(value.recipe),
+    };
+};
+
+// Parents that were not exported are cleared so those entries become roots;
+// a parent chain that loops back on itself would leave no root at all.
+const linkNodes = (nodes: ArchiveNode[]): ArchiveNode[] => {
+    const byId = new Map<string, ArchiveNode>();
+    for (const node of nodes) {
+        if (byId.has(node.id)) throw new Error(`The archive lists history entry ${node.id} twice.`);
+        byId.set(node.id, node);
+    }
+    const linked = nodes.map(node => node.parentId && !byId.has(node.parentId) ? { ...node, parentId: null } : node);
+    const parents = new Map(linked.map(node => [node.id, node.parentId]));
+    const acyclic = new Set<string>();
+    for (const node of linked) {
+        const chain = new Set<string>();
+        let id: string | null = node.id;
+        while (id && !acyclic.has(id)) {
+            if (chain.has(id)) throw new Error(`The archive's history loops back on itself at entry ${id}.`);
+            chain.add(id);
+            id = parents.get(id) ?? null;
+        }
+        chain.forEach(seen => acyclic.add(seen));
+    }
+    return linked;
+};
+
+const parseManifest = (data: Uint8Array | undefined): ArchiveManifest => {
+    if (!data) throw new Error("This archive has no manifest.json; it was not exported by Pixshop.");
+    let manifest: unknown;
+    try {
+        manifest = JSON.parse(new TextDecoder().decode(data));
+    } catch {
+        throw new Error("The archive manifest is not valid JSON.");
+    }
+    if (!isObject(manifest) || manifest.format !== ARCHIVE_FORMAT) throw new Error("This archive is not a Pixshop session.");
+    const { version, exportedAt, project, tree, nodes } = manifest;
+    if (!isNumber(version) || !Number.isInteger(version) || version < 1) throw new Error("The archive manifest has an invalid version.");
+    if (version > ARCHIVE_VERSION) {
+        throw new Error(`This archive was made by a newer version of Pixshop (format v${version}); this app reads up to v${ARCHIVE_VERSION}.`);
+    }
+    if (!Array.isArray(nodes) || !isObject(project) || !isObject(tree)) throw new Error("The archive manifest is incomplete.");
+
+    const activeChildIds = isObject(tree.activeChildIds) ? tree.activeChildIds : {};
+    return {
+        format: ARCHIVE_FORMAT,
+        version,
+        exportedAt: isNumber(exportedAt) ? exportedAt : 0,
+        project: {
+            name: isString(project.name) ? project.name : '',
+            activeTab: isString(project.activeTab) ? project.activeTab : 'flux',
+            hakiEnabled: typeof project.hakiEnabled === 'boolean' ? project.hakiEnabled : undefined,
+            hakiColor: isString(project.hakiColor) ? project.hakiColor : undefined,
+            hakiSize: isNumber(project.hakiSize) ? project.hakiSize : undefined,
+            hakiSpeed: isNumber(project.hakiSpeed) ? project.hakiSpeed : undefined,
+            isPlatinumTier: typeof project.isPlatinumTier === 'boolean' ? project.isPlatinumTier : undefined,
+        },
+        tree: {
+            currentId: isString(tree.currentId) ? tree.currentId : null,
+            activeChildIds: Object.fromEntries(Object.entries(activeChildIds).filter((entry): entry is [string, string] => isString(entry[1]))),
+            starredIds: Array.isArray(tree.starredIds) ? tree.starredIds.filter(isString) : [],
+        },
+        nodes: linkNodes(nodes.map(parseNode)),
+    };
+};
+
+// Turns an archived recipe's reference paths back into files.
+const restoreRecipe = (recipe: ArchiveRecipe | undefined, entries: Map<string, Uint8Array>): Recipe | undefined => {
+    if (!recipe) return undefined;
+    const { references, ...request } = recipe.request;
+    if (!references?.length) return { ...recipe, request };
+    const files: ReferenceImage[] = references.map(({ role, weight, path, name, type, lastModified }) => {
+        const data = entries.get(path);
+        if (!data) throw new Error(`The archive is missing ${path}.`);
+        return { role, weight, file: new File([data as BlobPart], name, { type, lastModified: lastModified ?? 0 }) };
+    });
+    return { ...recipe, request: { ...request, references: files } };
+};
+
+/**
+ * Rebuilds an archived session as a new project in the library and returns
+ * its id. The manifest, every entry's media and the parent links are checked
+ * before anything is written, and a failed write rejects.
+ */
+export const importProjectArchive = async (file: File): Promise<string> => {
+    const entries = await readZip(file);
+    const manifest = parseManifest(entries.get(MANIFEST_PATH));
+
+    const nodes: Record<string, HistoryNode> = {};
+    for (const item of manifest.nodes) {
+        let media: File | string;
+        if (item.media.path) {
+            const data = entries.get(item.media.path);
+            if (!data) throw new Error(`The archive is missing ${item.media.path}.`);
+            media = new File([data as BlobPart], item.media.name, { type: item.media.type, lastModified: item.media.lastModified });
+        } else {
+            // parseMedia guarantees a url when there is no path.
+            media = item.media.url ?? '';
+        }
+        nodes[item.id] = { id: item.id, parentId: item.parentId, createdAt: item.createdAt, media, recipe: restoreRecipe(item.recipe, entries) };
+    }
+
+    const { tree, project } = manifest;
+    const historyTree: HistoryTree = {
+        nodes,
+        currentId: tree.currentId && nodes[tree.currentId] ? tree.currentId : Object.keys(nodes)[0] ?? null,
+        activeChildIds: Object.fromEntries(Object.entries(tree.activeChildIds).filter(([p, c]) => nodes[p] && nodes[c])),
+        starredIds: tree.starredIds.filter(id => nodes[id]),
+    };
+
+    const projectId = createProjectId();
+    await saveProject(projectId, {
+        name: project.name || DEFAULT_PROJECT_NAME,
+        historyTree,
+        activeTab: project.activeTab,
+        hakiEnabled: project.hakiEnabled ?? true,
+        hakiColor: project.hakiColor ?? '#DB24E3',
+        hakiSize: project.hakiSize ?? 1,
+        hakiSpeed: project.hakiSpeed ?? 1,
+        isPlatinumTier: project.isPlatinumTier ?? true,
+    });
+    return projectId;
+};
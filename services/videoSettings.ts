@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { VideoCapabilities, VideoResolution } from './imageProvider';
+
+// Video controls as the user set them. Anything left out falls back to a
+// default the model supports.
+export interface VideoSettings {
+    aspectRatio?: string;
+    durationSeconds?: number;
+    fps?: number;
+    resolution?: VideoResolution;
+    // 0..1; no video model exposes this directly, so it is phrased into the prompt.
+    motionStrength?: number;
+    negativePrompt?: string;
+    seed?: number;
+}
+
+export type ResolvedVideoSettings = Required<Omit<VideoSettings, 'negativePrompt' | 'seed'>> & Pick<VideoSettings, 'negativePrompt' | 'seed'>;
+
+export interface VideoSettingsResolution {
+    settings: ResolvedVideoSettings;
+    // One human-readable line per value that had to change.
+    adjustments: string[];
+}
+
+const DEFAULT_MOTION = 0.5;
+const MAX_SEED = 2 ** 32 - 1;
+
+const nearest = (values: number[], target: number): number =>
+    values.reduce((best, v) => (Math.abs(v - target) < Math.abs(best - target) ? v : best), values[0]);
+
+const ratioOf = (aspect: string): number => {
+    const [w, h] = aspect.split(':').map(Number);
+    return w / h;
+};
+
+/** Snaps requested video settings to what `capabilities` allows and reports every change. */
+export const resolveVideoSettings = (requested: VideoSettings, capabilities: VideoCapabilities): VideoSettingsResolution => {
+    const adjustments: string[] = [];
+
+    let aspectRatio = requested.aspectRatio ?? capabilities.aspectRatios[0];
+    if (!capabilities.aspectRatios.includes(aspectRatio)) {
+        const closest = capabilities.aspectRatios.reduce((best, a) =>
+            Math.abs(ratioOf(a) - ratioOf(aspectRatio)) < Math.abs(ratioOf(best) - ratioOf(aspectRatio)) ? a : best);
+        adjustments.push(`Aspect ratio ${aspectRatio} → ${closest} (supported: ${capabilities.aspectRatios.join(', ')})`);
+        aspectRatio = closest;
+    }
+
+    let resolution = requested.resolution ?? capabilities.resolutions[0];
+    if (!capabilities.resolutions.includes(resolution)) {
+        adjustments.push(`Resolution ${resolution} → ${capabilities.resolutions[0]} (supported: ${capabilities.resolutions.join(', ')})`);
+        resolution = capabilities.resolutions[0];
+    }
+
+    // Some resolutions restrict the durations on offer; the chosen resolution wins.
+    const durations = capabilities.resolutionDurations?.[resolution] ?? capabilities.durations;
+    let durationSeconds = requested.durationSeconds ?? durations[durations.length - 1];
+    if (!durations.includes(durationSeconds)) {
+        const snapped = nearest(durations, durationSeconds);
+        const scope = durations === capabilities.durations ? '' : ` at ${resolution}`;
+        adjustments.push(`Duration ${durationSeconds}s → ${snapped}s (supported${scope}: ${durations.join(', ')}s)`);
+        durationSeconds = snapped;
+    }
+
+    let fps = requested.fps ?? capabilities.fps[0];
+    if (!capabilities.fps.includes(fps)) {
+        const snapped = nearest(capabilities.fps, fps);
+        adjustments.push(`Frame rate ${fps} fps → ${snapped} fps (supported: ${capabilities.fps.join(', ')} fps)`);
+        fps = snapped;
+    }
+
+    const motionStrength = Math.min(1, Math.max(0, requested.motionStrength ?? DEFAULT_MOTION));
+    if (requested.motionStrength !== undefined && motionStrength !== requested.motionStrength) {
+        adjustments.push(`Motion ${requested.motionStrength} → ${motionStrength}`);
+    }
+
+    let negativePrompt = requested.negativePrompt?.trim() || undefined;
+    if (negativePrompt && !capabilities.negativePrompt) {
+        adjustments.push('Negative prompt ignored (not supported by this model)');
+        negativePrompt = undefined;
+    }
+
+    let seed = requested.seed;
+    if (seed !== undefined && !capabilities.seed) {
+        adjustments.push('Seed ignored (not supported by this model)');
+        seed = undefined;
+    } else if (seed !== undefined && (!Number.isInteger(seed) || seed < 0 || seed > MAX_SEED)) {
+        const wrapped = Math.abs(Math.trunc(seed)) % (MAX_SEED + 1);
+        adjustments.push(`Seed ${seed} → ${wrapped} (must be a 32-bit unsigned integer)`);
+        seed = wrapped;
+    }
+
+    return { settings: { aspectRatio, resolution, durationSeconds, fps, motionStrength, negativePrompt, seed }, adjustments };
+};
+
+/** Prompt suffix standing in for a motion-strength control. */
+export const describeMotion = (strength: number): string => {
+    if (strength < 0.35) return 'Keep motion minimal: slow, gentle camera and subject movement.';
+    if (strength < 0.7) return 'Use natural, moderate camera and subject movement.';
+    return 'Use bold, dynamic motion with fast, energetic camera moves.';
+};
@@ -0,0 +1,27 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CancelledError } from "../services/errors";
+
+export const throwIfAborted = (signal?: AbortSignal): void => {
+    if (signal?.aborted) throw new CancelledError({ cause: signal.reason });
+};
+
+// setTimeout as a promise that rejects with CancelledError as soon as the signal fires.
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(new CancelledError({ cause: signal.reason }));
+        return;
+    }
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new CancelledError({ cause: signal?.reason }));
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
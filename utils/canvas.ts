@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Canvas plumbing shared by the local renderers and the mock provider.
+
+export const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas 2D is not available in this browser.");
+    return { canvas, ctx };
+};
+
+/** Decodes a file, or an image URL such as a data URL, into an image element. */
+export const loadImage = (source: File | string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+    const release = () => {
+        if (typeof source !== 'string') URL.revokeObjectURL(url);
+    };
+    const img = new Image();
+    img.onload = () => {
+        release();
+        resolve(img);
+    };
+    img.onerror = () => {
+        release();
+        reject(new Error("Could not decode the image."));
+    };
+    img.src = url;
+});
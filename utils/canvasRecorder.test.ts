@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { recordCanvas } from './canvasRecorder';
+import { CancelledError } from '../services/errors';
+
+// Just enough of MediaRecorder, the DOM and the frame clock to drive recordCanvas in node.
+class FakeRecorder {
+    static last: FakeRecorder;
+    static isTypeSupported = (type: string) => type === 'video/webm';
+    state: 'inactive' | 'recording' | 'paused' = 'inactive';
+    ondataavailable: ((e: { data: Blob }) => void) | null = null;
+    onstop: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+    constructor() { FakeRecorder.last = this; }
+    start() { this.state = 'recording'; }
+    pause() { this.state = 'paused'; }
+    resume() { this.state = 'recording'; }
+    stop() {
+        this.state = 'inactive';
+        this.ondataavailable?.({ data: new Blob(['frame']) });
+        this.onstop?.();
+    }
+}
+
+let frames: Map<number, () => void>;
+let now: number;
+let nextFrame: number;
+const track = { stop: vi.fn() };
+const canvas = { captureStream: () => ({ getTracks: () => [track] }) } as unknown as HTMLCanvasElement;
+const documentStub = Object.assign(new EventTarget(), { hidden: false });
+
+const runFrame = (advanceMs: number) => {
+    now += advanceMs;
+    const pending = [...frames.values()];
+    frames.clear();
+    pending.forEach(callback => callback());
+};
+
+const setHidden = (hidden: boolean) => {
+    documentStub.hidden = hidden;
+    documentStub.dispatchEvent(new Event('visibilitychange'));
+};
+
+describe('recordCanvas', () => {
+    beforeEach(() => {
+        frames = new Map();
+        now = 0;
+        nextFrame = 1;
+        track.stop.mockClear();
+        documentStub.hidden = false;
+        vi.stubGlobal('MediaRecorder', FakeRecorder);
+        vi.stubGlobal('document', documentStub);
+        vi.stubGlobal('performance', { now: () => now });
+        vi.stubGlobal('requestAnimationFrame', (callback: () => void) => {
+            frames.set(nextFrame, callback);
+            return nextFrame++;
+        });
+        vi.stubGlobal('cancelAnimationFrame', (id: number) => frames.delete(id));
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('records until the duration has elapsed', async () => {
+        const drawn: number[] = [];
+        const recording = recordCanvas(canvas, 100, 30, t => drawn.push(t));
+        runFrame(50);
+        runFrame(50);
+        const blob = await recording;
+        expect(blob.type).toBe('video/webm');
+        expect(drawn).toEqual([0, 0.5, 1]);
+        expect(track.stop).toHaveBeenCalled();
+    });
+
+    it('stops the frame loop and the capture tracks when the recorder fails', async () => {
+        const drawFrame = vi.fn();
+        const recording = recordCanvas(canvas, 1000, 30, drawFrame);
+        FakeRecorder.last.onerror?.();
+        await expect(recording).rejects.toThrow('Video recording failed.');
+        expect(frames.size).toBe(0);
+        expect(track.stop).toHaveBeenCalled();
+        runFrame(16);
+        expect(drawFrame).toHaveBeenCalledTimes(1);
+    });
+
+    it('pauses while the page is hidden without counting that time', async () => {
+        const drawn: number[] = [];
+        const onPauseChange = vi.fn();
+        const recording = recordCanvas(canvas, 100, 30, t => drawn.push(t), undefined, onPauseChange);
+        runFrame(50);
+        setHidden(true);
+        expect(FakeRecorder.last.state).toBe('paused');
+        expect(frames.size).toBe(0);
+
+        now += 10_000;
+        setHidden(false);
+        expect(FakeRecorder.last.state).toBe('recording');
+        runFrame(25);
+        runFrame(25);
+        await recording;
+        expect(drawn).toEqual([0, 0.5, 0.75, 1]);
+        expect(onPauseChange.mock.calls).toEqual([[true], [false]]);
+    });
+
+    it('can be cancelled while paused in the background', async () => {
+        const controller = new AbortController();
+        const recording = recordCanvas(canvas, 100, 30, () => {}, controller.signal);
+        setHidden(true);
+        controller.abort();
+        await expect(recording).rejects.toBeInstanceOf(CancelledError);
+        expect(track.stop).toHaveBeenCalled();
+    });
+});
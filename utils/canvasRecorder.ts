@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CancelledError } from "../services/errors";
+
+// Container formats in order of preference. MediaRecorder can only write MP4
+// in some browsers (Safari, recent Chromium); everywhere else it is WebM.
+const RECORDER_MIME_TYPES = ['video/mp4;codecs=avc1', 'video/mp4', 'video/webm;codecs=vp9', 'video/webm'];
+
+export const pickRecorderMimeType = (): string =>
+    RECORDER_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? 'video/webm';
+
+/**
+ * Records `canvas` in real time for `durationMs`. `drawFrame` is called once per
+ * animation frame with the elapsed fraction, 0..1, and must paint the whole frame.
+ *
+ * Browsers stop animation frames in background tabs, so recording pauses while
+ * the page is hidden and picks up where it left off when it is shown again;
+ * `onPauseChange` lets callers hold anything else that runs on its own clock.
+ */
+export const recordCanvas = (
+    canvas: HTMLCanvasElement,
+    durationMs: number,
+    fps: number,
+    drawFrame: (t: number) => void,
+    signal?: AbortSignal,
+    onPauseChange?: (paused: boolean) => void,
+): Promise<Blob> => {
+    if (typeof MediaRecorder === 'undefined') {
+        return Promise.reject(new Error('Video recording is unavailable: MediaRecorder is not supported in this browser.'));
+    }
+    if (signal?.aborted) return Promise.reject(new CancelledError({ cause: signal.reason }));
+
+    return new Promise((resolve, reject) => {
+        const mimeType = pickRecorderMimeType();
+        const stream = canvas.captureStream(fps);
+        const recorder = new MediaRecorder(stream, { mimeType });
+        const chunks: Blob[] = [];
+        const start = performance.now();
+        let frameId = 0;
+        // Time spent hidden, which does not count towards the recording.
+        let pausedMs = 0;
+        let pausedAt: number | null = null;
+
+        const stop = () => {
+            if (recorder.state !== 'inactive') recorder.stop();
+        };
+
+        const tick = () => {
+            if (signal?.aborted) {
+                stop();
+                return;
+            }
+            const t = Math.min(1, (performance.now() - start - pausedMs) / durationMs);
+            drawFrame(t);
+            if (t < 1) {
+                frameId = requestAnimationFrame(tick);
+            } else {
+                stop();
+            }
+        };
+
+        const handleVisibility = () => {
+            if (document.hidden && recorder.state === 'recording') {
+                cancelAnimationFrame(frameId);
+                recorder.pause();
+                pausedAt = performance.now();
+                onPauseChange?.(true);
+            } else if (!document.hidden && pausedAt !== null) {
+                pausedMs += performance.now() - pausedAt;
+                pausedAt = null;
+                recorder.resume();
+                onPauseChange?.(false);
+                frameId = requestAnimationFrame(tick);
+            }
+        };
+
+        // Runs on every exit path so no frame loop or capture track outlives the recording.
+        const cleanup = () => {
+            cancelAnimationFrame(frameId);
+            stream.getTracks().forEach(track => track.stop());
+            document.removeEventListener('visibilitychange', handleVisibility);
+            signal?.removeEventListener('abort', stop);
+        };
+
+        recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+        recorder.onstop = () => {
+            cleanup();
+            if (signal?.aborted) {
+                reject(new CancelledError({ cause: signal.reason }));
+                return;
+            }
+            // Drop codec parameters so the blob type is a plain container type.
+            resolve(new Blob(chunks, { type: mimeType.split(';')[0] }));
+        };
+        recorder.onerror = () => {
+            cleanup();
+            // Reject before stopping so the partial recording is never resolved.
+            reject(new Error('Video recording failed.'));
+            stop();
+        };
+        // A cancel while paused in the background has no frame loop to notice it.
+        signal?.addEventListener('abort', stop);
+        document.addEventListener('visibilitychange', handleVisibility);
+        recorder.start();
+        tick();
+        if (document.hidden) handleVisibility();
+    });
+};
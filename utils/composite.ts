@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createMaskCanvas } from './mask';
+
+// Masked edits come back as a whole new frame whose colours drift and whose
+// size may not match the source. Compositing puts the source back everywhere
+// the mask does not reach, so an edit only changes what was masked.
+
+// Aspect ratios closer than this are treated as the same framing and stretched.
+const ASPECT_TOLERANCE = 0.01;
+
+const decodeImage = async (source: File | string): Promise<ImageBitmap> =>
+    createImageBitmap(typeof source === 'string' ? await (await fetch(source)).blob() : source);
+
+// Lays `image` over a width x height frame: stretched when the framing matches,
+// otherwise scaled to cover and centred so it is never distorted.
+const drawAligned = (ctx: CanvasRenderingContext2D, image: ImageBitmap, width: number, height: number) => {
+    const sourceAspect = width / height;
+    const imageAspect = image.width / image.height;
+    if (Math.abs(imageAspect / sourceAspect - 1) <= ASPECT_TOLERANCE) {
+        ctx.drawImage(image, 0, 0, width, height);
+        return;
+    }
+    const scale = Math.max(width / image.width, height / image.height);
+    const drawWidth = image.width * scale;
+    const drawHeight = image.height * scale;
+    ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+/**
+ * Blends `result` into `source` through `maskBase64` (white = take the result,
+ * soft edges blend) and returns a PNG data URL at the source's size.
+ */
+export const compositeMaskedResult = async (source: File, result: string, maskBase64: string): Promise<string> => {
+    const [base, patch, mask] = await Promise.all([decodeImage(source), decodeImage(result), decodeImage(maskBase64)]);
+    const { width, height } = base;
+    try {
+        const layer = createMaskCanvas(width, height);
+        drawAligned(layer.ctx, patch, width, height);
+        layer.ctx.globalCompositeOperation = 'destination-in';
+        layer.ctx.drawImage(mask, 0, 0, width, height);
+
+        const output = createMaskCanvas(width, height);
+        output.ctx.drawImage(base, 0, 0);
+        output.ctx.drawImage(layer.canvas, 0, 0);
+        return output.canvas.toDataURL('image/png');
+    } finally {
+        base.close();
+        patch.close();
+        mask.close();
+    }
+};
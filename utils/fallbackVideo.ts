@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createCanvas, loadImage } from './canvas';
+import { recordCanvas } from './canvasRecorder';
+
+// Local stand-in for image-to-video when the video model is out of quota or
+// unreachable: a Ken Burns pan and zoom over the still, with a soft-edged
+// centre layer drifting faster than the backdrop to fake depth.
+
+export interface FallbackVideoSettings {
+    aspectRatio?: string;
+    durationSeconds?: number;
+    fps?: number;
+    // 0..1, scales how far the camera travels.
+    motionStrength?: number;
+    // Picks the pan direction, so replays with the same seed match.
+    seed?: number;
+}
+
+// Output short side in pixels; matches the 720p the video model defaults to.
+const SHORT_SIDE = 720;
+const MIN_DURATION = 1;
+const MAX_DURATION = 15;
+
+const parseAspect = (aspect: string): number => {
+    const [w, h] = aspect.split(':').map(Number);
+    return w > 0 && h > 0 ? w / h : 16 / 9;
+};
+
+export const getFallbackVideoSize = (aspectRatio: string) => {
+    const ratio = parseAspect(aspectRatio);
+    // Keep dimensions even; H.264 encoders reject odd sizes.
+    const even = (n: number) => Math.round(n / 2) * 2;
+    return ratio >= 1
+        ? { width: even(SHORT_SIDE * ratio), height: SHORT_SIDE }
+        : { width: SHORT_SIDE, height: even(SHORT_SIDE / ratio) };
+};
+
+const easeInOut = (t: number) => t * t * (3 - 2 * t);
+
+interface Layer {
+    source: CanvasImageSource;
+    width: number;
+    height: number;
+}
+
+// Draws `layer` cover-fitted to the frame, scaled by `zoom` about the frame
+// centre and shifted by (dx, dy) as fractions of the frame size.
+const drawCover = (ctx: CanvasRenderingContext2D, layer: Layer, width: number, height: number, zoom: number, dx: number, dy: number) => {
+    const scale = Math.max(width / layer.width, height / layer.height) * zoom;
+    const w = layer.width * scale;
+    const h = layer.height * scale;
+    ctx.drawImage(layer.source, (width - w) / 2 + dx * width, (height - h) / 2 + dy * height, w, h);
+};
+
+// The still with an elliptical feather towards its edges, used as the near layer.
+const createForegroundLayer = (img: HTMLImageElement) => {
+    const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+    ctx.drawImage(img, 0, 0);
+    const { width, height } = canvas;
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.translate(width / 2, height / 2);
+    ctx.scale(width / 2, height / 2);
+    const gradient = ctx.createRadialGradient(0, 0, 0, 0, 0, 1);
+    gradient.addColorStop(0, 'rgba(0,0,0,1)');
+    gradient.addColorStop(0.55, 'rgba(0,0,0,1)');
+    gradient.addColorStop(0.9, 'rgba(0,0,0,0)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(-1, -1, 2, 2);
+    return canvas;
+};
+
+/** Animates `image` into a video clip entirely on this device. */
+export const renderFallbackVideo = async (
+    image: File,
+    settings: FallbackVideoSettings = {},
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal,
+): Promise<Blob> => {
+    const img = await loadImage(image);
+    const { width, height } = getFallbackVideoSize(settings.aspectRatio ?? '16:9');
+    const durationSeconds = Math.min(MAX_DURATION, Math.max(MIN_DURATION, settings.durationSeconds ?? 5));
+    const fps = settings.fps ?? 30;
+    const strength = Math.min(1, Math.max(0, settings.motionStrength ?? 0.5));
+
+    const { canvas, ctx } = createCanvas(width, height);
+    const backdrop: Layer = { source: img, width: img.naturalWidth, height: img.naturalHeight };
+    const near: Layer = { ...backdrop, source: createForegroundLayer(img) };
+
+    // Pan direction from the seed; the near layer travels further than the backdrop.
+    const angle = ((settings.seed ?? 0) % 360) * Math.PI / 180;
+    const travel = 0.02 + 0.06 * strength;
+    const panX = Math.cos(angle) * travel;
+    const panY = Math.sin(angle) * travel * 0.5;
+    const zoomIn = 0.05 + 0.15 * strength;
+
+    return recordCanvas(canvas, durationSeconds * 1000, fps, (t) => {
+        const p = easeInOut(t);
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, width, height);
+
+        // Far layer: the plain Ken Burns move, oversized so its edges never show.
+        drawCover(ctx, backdrop, width, height, 1.1 + zoomIn * p, panX * (p - 0.5), panY * (p - 0.5));
+        // Near layer: the centre zooms and travels further, which reads as parallax.
+        drawCover(ctx, near, width, height, 1.1 + zoomIn * 1.6 * p, panX * 1.8 * (p - 0.5), panY * 1.8 * (p - 0.5));
+
+        onProgress?.(t);
+    }, signal);
+};
@@ -0,0 +1,189 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { GenerationRequest } from '../App';
+import type { ProviderId } from '../services/imageProvider';
+
+// How a node was produced: enough to explain the result and to replay it.
+export interface Recipe {
+    request: GenerationRequest;
+    protocol: string;
+    provider: ProviderId | 'local';
+    model: string;
+    // The node whose image was fed to the model, if any.
+    sourceId: string | null;
+    durationMs: number;
+    // Reference images the request used that could not be restored (saved by an
+    // older version, or their asset is gone); replaying without them would give
+    // a different edit.
+    omittedReferences?: number;
+}
+
+export interface HistoryNode {
+    id: string;
+    // null for roots: uploads and text-to-image results.
+    parentId: string | null;
+    media: File | string;
+    // Absent for uploads and entries restored from the legacy linear history.
+    recipe?: Recipe;
+    createdAt: number;
+}
+
+export interface HistoryTree {
+    nodes: Record<string, HistoryNode>;
+    currentId: string | null;
+    // For each parent, the child last visited through it, so redo retraces the
+    // branch the user came from instead of jumping to the newest child.
+    activeChildIds: Record<string, string>;
+    // Results the user starred; pruning never removes them or their ancestors.
+    starredIds: string[];
+}
+
+let nextId = 1;
+const createNodeId = () => `node-${Date.now()}-${nextId++}`;
+
+export const createEmptyTree = (): HistoryTree => ({ nodes: {}, currentId: null, activeChildIds: {}, starredIds: [] });
+
+export const isEmptyTree = (tree: HistoryTree): boolean => Object.keys(tree.nodes).length === 0;
+
+export const getNode = (tree: HistoryTree, id: string | null | undefined): HistoryNode | null =>
+    (id && tree.nodes[id]) || null;
+
+export const getCurrentNode = (tree: HistoryTree): HistoryNode | null => getNode(tree, tree.currentId);
+
+const byCreation = (a: HistoryNode, b: HistoryNode) => a.createdAt - b.createdAt;
+
+export const getChildren = (tree: HistoryTree, parentId: string | null): HistoryNode[] =>
+    Object.values(tree.nodes).filter(n => n.parentId === parentId).sort(byCreation);
+
+export const getRoots = (tree: HistoryTree): HistoryNode[] => getChildren(tree, null);
+
+// Other nodes sharing this node's parent (other roots, for a root).
+export const getSiblings = (tree: HistoryTree, id: string): HistoryNode[] => {
+    const node = getNode(tree, id);
+    return node ? getChildren(tree, node.parentId).filter(n => n.id !== id) : [];
+};
+
+// Nodes from the root down to (and including) `id`.
+export const getPath = (tree: HistoryTree, id: string | null): HistoryNode[] => {
+    const path: HistoryNode[] = [];
+    let node = getNode(tree, id);
+    while (node) {
+        path.unshift(node);
+        node = getNode(tree, node.parentId);
+    }
+    return path;
+};
+
+export const getRootOf = (tree: HistoryTree, id: string | null): HistoryNode | null => getPath(tree, id)[0] ?? null;
+
+export const selectNode = (tree: HistoryTree, id: string): HistoryTree => {
+    if (!tree.nodes[id]) return tree;
+    const activeChildIds = { ...tree.activeChildIds };
+    for (const node of getPath(tree, id)) {
+        if (node.parentId) activeChildIds[node.parentId] = node.id;
+    }
+    return { ...tree, currentId: id, activeChildIds };
+};
+
+/**
+ * Adds a node under `parentId` (or as a new root) without discarding any
+ * existing branch. The new node becomes current when `select` is set.
+ */
+export const addNode = (
+    tree: HistoryTree,
+    media: File | string,
+    parentId: string | null,
+    recipe?: Recipe,
+    select = true,
+): { tree: HistoryTree; node: HistoryNode } => {
+    const node: HistoryNode = {
+        id: createNodeId(),
+        parentId: parentId && tree.nodes[parentId] ? parentId : null,
+        media,
+        recipe,
+        createdAt: Date.now(),
+    };
+    const next = { ...tree, nodes: { ...tree.nodes, [node.id]: node } };
+    return { tree: select ? selectNode(next, node.id) : next, node };
+};
+
+export const getUndoTarget = (tree: HistoryTree): string | null => getCurrentNode(tree)?.parentId ?? null;
+
+export const getRedoTarget = (tree: HistoryTree): string | null => {
+    if (!tree.currentId) return null;
+    const remembered = tree.activeChildIds[tree.currentId];
+    if (remembered && tree.nodes[remembered]) return remembered;
+    const children = getChildren(tree, tree.currentId);
+    return children.length > 0 ? children[children.length - 1].id : null;
+};
+
+export const isStarred = (tree: HistoryTree, id: string): boolean => tree.starredIds.includes(id);
+
+export const toggleStar = (tree: HistoryTree, id: string): HistoryTree => {
+    if (!tree.nodes[id]) return tree;
+    const starredIds = isStarred(tree, id) ? tree.starredIds.filter(s => s !== id) : [...tree.starredIds, id];
+    return { ...tree, starredIds };
+};
+
+/**
+ * Drops every branch except the path to the current node and the paths to
+ * starred nodes. Returns the tree unchanged when there is nothing to prune.
+ */
+export const pruneTree = (tree: HistoryTree): { tree: HistoryTree; removed: number } => {
+    const keep = new Set<string>();
+    [tree.currentId, ...tree.starredIds].forEach(id => getPath(tree, id).forEach(n => keep.add(n.id)));
+    const removed = Object.keys(tree.nodes).length - keep.size;
+    if (removed === 0) return { tree, removed };
+
+    const nodes = Object.fromEntries(Object.entries(tree.nodes).filter(([id]) => keep.has(id)));
+    const activeChildIds = Object.fromEntries(
+        Object.entries(tree.activeChildIds).filter(([parent, child]) => keep.has(parent) && keep.has(child))
+    );
+    return { tree: { ...tree, nodes, activeChildIds, starredIds: tree.starredIds.filter(id => keep.has(id)) }, removed };
+};
+
+// Builds a tree from the legacy linear history: each entry is the child of the one before it.
+export const treeFromLinearHistory = (history: (File | string)[], historyIndex: number): HistoryTree => {
+    let tree = createEmptyTree();
+    const ids: string[] = [];
+    history.forEach((media, i) => {
+        const result = addNode(tree, media, i > 0 ? ids[i - 1] : null, undefined, false);
+        tree = result.tree;
+        ids.push(result.node.id);
+    });
+    const currentId = ids[Math.min(Math.max(historyIndex, 0), ids.length - 1)];
+    return currentId ? selectNode(tree, currentId) : tree;
+};
+
+export interface GraphLayoutItem {
+    node: HistoryNode;
+    depth: number;
+    row: number;
+}
+
+/**
+ * Lays the forest out left-to-right: depth is the column, and rows are
+ * assigned in depth-first order so each branch occupies its own band.
+ */
+export const layoutTree = (tree: HistoryTree): { items: GraphLayoutItem[]; depth: number; rows: number } => {
+    const items: GraphLayoutItem[] = [];
+    let row = 0;
+    let maxDepth = 0;
+
+    const visit = (node: HistoryNode, depth: number) => {
+        maxDepth = Math.max(maxDepth, depth);
+        const children = getChildren(tree, node.id);
+        items.push({ node, depth, row });
+        if (children.length === 0) {
+            row++;
+            return;
+        }
+        children.forEach(child => visit(child, depth + 1));
+    };
+
+    getRoots(tree).forEach(root => visit(root, 0));
+    return { items, depth: maxDepth + 1, rows: row };
+};
@@ -0,0 +1,181 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { loadImage } from './canvas';
+
+// Deterministic geometric edits (rotate, flip, straighten, crop) rendered on a
+// 2D canvas. Nothing here talks to a model, so the same transform applied to
+// the same image always produces the same pixels.
+
+export type QuarterTurn = 0 | 90 | 180 | 270;
+
+// Matches the aspect ratio options offered by FluxPanel, plus free-form.
+export const CROP_ASPECTS = ['free', '1:1', '16:9', '9:16', '4:3', '3:4'] as const;
+export type CropAspect = typeof CROP_ASPECTS[number];
+
+export const MAX_STRAIGHTEN = 45;
+
+// A crop rectangle in 0..1 units of the rotated (and straightened) frame.
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface CropTransform {
+    rotation: QuarterTurn;
+    // Flips are applied in screen space, i.e. after the quarter turn.
+    flipH: boolean;
+    flipV: boolean;
+    // Fine rotation in degrees; the image is scaled up so no empty corners show.
+    straighten: number;
+    aspect: CropAspect;
+    crop: CropRect;
+}
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const createCropTransform = (): CropTransform => ({
+    rotation: 0,
+    flipH: false,
+    flipV: false,
+    straighten: 0,
+    aspect: 'free',
+    crop: FULL_CROP,
+});
+
+export const isIdentityTransform = (t: CropTransform): boolean =>
+    t.rotation === 0 && !t.flipH && !t.flipV && t.straighten === 0 &&
+    t.crop.x === 0 && t.crop.y === 0 && t.crop.width === 1 && t.crop.height === 1;
+
+export const aspectToNumber = (aspect: CropAspect): number | null => {
+    if (aspect === 'free') return null;
+    const [w, h] = aspect.split(':').map(Number);
+    return w / h;
+};
+
+// Size of the frame after the quarter turn; straightening keeps the frame size.
+export const getFrameSize = (width: number, height: number, rotation: QuarterTurn): { width: number; height: number } =>
+    rotation === 90 || rotation === 270 ? { width: height, height: width } : { width, height };
+
+// Smallest scale at which a frame-sized image rotated by `degrees` still covers the frame.
+export const getStraightenScale = (width: number, height: number, degrees: number): number => {
+    const rad = Math.abs(degrees) * Math.PI / 180;
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    return Math.max((width * cos + height * sin) / width, (width * sin + height * cos) / height);
+};
+
+const clampRect = (rect: CropRect): CropRect => {
+    const width = Math.min(1, Math.max(0, rect.width));
+    const height = Math.min(1, Math.max(0, rect.height));
+    return {
+        x: Math.min(1 - width, Math.max(0, rect.x)),
+        y: Math.min(1 - height, Math.max(0, rect.y)),
+        width,
+        height,
+    };
+};
+
+/** Largest centred crop of the given aspect inside a frame of `frameWidth` x `frameHeight` pixels. */
+export const fitCropToAspect = (aspect: CropAspect, frameWidth: number, frameHeight: number): CropRect => {
+    const ratio = aspectToNumber(aspect);
+    if (!ratio) return FULL_CROP;
+    const frameRatio = frameWidth / frameHeight;
+    const width = ratio < frameRatio ? ratio / frameRatio : 1;
+    const height = ratio < frameRatio ? 1 : frameRatio / ratio;
+    return { x: (1 - width) / 2, y: (1 - height) / 2, width, height };
+};
+
+const SWAPPED_ASPECTS: Partial<Record<CropAspect, CropAspect>> = { '16:9': '9:16', '9:16': '16:9', '4:3': '3:4', '3:4': '4:3' };
+
+/** Turns the image a quarter clockwise (or counter-clockwise), carrying the crop along. */
+export const rotateQuarter = (t: CropTransform, clockwise: boolean): CropTransform => {
+    const { x, y, width, height } = t.crop;
+    const crop = clockwise
+        ? { x: 1 - (y + height), y: x, width: height, height: width }
+        : { x: y, y: 1 - (x + width), width: height, height: width };
+    return {
+        ...t,
+        rotation: ((t.rotation + (clockwise ? 90 : 270)) % 360) as QuarterTurn,
+        // Horizontal and vertical flips trade places relative to the new orientation.
+        flipH: t.flipV,
+        flipV: t.flipH,
+        aspect: SWAPPED_ASPECTS[t.aspect] ?? t.aspect,
+        crop: clampRect(crop),
+    };
+};
+
+export const flip = (t: CropTransform, axis: 'horizontal' | 'vertical'): CropTransform => {
+    const { x, y, width, height } = t.crop;
+    return axis === 'horizontal'
+        ? { ...t, flipH: !t.flipH, crop: { ...t.crop, x: 1 - x - width } }
+        : { ...t, flipV: !t.flipV, crop: { ...t.crop, y: 1 - y - height } };
+};
+
+/**
+ * Draws `image` into a context whose origin is the top-left of the transformed
+ * frame, where the frame measures `frameWidth` x `frameHeight` pixels.
+ */
+export const drawTransformed = (
+    ctx: CanvasRenderingContext2D,
+    image: CanvasImageSource & { width: number; height: number },
+    t: Pick<CropTransform, 'rotation' | 'flipH' | 'flipV' | 'straighten'>,
+    frameWidth: number,
+    frameHeight: number,
+): void => {
+    const turned = t.rotation === 90 || t.rotation === 270;
+    // Image size in frame pixels before rotation.
+    const drawWidth = turned ? frameHeight : frameWidth;
+    const drawHeight = turned ? frameWidth : frameHeight;
+    const cover = getStraightenScale(frameWidth, frameHeight, t.straighten);
+
+    ctx.save();
+    ctx.imageSmoothingQuality = 'high';
+    ctx.translate(frameWidth / 2, frameHeight / 2);
+    ctx.scale(t.flipH ? -1 : 1, t.flipV ? -1 : 1);
+    // Flipping mirrors the apparent direction of the straighten angle, so undo that.
+    const mirrored = t.flipH !== t.flipV;
+    ctx.rotate(((t.rotation + (mirrored ? -t.straighten : t.straighten)) * Math.PI) / 180);
+    ctx.scale(cover, cover);
+    ctx.drawImage(image, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+    ctx.restore();
+};
+
+/** Renders the transform at full resolution and returns the result as a PNG data URL. */
+export const applyCropTransform = async (file: File, t: CropTransform): Promise<string> => {
+    const img = await loadImage(file);
+    const frame = getFrameSize(img.naturalWidth, img.naturalHeight, t.rotation);
+    const crop = clampRect(t.crop);
+    const sx = Math.round(crop.x * frame.width);
+    const sy = Math.round(crop.y * frame.height);
+    const width = Math.max(1, Math.round(crop.width * frame.width));
+    const height = Math.max(1, Math.round(crop.height * frame.height));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas 2D is not available in this browser.");
+    ctx.translate(-sx, -sy);
+    drawTransformed(ctx, img, t, frame.width, frame.height);
+    return canvas.toDataURL('image/png');
+};
+
+export const describeCropTransform = (t: CropTransform): string => {
+    const parts: string[] = [];
+    if (t.rotation) parts.push(`rotate ${t.rotation}°`);
+    if (t.flipH) parts.push('flip H');
+    if (t.flipV) parts.push('flip V');
+    if (t.straighten) parts.push(`straighten ${t.straighten.toFixed(1)}°`);
+    const { x, y, width, height } = t.crop;
+    if (width < 1 || height < 1) {
+        const pct = (n: number) => `${Math.round(n * 100)}%`;
+        parts.push(`crop ${pct(width)} × ${pct(height)} at ${pct(x)}, ${pct(y)}`);
+    }
+    if (t.aspect !== 'free') parts.push(`aspect ${t.aspect}`);
+    return parts.join(', ') || 'no change';
+};
@@ -0,0 +1,215 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Point, Rect } from './viewport';
+
+// Canvas operations behind the mask editor. A mask is a canvas at the image's
+// natural size: opaque white marks pixels to change, transparent keeps them.
+
+// 'object' is click-to-select; it only works where an AI selection handler is wired up.
+export type MaskTool = 'brush' | 'eraser' | 'lasso' | 'polygon' | 'rect' | 'ellipse' | 'object';
+export const MASK_TOOLS: MaskTool[] = ['brush', 'eraser', 'lasso', 'polygon', 'rect', 'ellipse', 'object'];
+
+// Whether a selection shape adds to the mask or cuts it away.
+export type MaskMode = 'add' | 'subtract';
+
+export type { Point };
+
+export type MaskShape =
+    | { kind: 'stroke'; points: Point[]; size: number }
+    | { kind: 'lasso' | 'polygon'; points: Point[] }
+    | { kind: 'rect' | 'ellipse'; from: Point; to: Point };
+
+export const MAX_FEATHER = 64;
+
+export const createMaskCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas 2D is not available in this browser.");
+    return { canvas, ctx };
+};
+
+const getContext = (canvas: HTMLCanvasElement) => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas 2D is not available in this browser.");
+    return ctx;
+};
+
+/** Paints `shape` into the mask, or clears it out when `mode` is 'subtract'. */
+export const drawMaskShape = (canvas: HTMLCanvasElement, shape: MaskShape, mode: MaskMode = 'add') => {
+    const ctx = getContext(canvas);
+    ctx.save();
+    ctx.globalCompositeOperation = mode === 'add' ? 'source-over' : 'destination-out';
+    ctx.fillStyle = '#FFFFFF';
+    ctx.strokeStyle = '#FFFFFF';
+    ctx.beginPath();
+
+    switch (shape.kind) {
+        case 'stroke': {
+            const [first, ...rest] = shape.points;
+            if (!first) break;
+            ctx.lineWidth = shape.size;
+            ctx.lineCap = 'round';
+            ctx.lineJoin = 'round';
+            if (rest.length === 0) {
+                // A tap leaves a dot.
+                ctx.arc(first.x, first.y, shape.size / 2, 0, Math.PI * 2);
+                ctx.fill();
+                break;
+            }
+            ctx.moveTo(first.x, first.y);
+            rest.forEach(p => ctx.lineTo(p.x, p.y));
+            ctx.stroke();
+            break;
+        }
+        case 'lasso':
+        case 'polygon': {
+            if (shape.points.length < 3) break;
+            shape.points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+            ctx.closePath();
+            ctx.fill();
+            break;
+        }
+        case 'rect':
+        case 'ellipse': {
+            const x = Math.min(shape.from.x, shape.to.x);
+            const y = Math.min(shape.from.y, shape.to.y);
+            const w = Math.abs(shape.to.x - shape.from.x);
+            const h = Math.abs(shape.to.y - shape.from.y);
+            if (w < 1 || h < 1) break;
+            if (shape.kind === 'rect') ctx.rect(x, y, w, h);
+            else ctx.ellipse(x + w / 2, y + h / 2, w / 2, h / 2, 0, 0, Math.PI * 2);
+            ctx.fill();
+            break;
+        }
+    }
+    ctx.restore();
+};
+
+/** Merges a mask image (e.g. a segmentation result) into the mask, stretched to fit. */
+export const drawMaskImage = (canvas: HTMLCanvasElement, image: CanvasImageSource, mode: MaskMode = 'add') => {
+    const ctx = getContext(canvas);
+    ctx.save();
+    ctx.globalCompositeOperation = mode === 'add' ? 'source-over' : 'destination-out';
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    ctx.restore();
+};
+
+export const decodeMaskImage = async (source: string): Promise<ImageBitmap> =>
+    createImageBitmap(await (await fetch(source)).blob());
+
+/** invertMask for a mask that only exists as a data URL. */
+export const invertMaskImage = async (source: string): Promise<string> => {
+    const bitmap = await decodeMaskImage(source);
+    const { canvas, ctx } = createMaskCanvas(bitmap.width, bitmap.height);
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    invertMask(canvas);
+    return canvas.toDataURL('image/png');
+};
+
+export const clearMask = (canvas: HTMLCanvasElement) => {
+    getContext(canvas).clearRect(0, 0, canvas.width, canvas.height);
+};
+
+/** Swaps masked and unmasked areas; soft edges invert with them. */
+export const invertMask = (canvas: HTMLCanvasElement) => {
+    const ctx = getContext(canvas);
+    ctx.save();
+    // XOR with opaque white leaves alpha at 1 - alpha.
+    ctx.globalCompositeOperation = 'xor';
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.restore();
+};
+
+// Dilation by `radius` pixels: a Gaussian blur with sigma = radius / 2 puts
+// about 2% coverage at distance `radius` from an edge, so thresholding there
+// approximates a round structuring element at a fraction of the cost.
+const DILATE_THRESHOLD = 6;
+
+const dilate = (canvas: HTMLCanvasElement, radius: number) => {
+    const { width, height } = canvas;
+    const blurred = createMaskCanvas(width, height);
+    blurred.ctx.filter = `blur(${radius / 2}px)`;
+    blurred.ctx.drawImage(canvas, 0, 0);
+    const image = blurred.ctx.getImageData(0, 0, width, height);
+    const { data } = image;
+    for (let i = 0; i < data.length; i += 4) {
+        data[i] = data[i + 1] = data[i + 2] = 255;
+        data[i + 3] = data[i + 3] >= DILATE_THRESHOLD ? 255 : 0;
+    }
+    getContext(canvas).putImageData(image, 0, 0);
+};
+
+/** Grows the mask outward by `amount` pixels, or shrinks it for a negative amount. Leaves hard edges. */
+export const growMask = (canvas: HTMLCanvasElement, amount: number) => {
+    if (amount === 0) return;
+    if (amount > 0) {
+        dilate(canvas, amount);
+        return;
+    }
+    // Erosion is dilation of the unmasked area.
+    invertMask(canvas);
+    dilate(canvas, -amount);
+    invertMask(canvas);
+};
+
+export const isMaskEmpty = (canvas: HTMLCanvasElement): boolean => {
+    if (canvas.width === 0 || canvas.height === 0) return true;
+    const { data } = getContext(canvas).getImageData(0, 0, canvas.width, canvas.height);
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] !== 0) return false;
+    }
+    return true;
+};
+
+/** Pixel bounds of the masked area, or null when nothing is masked. */
+export const getMaskBounds = (canvas: HTMLCanvasElement): Rect | null => {
+    const { width, height } = canvas;
+    if (width === 0 || height === 0) return null;
+    const { data } = getContext(canvas).getImageData(0, 0, width, height);
+    let left = width, top = height, right = -1, bottom = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (data[(y * width + x) * 4 + 3] === 0) continue;
+            if (x < left) left = x;
+            if (x > right) right = x;
+            if (y < top) top = y;
+            if (y > bottom) bottom = y;
+        }
+    }
+    return right < 0 ? null : { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+};
+
+/**
+ * Unions mask images into one at the first mask's size, and reports where each
+ * one lies as fractions of that size (null for an empty mask).
+ */
+export const mergeMaskImages = async (sources: string[]): Promise<{ mask: string; bounds: (Rect | null)[] }> => {
+    const bitmaps = await Promise.all(sources.map(decodeMaskImage));
+    const { width, height } = bitmaps[0] ?? { width: 0, height: 0 };
+    const merged = createMaskCanvas(width, height);
+    const bounds = bitmaps.map(bitmap => {
+        const single = createMaskCanvas(width, height);
+        single.ctx.drawImage(bitmap, 0, 0, width, height);
+        bitmap.close();
+        merged.ctx.drawImage(single.canvas, 0, 0);
+        const box = getMaskBounds(single.canvas);
+        return box && { x: box.x / width, y: box.y / height, width: box.width / width, height: box.height / height };
+    });
+    return { mask: merged.canvas.toDataURL('image/png'), bounds };
+};
+
+/** The mask as a PNG data URL, with its edges softened by `feather` pixels. */
+export const exportMask = (canvas: HTMLCanvasElement, feather = 0): string => {
+    if (feather <= 0) return canvas.toDataURL('image/png');
+    const soft = createMaskCanvas(canvas.width, canvas.height);
+    soft.ctx.filter = `blur(${Math.min(feather, MAX_FEATHER) / 2}px)`;
+    soft.ctx.drawImage(canvas, 0, 0);
+    return soft.canvas.toDataURL('image/png');
+};
@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { loadImage } from './canvas';
+
+// Canvas preparation for the expand (outpaint) tool. The image is placed on a
+// larger canvas and a mask marks the new border so the inpainting path can fill
+// it in; the model never sees an empty canvas, only a hint of the original's
+// colours stretched outwards.
+
+export type ExpandDirection = 'up' | 'down' | 'left' | 'right';
+export const EXPAND_DIRECTIONS: ExpandDirection[] = ['up', 'down', 'left', 'right'];
+
+// Same target ratios as FluxPanel.
+export const EXPAND_ASPECTS = ['1:1', '16:9', '9:16', '4:3', '3:4'] as const;
+export type ExpandAspect = typeof EXPAND_ASPECTS[number];
+
+export const MAX_EXPAND_AMOUNT = 1;
+
+export interface ExpandSpec {
+    directions: ExpandDirection[];
+    // 'amount' grows each chosen side by `amount` times the image's size on
+    // that axis; 'aspect' grows the chosen sides just enough to reach `aspect`.
+    mode: 'amount' | 'aspect';
+    amount: number;
+    aspect: ExpandAspect;
+}
+
+export interface Padding {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+}
+
+export const createExpandSpec = (): ExpandSpec => ({
+    directions: [...EXPAND_DIRECTIONS],
+    mode: 'amount',
+    amount: 0.25,
+    aspect: '16:9',
+});
+
+// Pixels the model is allowed to repaint inside the original, so the seam blends.
+const FEATHER = 16;
+
+/**
+ * Padding in pixels for an image of `width` x `height`. In aspect mode, extra
+ * space is split between the chosen sides of the axis that has to grow; if
+ * neither side of that axis is chosen, both are used so the ratio is still met.
+ */
+export const computePadding = (width: number, height: number, spec: ExpandSpec): Padding => {
+    const has = (d: ExpandDirection) => spec.directions.includes(d);
+
+    if (spec.mode === 'amount') {
+        const amount = Math.min(MAX_EXPAND_AMOUNT, Math.max(0, spec.amount));
+        const x = Math.round(width * amount);
+        const y = Math.round(height * amount);
+        return {
+            top: has('up') ? y : 0,
+            right: has('right') ? x : 0,
+            bottom: has('down') ? y : 0,
+            left: has('left') ? x : 0,
+        };
+    }
+
+    const [aw, ah] = spec.aspect.split(':').map(Number);
+    const target = aw / ah;
+    const split = (extra: number, first: boolean, second: boolean): [number, number] => {
+        if (first === second) return [Math.floor(extra / 2), Math.ceil(extra / 2)];
+        return first ? [extra, 0] : [0, extra];
+    };
+
+    if (target > width / height) {
+        const [left, right] = split(Math.round(height * target) - width, has('left'), has('right'));
+        return { top: 0, right, bottom: 0, left };
+    }
+    const [top, bottom] = split(Math.round(width / target) - height, has('up'), has('down'));
+    return { top, right: 0, bottom, left: 0 };
+};
+
+export const isEmptyPadding = (p: Padding): boolean => p.top + p.right + p.bottom + p.left === 0;
+
+export interface OutpaintCanvas {
+    file: File;
+    // PNG data URL: white where the model should paint, transparent elsewhere,
+    // matching the inpaint tool's brush mask.
+    maskBase64: string;
+    padding: Padding;
+    width: number;
+    height: number;
+}
+
+/** Pads `file` according to `spec` and builds the matching outpaint mask. */
+export const prepareOutpaint = async (file: File, spec: ExpandSpec): Promise<OutpaintCanvas> => {
+    const img = await loadImage(file);
+    const { naturalWidth: w, naturalHeight: h } = img;
+    const padding = computePadding(w, h, spec);
+    if (isEmptyPadding(padding)) throw new Error("Nothing to expand: pick at least one side, or a target aspect ratio the image does not already have.");
+    const width = w + padding.left + padding.right;
+    const height = h + padding.top + padding.bottom;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas 2D is not available in this browser.");
+
+    // Seed the border with a heavily blurred stretch of the image so the model
+    // starts from matching colours rather than a flat fill.
+    ctx.filter = `blur(${Math.round(Math.max(width, height) / 24)}px)`;
+    ctx.drawImage(img, 0, 0, width, height);
+    ctx.filter = 'none';
+    ctx.drawImage(img, padding.left, padding.top);
+
+    const mask = document.createElement('canvas');
+    mask.width = width;
+    mask.height = height;
+    const maskCtx = mask.getContext('2d');
+    if (!maskCtx) throw new Error("Canvas 2D is not available in this browser.");
+    maskCtx.fillStyle = '#FFFFFF';
+    maskCtx.fillRect(0, 0, width, height);
+    // Keep the original, minus a feather strip along each expanded edge.
+    const inset = (side: number) => (side > 0 ? Math.min(FEATHER, Math.floor(Math.min(w, h) / 4)) : 0);
+    maskCtx.clearRect(
+        padding.left + inset(padding.left),
+        padding.top + inset(padding.top),
+        w - inset(padding.left) - inset(padding.right),
+        h - inset(padding.top) - inset(padding.bottom),
+    );
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error("Could not render the expanded canvas.");
+    return {
+        file: new File([blob], `expand-${Date.now()}.png`, { type: 'image/png' }),
+        maskBase64: mask.toDataURL('image/png'),
+        padding,
+        width,
+        height,
+    };
+};
+
+/** Instruction for the model describing which edges were added. */
+export const buildOutpaintInstruction = (padding: Padding, prompt?: string): string => {
+    const sides = (['top', 'right', 'bottom', 'left'] as const).filter(side => padding[side] > 0);
+    const base = `Outpaint: extend the scene outward into the masked border on the ${sides.join(', ')} edge${sides.length > 1 ? 's' : ''}. Continue the existing perspective, lighting and content past the original frame so no seam is visible. Replace the blurred placeholder completely.`;
+    return prompt?.trim() ? `${base} The new area should contain: ${prompt.trim()}` : base;
+};
+
+export const describeExpandSpec = (spec: ExpandSpec): string => {
+    const sides = spec.directions.length === EXPAND_DIRECTIONS.length ? 'all sides' : spec.directions.join(', ');
+    return spec.mode === 'amount' ? `${sides} by ${Math.round(spec.amount * 100)}%` : `${sides} to ${spec.aspect}`;
+};
@@ -0,0 +1,246 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createCanvas, loadImage } from './canvas';
+
+// Super-resolution for the upscale tool. Large images are cut into overlapping
+// tiles so each provider call stays near the model's native output size, and
+// the enhanced tiles are cross-faded over their overlap when reassembled.
+// lanczosResize is the offline path and needs no provider at all.
+
+export const UPSCALE_FACTORS = [2, 4] as const;
+export type UpscaleFactor = typeof UPSCALE_FACTORS[number];
+export type UpscaleMethod = 'ai' | 'local';
+
+export interface UpscaleSpec {
+    factor: UpscaleFactor;
+    method: UpscaleMethod;
+}
+
+// Keeps the output within what mobile WebViews can allocate for a canvas.
+export const MAX_UPSCALE_PIXELS = 4096 * 4096;
+
+// Roughly the edge length the image model returns, in output pixels.
+const TILE_OUTPUT_SIZE = 1024;
+const LANCZOS_LOBES = 3;
+
+export interface Tile {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export const getUpscaledSize = (width: number, height: number, factor: UpscaleFactor) => ({ width: width * factor, height: height * factor });
+
+export const canUpscale = (width: number, height: number, factor: UpscaleFactor): boolean =>
+    width * height * factor * factor <= MAX_UPSCALE_PIXELS;
+
+// Start offsets along one axis: the fewest spans of `tile` pixels that cover
+// `size` with at least `overlap` shared between neighbours, spaced evenly.
+const planAxis = (size: number, tile: number, overlap: number): number[] => {
+    if (size <= tile) return [0];
+    const count = Math.ceil((size - overlap) / (tile - overlap));
+    return Array.from({ length: count }, (_, i) => Math.round(i * (size - tile) / (count - 1)));
+};
+
+export const planTiles = (width: number, height: number, tile: number, overlap: number): Tile[] => {
+    const xs = planAxis(width, tile, overlap);
+    const ys = planAxis(height, tile, overlap);
+    return ys.flatMap(y => xs.map(x => ({ x, y, width: Math.min(tile, width), height: Math.min(tile, height) })));
+};
+
+// Source tiles for a tiled upscale, sized so each comes back near TILE_OUTPUT_SIZE.
+export const planUpscaleTiles = (width: number, height: number, factor: UpscaleFactor): { tiles: Tile[]; overlap: number } => {
+    const tileSize = Math.round(TILE_OUTPUT_SIZE / factor);
+    const overlap = Math.round(tileSize / 8);
+    return { tiles: planTiles(width, height, tileSize, overlap), overlap };
+};
+
+const lanczos = (x: number): number => {
+    if (x === 0) return 1;
+    if (Math.abs(x) >= LANCZOS_LOBES) return 0;
+    const px = Math.PI * x;
+    return (LANCZOS_LOBES * Math.sin(px) * Math.sin(px / LANCZOS_LOBES)) / (px * px);
+};
+
+// Per output pixel: the first source index and normalized weights of its taps.
+const computeWeights = (srcSize: number, dstSize: number) => {
+    const scale = dstSize / srcSize;
+    // When shrinking, widen the kernel so every source pixel contributes.
+    const filterScale = Math.max(1, 1 / scale);
+    const support = LANCZOS_LOBES * filterScale;
+    const taps = Math.ceil(support) * 2;
+    const starts = new Int32Array(dstSize);
+    const weights = new Float32Array(dstSize * taps);
+
+    for (let i = 0; i < dstSize; i++) {
+        const center = (i + 0.5) / scale - 0.5;
+        const start = Math.floor(center) - Math.ceil(support) + 1;
+        starts[i] = start;
+        let sum = 0;
+        for (let k = 0; k < taps; k++) {
+            const w = lanczos((start + k - center) / filterScale);
+            weights[i * taps + k] = w;
+            sum += w;
+        }
+        for (let k = 0; k < taps; k++) weights[i * taps + k] /= sum;
+    }
+    return { starts, weights, taps };
+};
+
+/**
+ * Separable Lanczos-3 resample. Works on premultiplied alpha so transparent
+ * edges do not bleed dark fringes into their neighbours.
+ */
+export const lanczosResize = (src: ImageData, dstWidth: number, dstHeight: number): ImageData => {
+    const { width: srcWidth, height: srcHeight, data } = src;
+    const horizontal = computeWeights(srcWidth, dstWidth);
+    const vertical = computeWeights(srcHeight, dstHeight);
+
+    // Horizontal pass into a float buffer of dstWidth x srcHeight.
+    const temp = new Float32Array(dstWidth * srcHeight * 4);
+    for (let y = 0; y < srcHeight; y++) {
+        const row = y * srcWidth;
+        for (let x = 0; x < dstWidth; x++) {
+            let r = 0, g = 0, b = 0, a = 0;
+            const start = horizontal.starts[x];
+            for (let k = 0; k < horizontal.taps; k++) {
+                const sx = Math.min(srcWidth - 1, Math.max(0, start + k));
+                const w = horizontal.weights[x * horizontal.taps + k];
+                const i = (row + sx) * 4;
+                const alpha = data[i + 3];
+                r += data[i] * alpha * w;
+                g += data[i + 1] * alpha * w;
+                b += data[i + 2] * alpha * w;
+                a += alpha * w;
+            }
+            const o = (y * dstWidth + x) * 4;
+            temp[o] = r;
+            temp[o + 1] = g;
+            temp[o + 2] = b;
+            temp[o + 3] = a;
+        }
+    }
+
+    const out = new ImageData(dstWidth, dstHeight);
+    const dst = out.data;
+    for (let y = 0; y < dstHeight; y++) {
+        const start = vertical.starts[y];
+        for (let x = 0; x < dstWidth; x++) {
+            let r = 0, g = 0, b = 0, a = 0;
+            for (let k = 0; k < vertical.taps; k++) {
+                const sy = Math.min(srcHeight - 1, Math.max(0, start + k));
+                const w = vertical.weights[y * vertical.taps + k];
+                const i = (sy * dstWidth + x) * 4;
+                r += temp[i] * w;
+                g += temp[i + 1] * w;
+                b += temp[i + 2] * w;
+                a += temp[i + 3] * w;
+            }
+            const o = (y * dstWidth + x) * 4;
+            // Uint8ClampedArray rounds and clamps the ringing Lanczos produces at hard edges.
+            dst[o + 3] = a;
+            if (a > 0) {
+                dst[o] = r / a;
+                dst[o + 1] = g / a;
+                dst[o + 2] = b / a;
+            }
+        }
+    }
+    return out;
+};
+
+const assertUpscalable = (width: number, height: number, factor: UpscaleFactor) => {
+    if (!canUpscale(width, height, factor)) {
+        const size = getUpscaledSize(width, height, factor);
+        throw new Error(`A ${factor}x upscale would be ${size.width} × ${size.height} px, larger than this device can hold. Try a smaller factor or crop first.`);
+    }
+};
+
+/** Offline upscale: a plain Lanczos resample, returned as a PNG data URL. */
+export const upscaleLocal = async (file: File, factor: UpscaleFactor): Promise<string> => {
+    const img = await loadImage(file);
+    const { naturalWidth: width, naturalHeight: height } = img;
+    assertUpscalable(width, height, factor);
+
+    const source = createCanvas(width, height);
+    source.ctx.drawImage(img, 0, 0);
+    const resized = lanczosResize(source.ctx.getImageData(0, 0, width, height), width * factor, height * factor);
+
+    const { canvas, ctx } = createCanvas(width * factor, height * factor);
+    ctx.putImageData(resized, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+// Fades the leading edges of a tile in over `overlap` pixels, so drawing it on
+// top of its left and upper neighbours cross-fades instead of leaving a seam.
+const featherLeadingEdges = (ctx: CanvasRenderingContext2D, width: number, height: number, left: boolean, top: boolean, overlap: number) => {
+    ctx.globalCompositeOperation = 'destination-in';
+    if (left) {
+        const gradient = ctx.createLinearGradient(0, 0, overlap, 0);
+        gradient.addColorStop(0, 'rgba(0,0,0,0)');
+        gradient.addColorStop(1, 'rgba(0,0,0,1)');
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, width, height);
+    }
+    if (top) {
+        const gradient = ctx.createLinearGradient(0, 0, 0, overlap);
+        gradient.addColorStop(0, 'rgba(0,0,0,0)');
+        gradient.addColorStop(1, 'rgba(0,0,0,1)');
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, width, height);
+    }
+    ctx.globalCompositeOperation = 'source-over';
+};
+
+/**
+ * Tiled super-resolution. `enhanceTile` receives each source tile as a PNG and
+ * returns the enhanced image as a data URL; its output is resampled to exactly
+ * `factor` times the tile size, so the model's own output size does not matter.
+ * Tiles run one at a time to stay within provider rate limits.
+ */
+export const upscaleTiled = async (
+    file: File,
+    factor: UpscaleFactor,
+    enhanceTile: (tile: File) => Promise<string>,
+    onProgress?: (progress: number) => void,
+): Promise<string> => {
+    const img = await loadImage(file);
+    const { naturalWidth: width, naturalHeight: height } = img;
+    assertUpscalable(width, height, factor);
+
+    const { tiles, overlap } = planUpscaleTiles(width, height, factor);
+    const output = createCanvas(width * factor, height * factor);
+    output.ctx.imageSmoothingQuality = 'high';
+
+    for (let i = 0; i < tiles.length; i++) {
+        const tile = tiles[i];
+        const crop = createCanvas(tile.width, tile.height);
+        crop.ctx.drawImage(img, tile.x, tile.y, tile.width, tile.height, 0, 0, tile.width, tile.height);
+        const blob = await new Promise<Blob | null>(resolve => crop.canvas.toBlob(resolve, 'image/png'));
+        if (!blob) throw new Error("Could not render an upscale tile.");
+
+        const enhancedUrl = await enhanceTile(new File([blob], `tile-${i}.png`, { type: 'image/png' }));
+        const enhanced = await new Promise<HTMLImageElement>((resolve, reject) => {
+            const el = new Image();
+            el.onload = () => resolve(el);
+            el.onerror = () => reject(new Error("The provider returned an unreadable tile."));
+            el.src = enhancedUrl;
+        });
+
+        const scaled = createCanvas(tile.width * factor, tile.height * factor);
+        scaled.ctx.imageSmoothingQuality = 'high';
+        scaled.ctx.drawImage(enhanced, 0, 0, scaled.canvas.width, scaled.canvas.height);
+        featherLeadingEdges(scaled.ctx, scaled.canvas.width, scaled.canvas.height, tile.x > 0, tile.y > 0, overlap * factor);
+        output.ctx.drawImage(scaled.canvas, tile.x * factor, tile.y * factor);
+
+        onProgress?.((i + 1) / tiles.length);
+    }
+    return output.canvas.toDataURL('image/png');
+};
+
+export const describeUpscaleSpec = (spec: UpscaleSpec): string =>
+    `${spec.factor}x, ${spec.method === 'ai' ? 'AI tiles' : 'local Lanczos'}`;
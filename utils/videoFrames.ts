@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Still frames pulled out of video clips, used as keyframes when extending a
+// clip or chaining shots, and as grabs from the timeline.
+
+// Seeking exactly to `duration` lands past the last decodable frame in some browsers.
+const LAST_FRAME_OFFSET = 0.05;
+
+const once = (el: HTMLVideoElement, event: keyof HTMLMediaElementEventMap): Promise<void> => new Promise((resolve, reject) => {
+    const onError = () => {
+        el.removeEventListener(event, onEvent);
+        reject(new Error("Could not decode the video clip."));
+    };
+    const onEvent = () => {
+        el.removeEventListener('error', onError);
+        resolve();
+    };
+    el.addEventListener(event, onEvent, { once: true });
+    el.addEventListener('error', onError, { once: true });
+});
+
+export const seekVideo = async (el: HTMLVideoElement, time: number): Promise<void> => {
+    if (Math.abs(el.currentTime - time) < 1e-3) return;
+    const seeked = once(el, 'seeked');
+    el.currentTime = time;
+    await seeked;
+};
+
+/**
+ * Loads `url` into a muted, detached video element with its first frame
+ * decoded and a finite `duration`. Callers own the element and the URL.
+ */
+export const loadVideo = async (url: string): Promise<HTMLVideoElement> => {
+    const el = document.createElement('video');
+    el.muted = true;
+    el.playsInline = true;
+    el.preload = 'auto';
+    el.crossOrigin = 'anonymous';
+    const loaded = once(el, 'loadeddata');
+    el.src = url;
+    await loaded;
+    // MediaRecorder output reports an infinite duration until its end has been seeked to.
+    if (!Number.isFinite(el.duration)) {
+        await seekVideo(el, Number.MAX_SAFE_INTEGER);
+        await seekVideo(el, 0);
+    }
+    return el;
+};
+
+export const releaseVideo = (el: HTMLVideoElement) => {
+    el.pause();
+    el.removeAttribute('src');
+    el.load();
+};
+
+/** Duration of `video` in seconds. */
+export const getVideoDuration = async (video: File): Promise<number> => {
+    const url = URL.createObjectURL(video);
+    try {
+        const el = await loadVideo(url);
+        const { duration } = el;
+        releaseVideo(el);
+        return duration;
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+/** Renders the first frame, last frame or the frame at `position` seconds of `video` to a PNG file. */
+export const extractVideoFrame = async (video: File | string, position: 'first' | 'last' | number): Promise<File> => {
+    const url = typeof video === 'string' ? video : URL.createObjectURL(video);
+    let el: HTMLVideoElement | null = null;
+
+    try {
+        el = await loadVideo(url);
+        if (position !== 'first') {
+            const end = Math.max(0, el.duration - LAST_FRAME_OFFSET);
+            await seekVideo(el, position === 'last' ? end : Math.min(Math.max(0, position), end));
+        }
+
+        const canvas = document.createElement('canvas');
+        canvas.width = el.videoWidth;
+        canvas.height = el.videoHeight;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error("Canvas 2D is not available in this browser.");
+        ctx.drawImage(el, 0, 0);
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+        if (!blob) throw new Error("Could not capture a frame from the video clip.");
+        return new File([blob], `frame-${Date.now()}.png`, { type: 'image/png' });
+    } finally {
+        if (el) releaseVideo(el);
+        if (typeof video !== 'string') URL.revokeObjectURL(url);
+    }
+};
@@ -0,0 +1,131 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { loadVideo, releaseVideo, seekVideo } from './videoFrames';
+import { recordCanvas } from './canvasRecorder';
+import { throwIfAborted } from './abort';
+
+// A client-side edit list over video entries in history. Clips are played back
+// in real time onto a canvas and recorded, so an export takes as long as the
+// edit runs. Only the picture is kept; generated clips carry no usable audio.
+
+export interface TimelineClip {
+    // History node holding the clip; resolved to media when rendering.
+    nodeId: string;
+    // Trim points, in seconds into the clip.
+    start: number;
+    end: number;
+}
+
+export interface TimelineSpec {
+    clips: TimelineClip[];
+    // Overlap between consecutive clips, in seconds.
+    crossfade: number;
+}
+
+export const MAX_CROSSFADE = 2;
+// Shortest clip a trim can leave behind.
+export const MIN_CLIP_LENGTH = 0.5;
+const EXPORT_FPS = 30;
+
+const clipLength = (clip: TimelineClip) => clip.end - clip.start;
+
+// A fade may use at most half of each clip, so it never runs into the next one.
+export const getEffectiveCrossfade = (spec: TimelineSpec): number => {
+    if (spec.clips.length < 2) return 0;
+    const shortest = Math.min(...spec.clips.map(clipLength));
+    return Math.max(0, Math.min(spec.crossfade, MAX_CROSSFADE, shortest / 2));
+};
+
+export const getTimelineDuration = (spec: TimelineSpec): number => {
+    const fade = getEffectiveCrossfade(spec);
+    return spec.clips.reduce((sum, clip) => sum + clipLength(clip), 0) - fade * Math.max(0, spec.clips.length - 1);
+};
+
+// When each clip begins on the output timeline.
+const getClipOffsets = (spec: TimelineSpec): number[] => {
+    const fade = getEffectiveCrossfade(spec);
+    let offset = 0;
+    return spec.clips.map(clip => {
+        const at = offset;
+        offset += clipLength(clip) - fade;
+        return at;
+    });
+};
+
+export const describeTimelineSpec = (spec: TimelineSpec): string => {
+    const fade = getEffectiveCrossfade(spec);
+    const clips = `${spec.clips.length} clip${spec.clips.length === 1 ? '' : 's'}, ${getTimelineDuration(spec).toFixed(1)}s`;
+    return fade > 0 ? `${clips}, ${fade.toFixed(1)}s crossfades` : clips;
+};
+
+// Letterboxes `el` into the output frame.
+const drawContained = (ctx: CanvasRenderingContext2D, el: HTMLVideoElement, width: number, height: number) => {
+    const scale = Math.min(width / el.videoWidth, height / el.videoHeight);
+    const w = el.videoWidth * scale;
+    const h = el.videoHeight * scale;
+    ctx.drawImage(el, (width - w) / 2, (height - h) / 2, w, h);
+};
+
+/**
+ * Renders `spec` to a single video. `media` holds the file for each clip, in
+ * the same order. The output takes the frame size of the first clip.
+ */
+export const renderTimeline = async (
+    spec: TimelineSpec,
+    media: File[],
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal,
+): Promise<Blob> => {
+    if (spec.clips.length === 0) throw new Error("The timeline is empty.");
+    const urls = media.map(file => URL.createObjectURL(file));
+    const videos: HTMLVideoElement[] = [];
+
+    try {
+        for (const url of urls) {
+            videos.push(await loadVideo(url));
+            throwIfAborted(signal);
+        }
+        await Promise.all(videos.map((el, i) => seekVideo(el, spec.clips[i].start)));
+
+        const fade = getEffectiveCrossfade(spec);
+        const offsets = getClipOffsets(spec);
+        const duration = getTimelineDuration(spec);
+        const canvas = document.createElement('canvas');
+        canvas.width = videos[0].videoWidth;
+        canvas.height = videos[0].videoHeight;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error("Canvas 2D is not available in this browser.");
+
+        return await recordCanvas(canvas, duration * 1000, EXPORT_FPS, (t) => {
+            const now = t * duration;
+            ctx.fillStyle = '#000';
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+            spec.clips.forEach((clip, i) => {
+                const el = videos[i];
+                const local = now - offsets[i];
+                const length = clipLength(clip);
+                if (local < 0 || local > length) {
+                    if (!el.paused) el.pause();
+                    return;
+                }
+                // Clips play on their own clock, which keeps pace with the recorder in real time.
+                if (el.paused) el.play().catch(() => undefined);
+                // Only the incoming clip fades, drawn over the outgoing one.
+                ctx.globalAlpha = i > 0 && fade > 0 ? Math.min(1, local / fade) : 1;
+                drawContained(ctx, el, canvas.width, canvas.height);
+            });
+            ctx.globalAlpha = 1;
+            onProgress?.(t);
+        }, signal, (paused) => {
+            // Hold the clips while recording is paused; the next frame restarts the ones in view.
+            if (paused) videos.forEach(el => el.pause());
+        });
+    } finally {
+        videos.forEach(releaseVideo);
+        urls.forEach(url => URL.revokeObjectURL(url));
+    }
+};
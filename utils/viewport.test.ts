@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Viewport, getFitScale, getFitRect, getDeviceScale, imageToScreen, screenToImage, clientToImage, zoomAt, MAX_ZOOM } from './viewport';
+
+const viewport = (overrides: Partial<Viewport> = {}): Viewport => ({
+    container: { width: 800, height: 600 },
+    image: { width: 1600, height: 900 },
+    zoom: 1,
+    pan: { x: 0, y: 0 },
+    ...overrides,
+});
+
+const expectPoint = (actual: { x: number; y: number }, expected: { x: number; y: number }) => {
+    expect(actual.x).toBeCloseTo(expected.x, 6);
+    expect(actual.y).toBeCloseTo(expected.y, 6);
+};
+
+describe('fitting', () => {
+    it('letterboxes a wide image with bars above and below', () => {
+        const rect = getFitRect(viewport());
+        expect(getFitScale({ width: 800, height: 600 }, { width: 1600, height: 900 })).toBe(0.5);
+        expect(rect).toEqual({ x: 0, y: 75, width: 800, height: 450 });
+    });
+
+    it('pillarboxes a tall image with bars left and right', () => {
+        const rect = getFitRect(viewport({ image: { width: 900, height: 1200 } }));
+        expect(rect.height).toBe(600);
+        expect(rect.width).toBe(450);
+        expect(rect.x).toBe(175);
+        expect(rect.y).toBe(0);
+    });
+
+    it('never enlarges an image smaller than the container', () => {
+        const rect = getFitRect(viewport({ image: { width: 200, height: 100 } }));
+        expect(rect).toEqual({ x: 300, y: 250, width: 200, height: 100 });
+    });
+
+    it('maps the image corners onto the fit rect', () => {
+        const v = viewport({ image: { width: 900, height: 1200 } });
+        const rect = getFitRect(v);
+        expectPoint(imageToScreen(v, { x: 0, y: 0 }), { x: rect.x, y: rect.y });
+        expectPoint(imageToScreen(v, { x: 900, y: 1200 }), { x: rect.x + rect.width, y: rect.y + rect.height });
+    });
+
+    it('returns a zero scale for an image with no size', () => {
+        expect(getFitScale({ width: 800, height: 600 }, { width: 0, height: 0 })).toBe(0);
+    });
+});
+
+describe('image <-> screen round trips', () => {
+    const images = {
+        letterbox: { width: 1600, height: 900 },
+        pillarbox: { width: 900, height: 1600 },
+        small: { width: 320, height: 240 },
+    };
+    const zooms = [1, 1.5, 2, 4, MAX_ZOOM];
+    const pans = [{ x: 0, y: 0 }, { x: 120, y: -80 }, { x: -333.5, y: 41.25 }];
+    const points = [{ x: 0, y: 0 }, { x: 10.5, y: 20.25 }, { x: 300, y: 200 }];
+
+    for (const [name, image] of Object.entries(images)) {
+        for (const zoom of zooms) {
+            for (const pan of pans) {
+                it(`${name} at zoom ${zoom}, pan (${pan.x}, ${pan.y})`, () => {
+                    const v = viewport({ image, zoom, pan });
+                    for (const point of points) {
+                        expectPoint(screenToImage(v, imageToScreen(v, point)), point);
+                        expectPoint(imageToScreen(v, screenToImage(v, point)), point);
+                    }
+                });
+            }
+        }
+    }
+});
+
+describe('clientToImage', () => {
+    // The viewer sits 37px in and 120px down the page, holding a 1600×900 image
+    // letterboxed into 800×600: 75px bars above and below at a fit scale of 0.5.
+    const origin = { x: 37, y: 120 };
+    const pixel = (point: { x: number; y: number }) => ({ x: Math.floor(point.x), y: Math.floor(point.y) });
+
+    it('lands a pointer over a known pixel of the letterboxed image on that pixel', () => {
+        // Pixel (812, 377) is centred at 400 + 12.5 * 0.5, 75 + 377.5 * 0.5 inside the viewer.
+        const client = { x: 37 + 406.25, y: 120 + 263.75 };
+        expect(pixel(clientToImage(viewport(), origin, client))).toEqual({ x: 812, y: 377 });
+    });
+
+    it('puts the letterbox bars outside the image', () => {
+        const v = viewport();
+        expect(clientToImage(v, origin, { x: 37 + 10, y: 120 + 74 }).y).toBeLessThan(0);
+        expect(pixel(clientToImage(v, origin, { x: 37.25, y: 120 + 75.25 }))).toEqual({ x: 0, y: 0 });
+        expect(pixel(clientToImage(v, origin, { x: 37 + 799.75, y: 120 + 524.75 }))).toEqual({ x: 1599, y: 899 });
+        expect(clientToImage(v, origin, { x: 37 + 10, y: 120 + 526 }).y).toBeGreaterThan(900);
+    });
+
+    it('follows zoom and pan', () => {
+        // At zoom 2 one image pixel is one screen pixel; pan shifts the centre by (40, -30).
+        const v = viewport({ zoom: 2, pan: { x: 40, y: -30 } });
+        const client = { x: 37 + 400 + 40 + 12.5, y: 120 + 300 - 30 - 72.5 };
+        expect(pixel(clientToImage(v, origin, client))).toEqual({ x: 812, y: 377 });
+    });
+
+    // An overlay with a DPR-sized backing store paints image pixel (812, 377) at some
+    // device pixel; a pointer over that device pixel has to come back to the same image pixel.
+    const painted = [
+        { dpr: 1, device: { x: 452, y: 197 } },
+        { dpr: 1.5, device: { x: 678, y: 296 } },
+        { dpr: 2, device: { x: 905, y: 395 } },
+        { dpr: 3, device: { x: 1357, y: 592 } },
+    ];
+    for (const { dpr, device } of painted) {
+        it(`lands a pointer over a painted device pixel on its image pixel at DPR ${dpr}`, () => {
+            const v = viewport({ zoom: 2, pan: { x: 40, y: -30 } });
+            const backingStore = { width: v.container.width * dpr, height: v.container.height * dpr };
+            const deviceScale = getDeviceScale(v, dpr);
+            expect(deviceScale).toBeCloseTo(dpr, 10);
+
+            // Where the overlay paints the pixel centre in its backing store.
+            const centre = imageToScreen(v, { x: 812.5, y: 377.5 });
+            expect(pixel({ x: centre.x * dpr, y: centre.y * dpr })).toEqual(device);
+            expect(device.x).toBeLessThan(backingStore.width);
+            expect(device.y).toBeLessThan(backingStore.height);
+
+            // Pointer events report CSS pixels, so the device pixel's centre arrives divided by the ratio.
+            const client = { x: origin.x + (device.x + 0.5) / dpr, y: origin.y + (device.y + 0.5) / dpr };
+            expect(pixel(clientToImage(v, origin, client))).toEqual({ x: 812, y: 377 });
+        });
+    }
+});
+
+describe('zoomAt', () => {
+    it('keeps the image point under the anchor in place', () => {
+        const v = viewport({ zoom: 1.5, pan: { x: 20, y: 10 } });
+        const anchor = { x: 610, y: 140 };
+        const before = screenToImage(v, anchor);
+        const next = zoomAt(v, 3.25, anchor);
+        expect(next.zoom).toBe(3.25);
+        expectPoint(imageToScreen(next, before), anchor);
+    });
+
+    it('clamps to the zoom range and recentres at zoom 1', () => {
+        const v = viewport({ zoom: 2, pan: { x: 50, y: 50 } });
+        expect(zoomAt(v, 100, { x: 0, y: 0 }).zoom).toBe(MAX_ZOOM);
+        expect(zoomAt(v, 0.2, { x: 0, y: 0 })).toEqual({ ...v, zoom: 1, pan: { x: 0, y: 0 } });
+    });
+});
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Image <-> screen mapping shared by the viewer and every overlay drawn over
+// it. "Screen" means CSS pixels relative to the viewer's top-left corner, the
+// space pointer events report in; devicePixelRatio never enters the mapping
+// and only matters when sizing a canvas backing store (see getDeviceScale).
+// "Image" means the media's natural pixels, the space masks are drawn in.
+
+export interface Size {
+    width: number;
+    height: number;
+}
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export interface Rect extends Point {
+    width: number;
+    height: number;
+}
+
+export interface Viewport {
+    container: Size;
+    image: Size;
+    // 1 shows the whole image; larger values magnify around the pan offset.
+    zoom: number;
+    // Offset of the image centre from the container centre, in screen pixels.
+    pan: Point;
+}
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 8;
+
+export const clampZoom = (zoom: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+
+/** Scale that letterboxes `image` inside `container`. Images are never enlarged past their natural size. */
+export const getFitScale = (container: Size, image: Size): number => {
+    if (image.width <= 0 || image.height <= 0) return 0;
+    return Math.max(0, Math.min(container.width / image.width, container.height / image.height, 1));
+};
+
+/** Screen pixels per image pixel. */
+export const getScreenScale = (viewport: Viewport): number =>
+    getFitScale(viewport.container, viewport.image) * viewport.zoom;
+
+/** Device pixels per image pixel, for overlays that want a crisp backing store. */
+export const getDeviceScale = (viewport: Viewport, devicePixelRatio = 1): number =>
+    getScreenScale(viewport) * devicePixelRatio;
+
+/** Where the image sits at zoom 1, centred in the container. */
+export const getFitRect = (viewport: Viewport): Rect => {
+    const fit = getFitScale(viewport.container, viewport.image);
+    const width = viewport.image.width * fit;
+    const height = viewport.image.height * fit;
+    return {
+        x: (viewport.container.width - width) / 2,
+        y: (viewport.container.height - height) / 2,
+        width,
+        height,
+    };
+};
+
+/**
+ * CSS transform that takes the fit rect to its zoomed and panned position.
+ * Apply it with `transform-origin: center` on an element laid out at getFitRect.
+ */
+export const getCssTransform = (viewport: Viewport): string =>
+    `translate(${viewport.pan.x}px, ${viewport.pan.y}px) scale(${viewport.zoom})`;
+
+export const imageToScreen = (viewport: Viewport, point: Point): Point => {
+    const scale = getScreenScale(viewport);
+    return {
+        x: viewport.container.width / 2 + viewport.pan.x + (point.x - viewport.image.width / 2) * scale,
+        y: viewport.container.height / 2 + viewport.pan.y + (point.y - viewport.image.height / 2) * scale,
+    };
+};
+
+export const screenToImage = (viewport: Viewport, point: Point): Point => {
+    const scale = getScreenScale(viewport) || 1;
+    return {
+        x: viewport.image.width / 2 + (point.x - viewport.container.width / 2 - viewport.pan.x) / scale,
+        y: viewport.image.height / 2 + (point.y - viewport.container.height / 2 - viewport.pan.y) / scale,
+    };
+};
+
+/** A pointer's client coordinates relative to `origin`, the viewer's bounding-rect top-left. */
+export const clientToScreen = (origin: Point, client: Point): Point => ({
+    x: client.x - origin.x,
+    y: client.y - origin.y,
+});
+
+/** The image pixel under a pointer, as the viewer reports it to overlays. */
+export const clientToImage = (viewport: Viewport, origin: Point, client: Point): Point =>
+    screenToImage(viewport, clientToScreen(origin, client));
+
+/** Changes zoom while keeping the image point under `anchor` (a screen point) in place. */
+export const zoomAt = (viewport: Viewport, zoom: number, anchor: Point): Viewport => {
+    const nextZoom = clampZoom(zoom);
+    if (nextZoom === MIN_ZOOM) return { ...viewport, zoom: nextZoom, pan: { x: 0, y: 0 } };
+    const ratio = nextZoom / viewport.zoom;
+    const fromCentre = {
+        x: anchor.x - viewport.container.width / 2,
+        y: anchor.y - viewport.container.height / 2,
+    };
+    return {
+        ...viewport,
+        zoom: nextZoom,
+        pan: {
+            x: fromCentre.x - (fromCentre.x - viewport.pan.x) * ratio,
+            y: fromCentre.y - (fromCentre.y - viewport.pan.y) * ratio,
+        },
+    };
+};
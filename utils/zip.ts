@@ -0,0 +1,146 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Minimal ZIP reader/writer for session archives. Entries are written with the
+// "stored" method: the archive mostly holds PNG/JPEG/MP4 data, which does not
+// compress further, and it keeps this free of a deflate implementation.
+
+export interface ZipEntry {
+    name: string;
+    data: Uint8Array;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIR = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date/time as stored in ZIP headers.
+const dosDateTime = (date: Date): { time: number; date: number } => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+export const createZip = (entries: ZipEntry[]): Blob => {
+    const encoder = new TextEncoder();
+    const { time, date } = dosDateTime(new Date());
+    const parts: BlobPart[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        const crc = crc32(entry.data);
+        const size = entry.data.length;
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, LOCAL_HEADER, true);
+        local.setUint16(4, 20, true); // version needed
+        local.setUint16(6, UTF8_FLAG, true);
+        local.setUint16(8, 0, true); // stored
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, size, true);
+        local.setUint32(22, size, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true);
+        parts.push(local.buffer, name as BlobPart, entry.data as BlobPart);
+
+        const header = new DataView(new ArrayBuffer(46));
+        header.setUint32(0, CENTRAL_HEADER, true);
+        header.setUint16(4, 20, true); // version made by
+        header.setUint16(6, 20, true); // version needed
+        header.setUint16(8, UTF8_FLAG, true);
+        header.setUint16(10, 0, true);
+        header.setUint16(12, time, true);
+        header.setUint16(14, date, true);
+        header.setUint32(16, crc, true);
+        header.setUint32(20, size, true);
+        header.setUint32(24, size, true);
+        header.setUint16(28, name.length, true);
+        header.setUint32(42, offset, true);
+        const record = new Uint8Array(46 + name.length);
+        record.set(new Uint8Array(header.buffer), 0);
+        record.set(name, 46);
+        central.push(record);
+
+        offset += 30 + name.length + size;
+    }
+
+    const centralSize = central.reduce((sum, r) => sum + r.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, END_OF_CENTRAL_DIR, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...central as BlobPart[], end.buffer], { type: 'application/zip' });
+};
+
+/**
+ * Reads every entry of a ZIP produced by createZip (or any other tool that
+ * used the stored method). Compressed entries are rejected.
+ */
+export const readZip = async (blob: Blob): Promise<Map<string, Uint8Array>> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    const decoder = new TextDecoder();
+
+    // The end-of-central-directory record sits at the end, before an optional comment.
+    let endOffset = -1;
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === END_OF_CENTRAL_DIR) {
+            endOffset = i;
+            break;
+        }
+    }
+    if (endOffset < 0) throw new Error("The file is not a valid ZIP archive.");
+
+    const count = view.getUint16(endOffset + 10, true);
+    let pointer = view.getUint32(endOffset + 16, true);
+    const entries = new Map<string, Uint8Array>();
+
+    for (let i = 0; i < count; i++) {
+        if (view.getUint32(pointer, true) !== CENTRAL_HEADER) throw new Error("The ZIP archive is corrupted.");
+        const method = view.getUint16(pointer + 10, true);
+        const crc = view.getUint32(pointer + 16, true);
+        const size = view.getUint32(pointer + 20, true);
+        const nameLength = view.getUint16(pointer + 28, true);
+        const extraLength = view.getUint16(pointer + 30, true);
+        const commentLength = view.getUint16(pointer + 32, true);
+        const localOffset = view.getUint32(pointer + 42, true);
+        const name = decoder.decode(bytes.subarray(pointer + 46, pointer + 46 + nameLength));
+
+        if (method !== 0) throw new Error(`"${name}" is compressed; only uncompressed archives are supported.`);
+
+        const localNameLength = view.getUint16(localOffset + 26, true);
+        const localExtraLength = view.getUint16(localOffset + 28, true);
+        const start = localOffset + 30 + localNameLength + localExtraLength;
+        const data = bytes.subarray(start, start + size);
+        if (crc32(data) !== crc) throw new Error(`"${name}" failed its checksum; the archive is corrupted.`);
+
+        if (!name.endsWith('/')) entries.set(name, data);
+        pointer += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+};
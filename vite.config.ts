@@ -6,7 +6,8 @@ export default defineConfig(({ mode }) => {
   return {
     plugins: [react()],
     define: {
-      'process.env.API_KEY': JSON.stringify(env.API_KEY)
+      'process.env.API_KEY': JSON.stringify(env.API_KEY ?? ''),
+      'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER ?? '')
     },
     build: {
       outDir: 'dist',